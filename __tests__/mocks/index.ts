@@ -1,2 +1,3 @@
 export { mockCma } from './mockCma';
 export { mockSdk } from './mockSdk';
+export { mockEntry, mockContentType, mockUser, mockAsset, mockLocale } from './mockSpace';
@@ -0,0 +1,112 @@
+import { AssetProps, ContentTypeProps, EntryProps, LocaleProps, UserProps } from 'contentful-management';
+
+interface MockEntryOptions {
+  id: string;
+  contentType?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  publishedAt?: string;
+  firstPublishedAt?: string;
+  createdBy?: string;
+  fields?: Record<string, any>;
+  sys?: Record<string, any>;
+  metadata?: EntryProps['metadata'];
+}
+
+const mockEntry = ({
+  id,
+  contentType = 'page',
+  createdAt = '2024-01-01T00:00:00.000Z',
+  updatedAt,
+  publishedAt,
+  firstPublishedAt,
+  createdBy = 'user-1',
+  fields = {},
+  sys = {},
+  metadata
+}: MockEntryOptions): EntryProps => ({
+  sys: {
+    id,
+    type: 'Entry',
+    version: publishedAt ? 2 : 1,
+    publishedVersion: publishedAt ? 1 : undefined,
+    createdAt,
+    updatedAt: updatedAt || publishedAt || createdAt,
+    publishedAt,
+    firstPublishedAt: firstPublishedAt || publishedAt,
+    createdBy: { sys: { type: 'Link', linkType: 'User', id: createdBy } },
+    updatedBy: { sys: { type: 'Link', linkType: 'User', id: createdBy } },
+    contentType: { sys: { type: 'Link', linkType: 'ContentType', id: contentType } },
+    space: { sys: { type: 'Link', linkType: 'Space', id: 'space-id' } },
+    environment: { sys: { type: 'Link', linkType: 'Environment', id: 'master' } },
+    automationTags: [],
+    ...sys
+  } as EntryProps['sys'],
+  fields,
+  metadata
+});
+
+const mockContentType = (id: string, name: string, fields: any[] = []): ContentTypeProps => ({
+  sys: { id, type: 'ContentType' } as ContentTypeProps['sys'],
+  name,
+  description: '',
+  displayField: 'title',
+  fields
+});
+
+const mockUser = (id: string, firstName: string, lastName: string): UserProps => ({
+  sys: { id, type: 'User' } as UserProps['sys'],
+  firstName,
+  lastName,
+  email: `${firstName.toLowerCase()}@example.com`
+} as UserProps);
+
+interface MockAssetOptions {
+  id: string;
+  createdAt?: string;
+  publishedAt?: string;
+  archivedAt?: string;
+  contentType?: string;
+  size?: number;
+  fields?: Record<string, any>;
+}
+
+const mockAsset = ({
+  id,
+  createdAt = '2024-01-01T00:00:00.000Z',
+  publishedAt,
+  archivedAt,
+  contentType = 'image/png',
+  size = 1024,
+  fields = {}
+}: MockAssetOptions): AssetProps => ({
+  sys: {
+    id,
+    type: 'Asset',
+    version: publishedAt ? 2 : 1,
+    publishedVersion: publishedAt ? 1 : undefined,
+    createdAt,
+    updatedAt: publishedAt || createdAt,
+    publishedAt,
+    firstPublishedAt: publishedAt,
+    archivedAt
+  } as AssetProps['sys'],
+  fields: {
+    title: {},
+    file: { 'en-US': { fileName: `${id}.png`, contentType, upload: '', details: { size } } },
+    ...fields
+  }
+} as AssetProps);
+
+const mockLocale = (code: string, name: string, isDefault = false): LocaleProps => ({
+  sys: { id: code, type: 'Locale' } as LocaleProps['sys'],
+  code,
+  name,
+  default: isDefault,
+  fallbackCode: null,
+  optional: !isDefault,
+  contentManagementApi: true,
+  contentDeliveryApi: true
+} as LocaleProps);
+
+export { mockEntry, mockContentType, mockUser, mockAsset, mockLocale };
@@ -0,0 +1,317 @@
+import { mockEntry } from '../mocks';
+import {
+  addComparisonValues,
+  aggregateDashboardMetrics,
+  findEntriesInBucket,
+  getComparisonKey,
+  getTimeToPublishStats,
+  getTimeRangeBounds,
+  getTrendsStartForRange,
+  sliceByTimeRange,
+  summarizeComparison
+} from '../../utils/aggregation';
+import { createDashboardFilter } from '../../utils/dashboard-filter';
+
+describe('Dashboard aggregation', () => {
+  const now = new Date('2025-06-25T12:00:00.000Z');
+  const timeZone = 'UTC';
+  const entries = [
+    mockEntry({
+      id: 'a',
+      contentType: 'page',
+      createdAt: '2024-11-01T00:00:00.000Z',
+      firstPublishedAt: '2024-11-05T00:00:00.000Z',
+      publishedAt: '2024-11-05T00:00:00.000Z'
+    }),
+    mockEntry({
+      id: 'b',
+      contentType: 'article',
+      createdBy: 'user-2',
+      createdAt: '2025-06-10T00:00:00.000Z',
+      firstPublishedAt: '2025-06-12T00:00:00.000Z',
+      publishedAt: '2025-06-20T00:00:00.000Z'
+    }),
+    mockEntry({
+      id: 'c',
+      contentType: 'article',
+      createdAt: '2025-05-01T00:00:00.000Z',
+      firstPublishedAt: '2025-05-15T00:00:00.000Z',
+      publishedAt: '2025-05-15T00:00:00.000Z'
+    }),
+    mockEntry({ id: 'draft', contentType: 'page' })
+  ];
+
+  it('builds monthly trends from the first publication to now', () => {
+    const { trends } = aggregateDashboardMetrics(entries, {
+      now,
+      timeZone,
+      contentTypeNames: { page: 'Page', article: 'Article' },
+      userNames: { 'user-1': 'Ada Lovelace', 'user-2': 'Alan Turing' }
+    });
+    const { overall, byContentType, byCreator } = trends.month;
+
+    expect(overall[0].date).toBe('2024-11-01');
+    expect(overall[overall.length - 1]).toMatchObject({ date: '2025-06-01', count: 1, percentChange: 0 });
+    expect(overall.reduce((sum, point) => sum + point.count, 0)).toBe(3);
+    expect(byContentType.series.sort()).toEqual(['Article', 'Page']);
+    expect(byContentType.data.find(point => point.date === '2025-05-01')).toMatchObject({ Article: 1, Page: 0 });
+    expect(byCreator.data.find(point => point.date === '2025-06-01')).toMatchObject({ 'Alan Turing': 1 });
+  });
+
+  it('computes the KPI counts', () => {
+    const { kpis } = aggregateDashboardMetrics(entries, { now, timeZone, needsUpdateMonths: 6, timeToPublishDays: 30 });
+
+    expect(kpis.totalPublished).toBe(3);
+    expect(kpis.previousMonthPublished).toBe(1);
+    expect(kpis.recentlyPublishedCount).toBe(1);
+    expect(kpis.needsUpdateCount).toBe(1);
+    expect(kpis.averageTimeToPublish).toBeCloseTo(2);
+  });
+
+  it('applies the filter to every metric', () => {
+    const { trends, kpis } = aggregateDashboardMetrics(entries, {
+      now,
+      timeZone,
+      filter: createDashboardFilter({ contentTypes: ['article'] }),
+      contentTypeNames: { page: 'Page', article: 'Article' },
+      recentlyPublishedDays: 60
+    });
+    const { overall, byContentType } = trends.month;
+
+    expect(kpis.totalPublished).toBe(2);
+    expect(kpis.recentlyPublishedCount).toBe(2);
+    expect(kpis.needsUpdateCount).toBe(0);
+    expect(overall.reduce((sum, point) => sum + point.count, 0)).toBe(2);
+    expect(byContentType.series).toEqual(['Article']);
+  });
+
+  it('narrows the population by creator', () => {
+    const { kpis, trends } = aggregateDashboardMetrics(entries, {
+      now,
+      timeZone,
+      filter: createDashboardFilter({ creators: ['user-2'] })
+    });
+
+    expect(kpis.totalPublished).toBe(1);
+    expect(trends.month.byCreator.series).toEqual(['user-2']);
+  });
+
+  it('buckets by month in the reporting timezone', () => {
+    const lateInMay = [mockEntry({ id: 'late', publishedAt: '2025-05-31T23:30:00.000Z' })];
+
+    const utc = aggregateDashboardMetrics(lateInMay, { now, timeZone });
+    const berlin = aggregateDashboardMetrics(lateInMay, { now, timeZone: 'Europe/Berlin' });
+
+    expect(utc.kpis.previousMonthPublished).toBe(1);
+    expect(berlin.kpis.previousMonthPublished).toBe(0);
+    expect(berlin.trends.month.overall).toEqual([{ date: '2025-06-01', count: 1, percentChange: 0 }]);
+  });
+
+  it('re-slices trends to a time range', () => {
+    const { overall } = aggregateDashboardMetrics(entries, { now, timeZone }).trends.month;
+
+    expect(sliceByTimeRange(overall, 'all', 'month', now, timeZone)).toHaveLength(overall.length);
+    expect(sliceByTimeRange(overall, '6months', 'month', now, timeZone)[0].date).toBe('2024-12-01');
+    expect(sliceByTimeRange(overall, 'year', 'month', now, timeZone)[0].date).toBe('2024-11-01');
+  });
+
+  it('buckets trends by day, week and quarter', () => {
+    const { trends } = aggregateDashboardMetrics(entries, { now, timeZone });
+
+    // Daily series reach back to the start of last quarter
+    expect(trends.day.overall[0].date).toBe('2025-01-01');
+    expect(trends.day.overall).toHaveLength(176);
+    expect(trends.day.overall.find(point => point.date === '2025-06-12')).toMatchObject({ count: 1 });
+    expect(trends.week.overall.find(point => point.date === '2025-06-09')).toMatchObject({ count: 1 });
+    expect(trends.week.overall.find(point => point.date === '2025-05-12')).toMatchObject({ count: 1 });
+    expect(trends.quarter.overall).toEqual([
+      { date: '2024-10-01', count: 1, percentChange: 0 },
+      { date: '2025-01-01', count: 0, percentChange: -100 },
+      { date: '2025-04-01', count: 2, percentChange: 100 }
+    ]);
+  });
+
+  it('slices bucketed series on bucket boundaries', () => {
+    const { week } = aggregateDashboardMetrics(entries, { now, timeZone }).trends;
+
+    // 30 days before 2025-06-25 is Monday 2025-05-26
+    expect(sliceByTimeRange(week.overall, '30days', 'week', now, timeZone).map(point => point.date))
+      .toEqual(['2025-05-26', '2025-06-02', '2025-06-09', '2025-06-16', '2025-06-23']);
+  });
+
+  it('resolves preset ranges to calendar bounds', () => {
+    expect(getTimeRangeBounds('2025-06-25', 'lastQuarter')).toEqual({ start: '2025-01-01', end: '2025-03-31' });
+    expect(getTimeRangeBounds('2025-02-10', 'lastQuarter')).toEqual({ start: '2024-10-01', end: '2024-12-31' });
+    expect(getTimeRangeBounds('2025-06-25', 'yearToDate')).toEqual({ start: '2025-01-01', end: '2025-06-25' });
+    expect(getTimeRangeBounds('2025-06-25', 'all')).toEqual({ start: null, end: '2025-06-25' });
+  });
+
+  it('slices to a custom range and extends daily trends to cover it', () => {
+    const customRange = { start: '2024-11-01', end: '2024-11-30' };
+    const trendsStart = getTrendsStartForRange({ timeRange: 'custom', customRange, granularity: 'day' }, now, timeZone);
+    const { day } = aggregateDashboardMetrics(entries, { now, timeZone, trendsStart }).trends;
+
+    const sliced = sliceByTimeRange(day.overall, 'custom', 'day', now, timeZone, customRange);
+    expect(trendsStart).toBe('2024-11-01');
+    expect(sliced).toHaveLength(30);
+    expect(sliced.find(point => point.date === '2024-11-05')).toMatchObject({ count: 1 });
+    expect(getTrendsStartForRange({ timeRange: 'custom', customRange: { start: '2025-06-01', end: '2025-06-20' }, granularity: 'day' }, now, timeZone))
+      .toBeUndefined();
+  });
+
+  it('maps buckets onto the previous period and the previous year', () => {
+    expect(getComparisonKey('2025-06-01', 'month', 'previousPeriod', 6)).toBe('2024-12-01');
+    expect(getComparisonKey('2025-06-01', 'month', 'previousYear', 6)).toBe('2024-06-01');
+    expect(getComparisonKey('2025-06-23', 'week', 'previousYear', 5)).toBe('2024-06-24');
+    expect(getComparisonKey('2025-04-01', 'quarter', 'previousPeriod', 2)).toBe('2024-10-01');
+  });
+
+  it('attaches comparison values and totals to a sliced series', () => {
+    const { overall } = aggregateDashboardMetrics(entries, { now, timeZone }).trends.month;
+    const sliced = sliceByTimeRange(overall, '6months', 'month', now, timeZone);
+    const compared = addComparisonValues(overall, sliced, ['count'], 'previousPeriod', 'month');
+
+    // Seven monthly buckets from December, compared with the seven before
+    expect(compared.find(point => point.date === '2025-06-01')).toMatchObject({ count: 1, count_previous: 1 });
+    expect(compared.find(point => point.date === '2025-05-01')).toMatchObject({ count: 1, count_previous: 0 });
+    expect(summarizeComparison(compared, ['count'])).toEqual({ current: 2, previous: 1, percentChange: 100 });
+    expect(addComparisonValues(overall, sliced, ['count'], 'none', 'month')).toBe(sliced);
+  });
+
+  it('extends daily trends to cover the comparison period', () => {
+    expect(getTrendsStartForRange({ timeRange: '30days', granularity: 'day', compareTo: 'previousPeriod' }, now, timeZone))
+      .toBeUndefined();
+    expect(getTrendsStartForRange({ timeRange: '30days', granularity: 'day', compareTo: 'previousYear' }, now, timeZone))
+      .toBe('2024-05-26');
+  });
+
+  it('finds the entries behind a trend bucket', () => {
+    const options = { timeZone, contentTypeNames: { page: 'Page', article: 'Article' } };
+    const ids = (selection: Parameters<typeof findEntriesInBucket>[1]) =>
+      findEntriesInBucket(entries, selection, options).map(entry => entry.sys.id);
+
+    expect(ids({ granularity: 'quarter', date: '2025-04-01' })).toEqual(['b', 'c']);
+    expect(ids({ granularity: 'month', date: '2025-06-01', dimension: 'contentType', series: 'Article' })).toEqual(['b']);
+    expect(ids({ granularity: 'month', date: '2025-06-01', dimension: 'contentType', series: 'Page' })).toEqual([]);
+    expect(ids({ granularity: 'week', date: '2025-06-09', dimension: 'creator', series: 'user-2' })).toEqual(['b']);
+  });
+
+  it('breaks trends down by tag name', () => {
+    const tag = (id: string) => ({ sys: { type: 'Link' as const, linkType: 'Tag' as const, id } });
+    const tagged = [
+      mockEntry({
+        id: 'b',
+        contentType: 'article',
+        createdAt: '2025-06-10T00:00:00.000Z',
+        publishedAt: '2025-06-12T00:00:00.000Z',
+        metadata: { tags: [tag('news'), tag('sport')] }
+      }),
+      mockEntry({
+        id: 'c',
+        contentType: 'article',
+        createdAt: '2025-05-01T00:00:00.000Z',
+        publishedAt: '2025-05-15T00:00:00.000Z',
+        metadata: { tags: [tag('news')] }
+      })
+    ];
+    const options = { now, timeZone, tagNames: { news: 'News' } };
+    const { byTag } = aggregateDashboardMetrics(tagged, options).trends.month;
+
+    expect(byTag.series.sort()).toEqual(['News', 'sport']);
+    expect(byTag.data.find(point => point.date === '2025-06-01')).toMatchObject({ News: 1, sport: 1 });
+    expect(byTag.data.find(point => point.date === '2025-05-01')).toMatchObject({ News: 1, sport: 0 });
+    expect(findEntriesInBucket(tagged, { granularity: 'quarter', date: '2025-04-01', dimension: 'tag', series: 'News' }, options)
+      .map(entry => entry.sys.id)).toEqual(['b', 'c']);
+  });
+
+  it('separates republishing from first publications', () => {
+    const { trends, kpis } = aggregateDashboardMetrics(
+      [...entries, mockEntry({ id: 'edited', contentType: 'page', publishedAt: '2025-06-01T00:00:00.000Z', sys: { version: 4 } })],
+      { now, timeZone }
+    );
+    const june = trends.month.activity.data.find(point => point.date === '2025-06-01');
+    const ids = (series?: string) =>
+      findEntriesInBucket(entries, { granularity: 'month', date: '2025-06-01', dimension: 'activity', series }, { timeZone })
+        .map(entry => entry.sys.id);
+
+    expect(trends.month.activity.series).toEqual(['First published', 'Republished']);
+    expect(june).toMatchObject({ 'First published': 2, Republished: 1 });
+    expect(kpis.pendingChangesCount).toBe(1);
+    expect(ids('Republished')).toEqual(['b']);
+    expect(ids()).toEqual(['b']);
+  });
+
+  it('summarizes the time to publish distribution', () => {
+    const { kpis, timeToPublish } = aggregateDashboardMetrics(entries, {
+      now,
+      timeZone,
+      timeToPublishDays: 60,
+      contentTypeNames: { page: 'Page', article: 'Article' }
+    });
+
+    expect(timeToPublish.overall).toMatchObject({ count: 2, median: 8, mean: 8 });
+    expect(kpis.medianTimeToPublish).toBe(8);
+    expect(timeToPublish.histogram.find(bin => bin.label === '1-3 days')).toMatchObject({ count: 1 });
+    expect(timeToPublish.histogram.find(bin => bin.label === '14-30 days')).toMatchObject({ count: 1 });
+    expect(timeToPublish.byContentType.map(({ name, stats }) => [name, stats.count])).toEqual([['Article', 2]]);
+    expect(timeToPublish.byCreator.map(({ name }) => name)).toEqual(['user-1', 'user-2']);
+  });
+
+  it('reports the draft backlog by age and its monthly trend', () => {
+    const { draftBacklog } = aggregateDashboardMetrics(
+      [
+        ...entries,
+        mockEntry({ id: 'fresh', contentType: 'article', createdBy: 'user-2', createdAt: '2025-06-20T00:00:00.000Z' }),
+        mockEntry({ id: 'shelved', createdAt: '2025-03-01T00:00:00.000Z', sys: { archivedAt: '2025-05-10T00:00:00.000Z' } })
+      ],
+      { now, timeZone, contentTypeNames: { page: 'Page', article: 'Article' } }
+    );
+    const openDrafts = (date: string) => draftBacklog.trend.find(point => point.date === date)?.count;
+
+    expect(draftBacklog.total).toBe(2);
+    expect(draftBacklog.byAge).toEqual([1, 0, 0, 1]);
+    expect(draftBacklog.byContentType.find(row => row.id === 'page')).toMatchObject({ name: 'Page', counts: [0, 0, 0, 1] });
+    expect(draftBacklog.byCreator.find(row => row.id === 'user-2')).toMatchObject({ counts: [1, 0, 0, 0], total: 1 });
+    expect(draftBacklog.trend).toHaveLength(12);
+    expect([openDrafts('2025-02-01'), openDrafts('2025-04-01'), openDrafts('2025-05-01'), openDrafts('2025-06-01')])
+      .toEqual([1, 2, 1, 2]);
+  });
+
+  it('tracks content taken down and the published total over time', () => {
+    const lifecycleEntries = [
+      ...entries,
+      mockEntry({
+        id: 'retired',
+        createdAt: '2024-12-01T00:00:00.000Z',
+        firstPublishedAt: '2025-01-10T00:00:00.000Z',
+        updatedAt: '2025-04-10T00:00:00.000Z',
+        sys: { archivedAt: '2025-04-10T00:00:00.000Z' }
+      }),
+      mockEntry({ id: 'pulled', firstPublishedAt: '2025-02-01T00:00:00.000Z', updatedAt: '2025-06-05T00:00:00.000Z' }),
+      mockEntry({ id: 'shelved', createdAt: '2025-03-01T00:00:00.000Z', sys: { archivedAt: '2025-05-10T00:00:00.000Z' } })
+    ];
+    const { trends, kpis } = aggregateDashboardMetrics(lifecycleEntries, { now, timeZone });
+    const lifecycle = (date: string) => trends.month.lifecycle.data.find(point => point.date === date);
+    const total = (date: string) => trends.month.totalPublished.find(point => point.date === date)?.count;
+    const ids = (date: string, series?: string) =>
+      findEntriesInBucket(lifecycleEntries, { granularity: 'month', date, dimension: 'lifecycle', series }, { timeZone })
+        .map(entry => entry.sys.id);
+
+    expect(kpis).toMatchObject({ archivedCount: 2, unpublishedCount: 1, averageLifespan: 90, previousMonthTotalPublished: 3 });
+    expect(lifecycle('2025-04-01')).toMatchObject({ Archived: 1, 'Net published': -1 });
+    expect(lifecycle('2025-06-01')).toMatchObject({ Published: 1, Unpublished: 1, 'Net published': 0 });
+    expect([total('2025-03-01'), total('2025-04-01'), total('2025-06-01')]).toEqual([3, 2, kpis.totalPublished]);
+    expect(trends.day.totalPublished[trends.day.totalPublished.length - 1].count).toBe(kpis.totalPublished);
+    expect(ids('2025-04-01', 'Archived')).toEqual(['retired']);
+    expect(ids('2025-06-01', 'Net published')).toEqual(['b', 'pulled']);
+  });
+
+  it('interpolates percentiles so a few slow entries do not move the median', () => {
+    const stats = getTimeToPublishStats([1, 2, 2, 3, 365]);
+
+    expect(stats.median).toBe(2);
+    expect(stats.p75).toBe(3);
+    expect(stats.p90).toBeCloseTo(220.2);
+    expect(stats.mean).toBeCloseTo(74.6);
+  });
+});
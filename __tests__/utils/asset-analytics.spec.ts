@@ -0,0 +1,78 @@
+import { mockAsset, mockEntry, mockLocale } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { aggregateAssetMetrics, fetchAssetMetrics, getFileTypeLabel } from '../../utils/asset-analytics';
+import { fetchLinkScan, getLinkedIds } from '../../utils/link-scan';
+
+describe('Asset analytics', () => {
+  const now = new Date('2025-06-25T12:00:00.000Z');
+  const timeZone = 'UTC';
+  const locales = [mockLocale('en-US', 'English', true), mockLocale('de-DE', 'German')];
+  const assets = [
+    mockAsset({
+      id: 'hero',
+      createdAt: '2025-05-02T00:00:00.000Z',
+      publishedAt: '2025-05-03T00:00:00.000Z',
+      size: 2 * 1024 * 1024,
+      fields: {
+        title: { 'en-US': 'Hero', 'de-DE': 'Held' },
+        description: { 'en-US': 'A hero image', 'de-DE': 'Ein Heldenbild' }
+      }
+    }),
+    mockAsset({
+      id: 'manual',
+      createdAt: '2025-06-10T00:00:00.000Z',
+      contentType: 'application/pdf',
+      size: 50 * 1024,
+      fields: { title: { 'en-US': 'Manual' } }
+    }),
+    mockAsset({ id: 'old', createdAt: '2025-04-01T00:00:00.000Z', archivedAt: '2025-06-01T00:00:00.000Z' })
+  ];
+  const entries = [
+    mockEntry({
+      id: 'page',
+      fields: {
+        // Only linked from rich text
+        body: {
+          'en-US': {
+            nodeType: 'document',
+            content: [{ nodeType: 'embedded-asset-block', data: { target: { sys: { type: 'Link', linkType: 'Asset', id: 'hero' } } } }]
+          }
+        }
+      }
+    })
+  ];
+
+  it('counts uploads and publications per month', () => {
+    const { trend, total, publishedCount } = aggregateAssetMetrics(assets, { now, timeZone, locales });
+
+    expect(total).toBe(2);
+    expect(publishedCount).toBe(1);
+    expect(trend.data.map(point => point.date)).toEqual(['2025-04-01', '2025-05-01', '2025-06-01']);
+    expect(trend.data[1]).toMatchObject({ Uploaded: 1, Published: 1 });
+    expect(trend.data[2]).toMatchObject({ Uploaded: 1, Published: 0 });
+  });
+
+  it('groups file types and sizes', () => {
+    const { byFileType, bySize } = aggregateAssetMetrics(assets, { now, timeZone, locales });
+
+    expect(getFileTypeLabel('image/webp')).toBe('Image');
+    expect(byFileType.map(({ label, count }) => [label, count])).toEqual([['Image', 1], ['PDF', 1]]);
+    expect(bySize.find(bin => bin.label === '< 100 KB')).toMatchObject({ count: 1 });
+    expect(bySize.find(bin => bin.label === '1-5 MB')).toMatchObject({ count: 1 });
+  });
+
+  it('finds missing titles and descriptions per locale and unreferenced assets', async () => {
+    const dataSource = createInMemoryDataSource({ assets, locales, entries });
+    const referencedAssetIds = getLinkedIds(await fetchLinkScan(dataSource), 'Asset');
+    const metrics = await fetchAssetMetrics(dataSource, { now, timeZone, referencedAssetIds });
+
+    expect(metrics.missingText).toEqual([
+      { locale: 'en-US', name: 'English', missingTitle: 0, missingDescription: 1 },
+      { locale: 'de-DE', name: 'German', missingTitle: 1, missingDescription: 1 }
+    ]);
+    expect(metrics.missingTextAssets.map(asset => [asset.id, asset.missingTextLocales])).toEqual([
+      ['manual', ['en-US', 'de-DE']]
+    ]);
+    expect(metrics.unreferenced.map(asset => asset.id)).toEqual(['manual']);
+  });
+});
@@ -0,0 +1,81 @@
+import { mockContentType, mockEntry, mockLocale } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { aggregateDashboardMetrics } from '../../utils/aggregation';
+import { fetchEntryOwners, getEntryAuthor } from '../../utils/attribution';
+import { fetchDraftListPage } from '../../utils/kpi-lists';
+
+describe('Creator attribution', () => {
+  const now = new Date('2025-06-25T12:00:00.000Z');
+  const userLink = (id: string) => ({ sys: { type: 'Link', linkType: 'User', id } });
+  const authorLink = (id: string) => ({ 'en-US': { sys: { type: 'Link', linkType: 'Entry', id } } });
+
+  it('credits entries to the chosen user and falls back to the creator', () => {
+    const published = mockEntry({
+      id: 'published',
+      createdBy: 'shell-maker',
+      publishedAt: '2025-06-01T00:00:00.000Z',
+      sys: { publishedBy: userLink('publisher'), updatedBy: userLink('editor') }
+    });
+    const draft = mockEntry({ id: 'draft', createdBy: 'shell-maker', sys: { updatedBy: userLink('editor') } });
+
+    expect(getEntryAuthor(published)).toEqual({ type: 'user', id: 'shell-maker' });
+    expect(getEntryAuthor(published, { mode: 'publishedBy' })).toEqual({ type: 'user', id: 'publisher' });
+    expect(getEntryAuthor(draft, { mode: 'publishedBy' })).toEqual({ type: 'user', id: 'shell-maker' });
+    expect(getEntryAuthor(draft, { mode: 'updatedBy' })).toEqual({ type: 'user', id: 'editor' });
+  });
+
+  it('reads owners from text and reference fields and uses them in the breakdowns', async () => {
+    const entries = [
+      mockEntry({
+        id: 'article-1',
+        contentType: 'article',
+        createdBy: 'shell-maker',
+        publishedAt: '2025-06-10T00:00:00.000Z',
+        firstPublishedAt: '2025-06-10T00:00:00.000Z',
+        fields: { author: authorLink('ada') }
+      }),
+      mockEntry({ id: 'article-2', contentType: 'article', createdBy: 'shell-maker', fields: { author: authorLink('ada') } }),
+      mockEntry({ id: 'article-3', contentType: 'article', createdBy: 'shell-maker' }),
+      mockEntry({ id: 'news-1', contentType: 'news', createdBy: 'shell-maker', fields: { byline: { 'en-US': 'Grace Hopper' } } }),
+      mockEntry({ id: 'page-1', contentType: 'page', createdBy: 'shell-maker' }),
+      mockEntry({ id: 'ada', contentType: 'person', fields: { name: { 'en-US': 'Ada Lovelace' } } })
+    ];
+    const dataSource = createInMemoryDataSource({
+      entries,
+      contentTypes: [
+        { ...mockContentType('person', 'Person', [{ id: 'name', name: 'Name', type: 'Symbol' }]), displayField: 'name' }
+      ],
+      locales: [mockLocale('en-US', 'English', true)]
+    });
+    const ownerFields = { article: 'author', news: 'byline' };
+
+    const owners = await fetchEntryOwners(dataSource, ownerFields);
+    expect(owners).toEqual({
+      'article-1': { id: 'ada', name: 'Ada Lovelace' },
+      'article-2': { id: 'ada', name: 'Ada Lovelace' },
+      'news-1': { id: 'Grace Hopper', name: 'Grace Hopper' }
+    });
+
+    const attribution = { mode: 'ownerField' as const, ownerFields, owners };
+    const { draftBacklog, timeToPublish } = aggregateDashboardMetrics(entries.filter(entry => entry.sys.id !== 'ada'), {
+      now,
+      timeZone: 'UTC',
+      userNames: { 'shell-maker': 'Sam Shell' },
+      attribution
+    });
+    expect(draftBacklog.byCreator.map(row => [row.id, row.name, row.total])).toEqual(
+      expect.arrayContaining([
+        ['ada', 'Ada Lovelace', 1],
+        ['Grace Hopper', 'Grace Hopper', 1],
+        ['shell-maker', 'Sam Shell', 1]
+      ])
+    );
+    expect(draftBacklog.byCreator).toHaveLength(3);
+    expect(timeToPublish.byCreator.map(row => row.name)).toEqual(['Ada Lovelace']);
+
+    const adaDrafts = await fetchDraftListPage(dataSource, { creatorId: 'ada' }, { now, attribution });
+    expect(adaDrafts.items.map(entry => entry.sys.id)).toEqual(['article-2']);
+    const creatorDrafts = await fetchDraftListPage(dataSource, { creatorId: 'shell-maker' }, { now, attribution });
+    expect(creatorDrafts.items.map(entry => entry.sys.id)).toEqual(['page-1']);
+  });
+});
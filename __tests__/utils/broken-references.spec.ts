@@ -0,0 +1,94 @@
+import { mockContentType, mockEntry, mockLocale } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { createDashboardFilter } from '../../utils/dashboard-filter';
+import { fetchBrokenReferences, findBrokenReferences, getEntryLinkFieldIds } from '../../utils/broken-references';
+import { scanEntryLinks } from '../../utils/link-scan';
+
+describe('Broken references', () => {
+  const link = (id: string) => ({ sys: { type: 'Link', linkType: 'Entry', id } });
+  const contentTypes = [
+    mockContentType('page', 'Page', [
+      { id: 'title', name: 'Title', type: 'Symbol' },
+      { id: 'hero', name: 'Hero', type: 'Link', linkType: 'Entry' },
+      { id: 'sections', name: 'Sections', type: 'Array', items: { type: 'Link', linkType: 'Entry' } },
+      { id: 'image', name: 'Image', type: 'Link', linkType: 'Asset' },
+      { id: 'body', name: 'Body', type: 'RichText' }
+    ]),
+    mockContentType('section', 'Section', [{ id: 'title', name: 'Title', type: 'Symbol' }])
+  ];
+  const published = { publishedAt: '2025-06-01T00:00:00.000Z' };
+  const entries = [
+    mockEntry({
+      id: 'home',
+      contentType: 'page',
+      ...published,
+      fields: {
+        title: { 'en-US': 'Home' },
+        hero: { 'en-US': link('live') },
+        sections: { 'en-US': [link('live'), link('draft')], 'de-DE': [link('gone')] },
+        image: { 'en-US': { sys: { type: 'Link', linkType: 'Asset', id: 'missing-asset' } } },
+        body: {
+          'en-US': {
+            nodeType: 'document',
+            content: [{ nodeType: 'embedded-entry-block', data: { target: link('gone') } }]
+          }
+        }
+      }
+    }),
+    mockEntry({ id: 'unpublished-page', contentType: 'page', fields: { hero: { 'en-US': link('gone') } } }),
+    mockEntry({ id: 'live', contentType: 'section', ...published, fields: { title: { 'en-US': 'Live' } } }),
+    mockEntry({ id: 'draft', contentType: 'section', fields: { title: { 'en-US': 'Draft section' } } }),
+    mockEntry({
+      id: 'old',
+      contentType: 'section',
+      sys: { archivedAt: '2025-05-01T00:00:00.000Z' },
+      fields: { title: { 'en-US': 'Old' } }
+    })
+  ];
+
+  it('only checks Link and Array-of-Link fields to entries', () => {
+    expect(getEntryLinkFieldIds(contentTypes[0])).toEqual(['hero', 'sections']);
+  });
+
+  it('reports links from published entries to entries that will not resolve', () => {
+    const sources = [
+      ...entries,
+      mockEntry({ id: 'about', contentType: 'page', ...published, fields: { hero: { 'en-US': link('old') } } })
+    ];
+    const brokenReferences = findBrokenReferences(scanEntryLinks(sources, contentTypes).entries, entries, { contentTypes });
+
+    expect(brokenReferences).toEqual([
+      {
+        sourceId: 'home',
+        sourceTitle: 'Home',
+        contentTypeName: 'Page',
+        fieldName: 'Sections',
+        locale: 'en-US',
+        targetId: 'draft',
+        targetTitle: 'Draft section',
+        targetState: 'unpublished'
+      },
+      expect.objectContaining({ sourceId: 'home', locale: 'de-DE', targetId: 'gone', targetTitle: null, targetState: 'deleted' }),
+      expect.objectContaining({ sourceId: 'about', sourceTitle: 'Untitled', targetId: 'old', targetState: 'archived' })
+    ]);
+  });
+
+  it('reads sources from the link scan and looks up only their targets', async () => {
+    const dataSource = createInMemoryDataSource({
+      entries,
+      contentTypes,
+      locales: [mockLocale('en-US', 'English', true)]
+    });
+    const getEntries = jest.spyOn(dataSource, 'getEntries');
+    const scan = scanEntryLinks(entries, contentTypes);
+
+    const brokenReferences = await fetchBrokenReferences(dataSource, scan, createDashboardFilter());
+    expect(brokenReferences.map(({ targetId, targetState }) => [targetId, targetState])).toEqual([
+      ['draft', 'unpublished'],
+      ['gone', 'deleted']
+    ]);
+    expect(getEntries).toHaveBeenCalledTimes(1);
+    expect(getEntries).toHaveBeenCalledWith(expect.objectContaining({ 'sys.id[in]': 'live,draft,gone' }));
+    expect(await fetchBrokenReferences(dataSource, scan, createDashboardFilter({ contentTypes: ['section'] }))).toEqual([]);
+  });
+});
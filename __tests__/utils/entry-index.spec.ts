@@ -0,0 +1,79 @@
+import { EntryProps } from 'contentful-management';
+import { mockEntry } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { EntryIndex, EntryIndexStore, syncEntryIndex } from '../../utils/entry-index';
+
+const createMemoryStore = (): EntryIndexStore => {
+  const indexes = new Map<string, EntryIndex>();
+  return {
+    load: async (key) => {
+      const index = indexes.get(key);
+      return index ? JSON.parse(JSON.stringify(index)) : null;
+    },
+    save: async (key, index) => {
+      indexes.set(key, JSON.parse(JSON.stringify(index)));
+    },
+    remove: async (key) => {
+      indexes.delete(key);
+    }
+  };
+};
+
+describe('Entry index', () => {
+  let entries: EntryProps[];
+  let store: EntryIndexStore;
+
+  beforeEach(() => {
+    entries = [
+      mockEntry({ id: 'a', publishedAt: '2025-01-01T00:00:00.000Z' }),
+      mockEntry({ id: 'b', publishedAt: '2025-02-01T00:00:00.000Z' }),
+      mockEntry({ id: 'c', updatedAt: '2025-03-01T00:00:00.000Z' })
+    ];
+    store = createMemoryStore();
+  });
+
+  const sync = (dataSource = createInMemoryDataSource({ entries })) =>
+    syncEntryIndex(dataSource, 'space-id', 'master', { store, now: Date.parse('2025-03-02T00:00:00.000Z') });
+
+  it('lists every entry on the first sync and stores them without fields', async () => {
+    const dataSource = createInMemoryDataSource({ entries });
+    const getEntries = jest.spyOn(dataSource, 'getEntries');
+    const indexed = await sync(dataSource);
+
+    expect(getEntries).toHaveBeenCalledWith(expect.objectContaining({ select: 'sys,metadata' }));
+    expect(indexed.map(entry => entry.sys.id).sort()).toEqual(['a', 'b', 'c']);
+    expect(indexed.every(entry => Object.keys(entry.fields).length === 0)).toBe(true);
+  });
+
+  it('shares one sync between overlapping calls', async () => {
+    const dataSource = createInMemoryDataSource({ entries });
+    const getEntries = jest.spyOn(dataSource, 'getEntries');
+
+    const [first, second] = await Promise.all([sync(dataSource), sync(dataSource)]);
+
+    expect(getEntries).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+  });
+
+  it('only requests entries updated since the last sync', async () => {
+    await sync();
+
+    entries[0] = mockEntry({ id: 'a', updatedAt: '2025-03-05T00:00:00.000Z' });
+    const dataSource = createInMemoryDataSource({ entries });
+    const getEntries = jest.spyOn(dataSource, 'getEntries');
+
+    const indexed = await sync(dataSource);
+
+    expect(getEntries.mock.calls[0][0]).toMatchObject({ 'sys.updatedAt[gte]': '2025-03-01T00:00:00.000Z' });
+    expect(indexed.find(entry => entry.sys.id === 'a')?.sys.publishedAt).toBeUndefined();
+  });
+
+  it('drops entries that were deleted', async () => {
+    await sync();
+
+    entries.splice(1, 1);
+    const indexed = await sync();
+
+    expect(indexed.map(entry => entry.sys.id).sort()).toEqual(['a', 'c']);
+  });
+});
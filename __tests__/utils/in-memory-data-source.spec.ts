@@ -0,0 +1,58 @@
+import { mockContentType, mockEntry } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { aggregateDashboardMetrics } from '../../utils/aggregation';
+
+describe('In-memory data source', () => {
+  const entries = [
+    mockEntry({ id: 'a', contentType: 'page', publishedAt: '2025-05-10T10:00:00.000Z' }),
+    mockEntry({ id: 'b', contentType: 'article', publishedAt: '2025-06-02T10:00:00.000Z' }),
+    mockEntry({ id: 'c', contentType: 'article', publishedAt: '2025-06-20T10:00:00.000Z' }),
+    mockEntry({ id: 'd', contentType: 'page' })
+  ];
+  const dataSource = createInMemoryDataSource({
+    entries,
+    contentTypes: [mockContentType('page', 'Page'), mockContentType('article', 'Article')]
+  });
+
+  beforeAll(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-06-25T12:00:00.000Z'));
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('filters, orders and pages entries like the CMA', async () => {
+    const response = await dataSource.getEntries({
+      'sys.publishedAt[exists]': true,
+      'sys.contentType.sys.id[in]': 'article',
+      order: '-sys.publishedAt',
+      limit: 1
+    });
+
+    expect(response.total).toBe(2);
+    expect(response.items.map(entry => entry.sys.id)).toEqual(['c']);
+  });
+
+  it('supports date range operators', async () => {
+    const response = await dataSource.getEntries({
+      'sys.firstPublishedAt[gte]': '2025-06-01T00:00:00.000Z',
+      'sys.firstPublishedAt[lte]': '2025-06-10T00:00:00.000Z'
+    });
+
+    expect(response.items.map(entry => entry.sys.id)).toEqual(['b']);
+  });
+
+  it('drives the dashboard metrics offline', async () => {
+    const { items } = await dataSource.getEntries();
+    const metrics = aggregateDashboardMetrics(items, {
+      contentTypeNames: { page: 'Page', article: 'Article' },
+      recentlyPublishedDays: 30
+    });
+
+    expect(metrics.kpis.totalPublished).toBe(3);
+    expect(metrics.kpis.recentlyPublishedCount).toBe(2);
+    expect(metrics.trends.month.overall.map(point => point.count)).toEqual([1, 2]);
+    expect(metrics.trends.month.byContentType.series.sort()).toEqual(['Article', 'Page']);
+  });
+});
@@ -0,0 +1,125 @@
+import { mockEntry } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { aggregateDashboardMetrics } from '../../utils/aggregation';
+import { createDashboardFilter } from '../../utils/dashboard-filter';
+import { fetchDraftListPage, fetchKpiListPage, getKpiListQuery, KpiListOptions } from '../../utils/kpi-lists';
+
+describe('KPI entry lists', () => {
+  const now = new Date('2025-06-25T12:00:00.000Z');
+  const entries = [
+    mockEntry({
+      id: 'slow',
+      contentType: 'article',
+      createdAt: '2025-05-01T00:00:00.000Z',
+      publishedAt: '2025-06-11T00:00:00.000Z',
+      fields: { title: { 'en-US': 'Quarterly report' } }
+    }),
+    mockEntry({
+      id: 'fast',
+      contentType: 'article',
+      createdAt: '2025-06-19T00:00:00.000Z',
+      publishedAt: '2025-06-20T00:00:00.000Z',
+      fields: { title: { 'en-US': 'Launch announcement' } }
+    }),
+    mockEntry({
+      id: 'stale',
+      contentType: 'page',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      publishedAt: '2024-02-01T00:00:00.000Z',
+      fields: { title: { 'en-US': 'About us' } }
+    }),
+    mockEntry({ id: 'draft', contentType: 'page' })
+  ];
+  const dataSource = createInMemoryDataSource({ entries });
+  const options = { now, timeZone: 'UTC', recentlyPublishedDays: 7, needsUpdateMonths: 6, timeToPublishDays: 30 };
+
+  it('lists the same entries the KPI numbers count', async () => {
+    const { kpis } = aggregateDashboardMetrics(entries, options);
+
+    expect((await fetchKpiListPage(dataSource, 'totalPublished', options)).total).toBe(kpis.totalPublished);
+    expect((await fetchKpiListPage(dataSource, 'recentlyPublished', options)).total).toBe(kpis.recentlyPublishedCount);
+    expect((await fetchKpiListPage(dataSource, 'needsUpdate', options)).total).toBe(kpis.needsUpdateCount);
+  });
+
+  it('sorts the time to publish list by days to publish', async () => {
+    const page = await fetchKpiListPage(dataSource, 'averageTimeToPublish', options);
+
+    expect(page.items.map(entry => entry.sys.id)).toEqual(['slow', 'fast']);
+  });
+
+  it('pages and searches the list', async () => {
+    const firstPage = await fetchKpiListPage(dataSource, 'totalPublished', options, { pageSize: 2 });
+    const secondPage = await fetchKpiListPage(dataSource, 'totalPublished', options, { page: 1, pageSize: 2 });
+    const search = await fetchKpiListPage(dataSource, 'totalPublished', options, { search: 'launch' });
+
+    expect(firstPage.items.map(entry => entry.sys.id)).toEqual(['fast', 'slow']);
+    expect(secondPage.items.map(entry => entry.sys.id)).toEqual(['stale']);
+    expect(search.items.map(entry => entry.sys.id)).toEqual(['fast']);
+  });
+
+  it('lists published entries with unpublished changes', async () => {
+    const edited = mockEntry({ id: 'edited', contentType: 'page', publishedAt: '2025-06-01T00:00:00.000Z', sys: { version: 5 } });
+    const source = createInMemoryDataSource({ entries: [...entries, edited] });
+    const { kpis } = aggregateDashboardMetrics([...entries, edited], options);
+    const page = await fetchKpiListPage(source, 'pendingChanges', options);
+
+    expect(page.items.map(entry => entry.sys.id)).toEqual(['edited']);
+    expect(page.total).toBe(kpis.pendingChangesCount);
+  });
+
+  it('lists the drafts behind each cell of the draft backlog', async () => {
+    const { draftBacklog } = aggregateDashboardMetrics(entries, options);
+    const total = async (selection: Parameters<typeof fetchDraftListPage>[1]) =>
+      (await fetchDraftListPage(dataSource, selection, options)).total;
+
+    expect(await total({})).toBe(draftBacklog.total);
+    expect(await total({ ageBucket: 3 })).toBe(draftBacklog.byAge[3]);
+    expect(await total({ ageBucket: 0 })).toBe(0);
+    expect(await total({ contentTypeId: 'page', ageBucket: 3 })).toBe(1);
+    expect(await total({ contentTypeId: 'article' })).toBe(0);
+  });
+
+  it('applies per content type thresholds and review date fields', async () => {
+    const reviewed = mockEntry({
+      id: 'reviewed',
+      contentType: 'article',
+      publishedAt: '2025-06-01T00:00:00.000Z',
+      fields: { reviewDate: { 'en-US': '2024-03-01' } }
+    });
+    const source = createInMemoryDataSource({ entries: [...entries, reviewed] });
+    const ids = async (needsUpdateRules: KpiListOptions['needsUpdateRules']) =>
+      (await fetchKpiListPage(source, 'needsUpdate', { ...options, needsUpdateRules })).items.map(entry => entry.sys.id);
+
+    expect(await ids({ page: { months: null } })).toEqual([]);
+    expect(await ids({ page: { months: 24 } })).toEqual([]);
+    expect(await ids({ article: { months: 12, dateField: 'reviewDate' } })).toEqual(['stale', 'reviewed']);
+    expect(aggregateDashboardMetrics(entries, { ...options, needsUpdateRules: { page: { months: null } } }).kpis.needsUpdateCount)
+      .toBe(0);
+  });
+
+  it('pages the Needs Update list across the queries of each rule', async () => {
+    const reviewed = mockEntry({
+      id: 'reviewed',
+      contentType: 'article',
+      publishedAt: '2025-06-01T00:00:00.000Z',
+      fields: { reviewDate: { 'en-US': '2024-03-01' } }
+    });
+    const source = createInMemoryDataSource({ entries: [...entries, reviewed] });
+    const getEntries = jest.spyOn(source, 'getEntries');
+    const needsUpdateRules = { article: { months: 12, dateField: 'reviewDate' } };
+
+    const secondPage = await fetchKpiListPage(source, 'needsUpdate', { ...options, needsUpdateRules }, { page: 1, pageSize: 1 });
+    expect(secondPage.items.map(entry => entry.sys.id)).toEqual(['reviewed']);
+    expect(secondPage.total).toBe(2);
+    expect(getEntries).toHaveBeenCalledWith(expect.objectContaining({ content_type: 'article', 'fields.reviewDate[lte]': expect.any(String) }));
+    expect(getEntries.mock.calls.every(([query]) => query?.limit === 1)).toBe(true);
+  });
+
+  it('applies the dashboard filter and the scheduled entry IDs', async () => {
+    const filter = createDashboardFilter({ contentTypes: ['page'] });
+
+    expect(getKpiListQuery('totalPublished', { filter })['sys.contentType.sys.id[in]']).toBe('page');
+    expect((await fetchKpiListPage(dataSource, 'scheduled', { ...options, scheduledEntryIds: ['draft'] })).total).toBe(1);
+    expect((await fetchKpiListPage(dataSource, 'scheduled', options)).total).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { mockEntry } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { clearLinkScan, LINK_SCAN_TTL, LinkScan, LinkScanStore, loadLinkScan } from '../../utils/link-scan';
+
+const createMemoryStore = (): LinkScanStore => {
+  const scans = new Map<string, LinkScan>();
+  return {
+    load: async (key) => scans.get(key) ?? null,
+    save: async (key, scan) => {
+      scans.set(key, scan);
+    },
+    remove: async (key) => {
+      scans.delete(key);
+    }
+  };
+};
+
+describe('Link scan', () => {
+  const now = Date.parse('2025-06-25T12:00:00.000Z');
+  const entries = [
+    mockEntry({
+      id: 'page',
+      fields: {
+        hero: { 'en-US': { sys: { type: 'Link', linkType: 'Asset', id: 'hero' } } },
+        sections: { 'en-US': [{ sys: { type: 'Link', linkType: 'Entry', id: 'section' } }] }
+      }
+    }),
+    mockEntry({ id: 'section' })
+  ];
+  let store: LinkScanStore;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+  });
+
+  it('keeps only the links of each entry', async () => {
+    const scan = await loadLinkScan(createInMemoryDataSource({ entries }), 'space-id', 'master', { store, now });
+
+    expect(scan.entries.map(({ entry, linkedEntryIds, linkedAssetIds }) => [entry.sys.id, linkedEntryIds, linkedAssetIds])).toEqual([
+      ['page', ['section'], ['hero']],
+      ['section', [], []]
+    ]);
+    expect(scan.entries.every(({ entry }) => Object.keys(entry.fields).length === 0)).toBe(true);
+  });
+
+  it('shares a running scan and reuses it until it expires', async () => {
+    const dataSource = createInMemoryDataSource({ entries });
+    const getEntries = jest.spyOn(dataSource, 'getEntries');
+
+    const [first, second] = await Promise.all([
+      loadLinkScan(dataSource, 'space-id', 'master', { store, now }),
+      loadLinkScan(dataSource, 'space-id', 'master', { store, now })
+    ]);
+    expect(second).toBe(first);
+    await loadLinkScan(dataSource, 'space-id', 'master', { store, now: now + LINK_SCAN_TTL - 1 });
+    expect(getEntries).toHaveBeenCalledTimes(1);
+
+    await loadLinkScan(dataSource, 'space-id', 'master', { store, now: now + LINK_SCAN_TTL });
+    expect(getEntries).toHaveBeenCalledTimes(2);
+  });
+
+  it('scans again once cleared', async () => {
+    const dataSource = createInMemoryDataSource({ entries });
+    const getEntries = jest.spyOn(dataSource, 'getEntries');
+
+    await loadLinkScan(dataSource, 'space-id', 'master', { store, now });
+    clearLinkScan('space-id', 'master', store);
+    await loadLinkScan(dataSource, 'space-id', 'master', { store, now });
+    expect(getEntries).toHaveBeenCalledTimes(2);
+  });
+});
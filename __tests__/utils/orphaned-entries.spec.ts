@@ -0,0 +1,70 @@
+import { mockContentType, mockEntry, mockLocale } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { createDashboardFilter } from '../../utils/dashboard-filter';
+import { findOrphanedEntries, summarizeOrphanedEntries } from '../../utils/orphaned-entries';
+import { fetchLinkScan, scanEntryLinks } from '../../utils/link-scan';
+
+describe('Orphaned entries', () => {
+  const now = new Date('2025-06-25T12:00:00.000Z');
+  const link = (id: string) => ({ sys: { type: 'Link', linkType: 'Entry', id } });
+  const contentTypes = [mockContentType('page', 'Page'), mockContentType('section', 'Section')];
+  const entries = [
+    mockEntry({
+      id: 'home',
+      contentType: 'page',
+      publishedAt: '2024-01-01T00:00:00.000Z',
+      fields: { title: { 'en-US': 'Home' }, sections: { 'en-US': [link('linked'), link('home')] } }
+    }),
+    mockEntry({ id: 'linked', contentType: 'section', publishedAt: '2025-06-20T00:00:00.000Z' }),
+    mockEntry({ id: 'embedded', contentType: 'section', publishedAt: '2025-06-20T00:00:00.000Z' }),
+    mockEntry({
+      id: 'draft-page',
+      contentType: 'page',
+      fields: {
+        body: {
+          'en-US': { nodeType: 'document', content: [{ nodeType: 'embedded-entry-block', data: { target: link('embedded') } }] }
+        }
+      }
+    }),
+    mockEntry({
+      id: 'lonely',
+      contentType: 'section',
+      createdAt: '2025-02-01T00:00:00.000Z',
+      publishedAt: '2025-03-01T00:00:00.000Z',
+      fields: { title: { 'en-US': 'Lonely' } }
+    }),
+    mockEntry({
+      id: 'archived-page',
+      contentType: 'page',
+      sys: { archivedAt: '2025-05-01T00:00:00.000Z' },
+      fields: { sections: { 'en-US': [link('only-archived-link')] } }
+    }),
+    mockEntry({ id: 'only-archived-link', contentType: 'section', publishedAt: '2025-06-01T00:00:00.000Z' })
+  ];
+
+  it('finds published entries without incoming links', () => {
+    const orphans = findOrphanedEntries(scanEntryLinks(entries, contentTypes), { now });
+
+    expect(orphans.map(({ id }) => id)).toEqual(['home', 'lonely', 'only-archived-link']);
+    expect(orphans[1]).toMatchObject({ title: 'Lonely', contentTypeName: 'Section', ageBucket: 1 });
+    expect(findOrphanedEntries(scanEntryLinks(entries), { now, filter: createDashboardFilter({ contentTypes: ['page'] }) }))
+      .toHaveLength(1);
+  });
+
+  it('groups orphans by content type and age without the root types', () => {
+    const orphans = findOrphanedEntries(scanEntryLinks(entries, contentTypes), { now });
+    const report = summarizeOrphanedEntries(orphans, ['page']);
+
+    expect(report.total).toBe(2);
+    expect(report.byAge).toEqual([1, 1, 0, 0]);
+    expect(report.byContentType).toEqual([{ id: 'section', name: 'Section', counts: [1, 1, 0, 0], total: 2 }]);
+    expect(summarizeOrphanedEntries(orphans).byContentType.map(({ id }) => id)).toEqual(['section', 'page']);
+  });
+
+  it('scans every entry through the data source', async () => {
+    const dataSource = createInMemoryDataSource({ entries, contentTypes, locales: [mockLocale('en-US', 'English', true)] });
+
+    const orphans = findOrphanedEntries(await fetchLinkScan(dataSource), { now });
+    expect(orphans.map(({ id }) => id)).toEqual(['home', 'lonely', 'only-archived-link']);
+  });
+});
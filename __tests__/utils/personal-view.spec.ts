@@ -0,0 +1,119 @@
+import { CommentProps, ScheduledActionProps, TaskProps } from 'contentful-management';
+import { mockEntry } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { createDashboardFilter } from '../../utils/dashboard-filter';
+import { fetchMyContent, fetchMyTasks } from '../../utils/personal-view';
+import { formatReviewComment } from '../../utils/reviews';
+
+describe('Personal views', () => {
+  const now = new Date('2025-06-25T12:00:00.000Z');
+  const filter = createDashboardFilter();
+  const userLink = (id: string) => ({ sys: { type: 'Link', linkType: 'User', id } });
+  const entries = [
+    mockEntry({ id: 'my-draft', createdBy: 'me', updatedAt: '2025-06-01T00:00:00.000Z' }),
+    mockEntry({ id: 'my-stale', createdBy: 'me', publishedAt: '2024-01-01T00:00:00.000Z' }),
+    mockEntry({
+      id: 'updated-by-me',
+      createdBy: 'other',
+      publishedAt: '2025-06-20T00:00:00.000Z',
+      sys: { updatedBy: userLink('me') }
+    }),
+    mockEntry({ id: 'theirs', createdBy: 'other', publishedAt: '2025-06-10T00:00:00.000Z' }),
+    mockEntry({ id: 'my-archived', createdBy: 'me', sys: { archivedAt: '2025-05-01T00:00:00.000Z' } })
+  ];
+  const mockScheduledAction = (id: string, entryId: string, createdBy: string, datetime: string) => ({
+    sys: { id, type: 'ScheduledAction', status: 'scheduled', createdBy: userLink(createdBy) },
+    action: 'publish',
+    entity: { sys: { type: 'Link', linkType: 'Entry', id: entryId } },
+    scheduledFor: { datetime }
+  }) as unknown as ScheduledActionProps;
+  const mockTask = (id: string, entryId: string, assigneeId: string, status: string, dueDate?: string) => ({
+    sys: { id, type: 'Task', createdAt: '2025-06-01T00:00:00.000Z', parentEntity: { sys: { type: 'Link', linkType: 'Entry', id: entryId } } },
+    body: `Task ${id}`,
+    assignedTo: userLink(assigneeId),
+    status,
+    dueDate
+  }) as unknown as TaskProps;
+
+  it('splits the entries the user created or last updated', async () => {
+    const dataSource = createInMemoryDataSource({
+      entries,
+      scheduledActions: [
+        mockScheduledAction('scheduled-by-me', 'theirs', 'me', '2025-07-01T09:00:00.000Z'),
+        mockScheduledAction('scheduled-for-me', 'my-draft', 'other', '2025-06-30T09:00:00.000Z'),
+        mockScheduledAction('in-the-past', 'my-stale', 'me', '2025-06-01T09:00:00.000Z')
+      ]
+    });
+
+    const myContent = await fetchMyContent(dataSource, entries, 'me', {
+      filter,
+      now,
+      timeZone: 'UTC',
+      needsUpdateMonths: 6
+    });
+
+    expect(myContent.recent.map(entry => entry.sys.id)).toEqual(['updated-by-me', 'my-draft', 'my-stale']);
+    expect(myContent.drafts.map(entry => entry.sys.id)).toEqual(['my-draft']);
+    expect(myContent.needsUpdate.map(entry => entry.sys.id)).toEqual(['my-stale']);
+    expect(myContent.scheduled.map(entry => entry.sys.id)).toEqual(['my-draft', 'theirs']);
+  });
+
+  it('leaves entries marked reviewed out of Needs Update', async () => {
+    const review = {
+      sys: {
+        id: 'review',
+        type: 'Comment',
+        createdAt: '2025-06-01T00:00:00.000Z',
+        createdBy: userLink('me'),
+        parentEntity: { sys: { type: 'Link', linkType: 'Entry', id: 'my-stale' } }
+      },
+      body: formatReviewComment('2025-12-01')
+    } as unknown as CommentProps;
+    const dataSource = createInMemoryDataSource({ entries, comments: [review] });
+
+    const myContent = await fetchMyContent(dataSource, entries, 'me', {
+      filter,
+      now,
+      timeZone: 'UTC',
+      needsUpdateMonths: 6
+    });
+
+    expect(myContent.needsUpdate).toEqual([]);
+  });
+
+  it('lists open tasks assigned to the user across all entries', async () => {
+    const dataSource = createInMemoryDataSource({
+      entries,
+      tasks: [
+        mockTask('no-due-date', 'my-draft', 'me', 'active'),
+        mockTask('due-soon', 'theirs', 'me', 'active', '2025-07-10'),
+        mockTask('someone-else', 'theirs', 'other', 'active'),
+        mockTask('done', 'my-stale', 'me', 'resolved'),
+        mockTask('on-archived', 'my-archived', 'me', 'active')
+      ]
+    });
+
+    const myTasks = await fetchMyTasks(dataSource, entries, 'me', filter);
+    expect(myTasks.tasks.map(({ task, entry }) => [task.sys.id, entry.sys.id])).toEqual([
+      ['due-soon', 'theirs'],
+      ['no-due-date', 'my-draft']
+    ]);
+    expect(myTasks).toMatchObject({ checkedCount: 4, totalCount: 4 });
+  });
+
+  it('reads the tasks of the most recently updated entries up to the limit', async () => {
+    const dataSource = createInMemoryDataSource({
+      entries,
+      tasks: [mockTask('recent', 'updated-by-me', 'me', 'active'), mockTask('old', 'my-stale', 'me', 'active')]
+    });
+    const getTasks = jest.spyOn(dataSource, 'getTasks');
+    const onProgress = jest.fn();
+
+    const myTasks = await fetchMyTasks(dataSource, entries, 'me', filter, { limit: 2, onProgress });
+
+    expect(getTasks).toHaveBeenCalledTimes(2);
+    expect(myTasks.tasks.map(({ task }) => task.sys.id)).toEqual(['recent']);
+    expect(myTasks).toMatchObject({ checkedCount: 2, totalCount: 4 });
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+  });
+});
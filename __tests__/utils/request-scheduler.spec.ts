@@ -0,0 +1,97 @@
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import {
+  createRequestScheduler,
+  createScheduledDataSource,
+  getRetryAfterMs,
+  RequestCancelledError
+} from '../../utils/request-scheduler';
+
+const rateLimitError = (retryAfterSeconds?: number) =>
+  Object.assign(new Error('Rate limit exceeded'), {
+    name: 'RateLimitExceeded',
+    status: 429,
+    headers: retryAfterSeconds !== undefined ? { 'retry-after': String(retryAfterSeconds) } : {}
+  });
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+describe('Request scheduler', () => {
+  it('never runs more requests than the concurrency cap', async () => {
+    const scheduler = createRequestScheduler({ concurrency: 2 });
+    let running = 0;
+    let maxRunning = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        scheduler.schedule(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          running--;
+        })
+      )
+    );
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('retries rate limited requests', async () => {
+    const scheduler = createRequestScheduler({ baseDelayMs: 1 });
+    const request = jest.fn()
+      .mockRejectedValueOnce(rateLimitError(0))
+      .mockRejectedValueOnce(rateLimitError())
+      .mockResolvedValue('ok');
+
+    await expect(scheduler.schedule(request)).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other client errors', async () => {
+    const scheduler = createRequestScheduler({ baseDelayMs: 1 });
+    const request = jest.fn().mockRejectedValue(Object.assign(new Error('Not found'), { status: 404 }));
+
+    await expect(scheduler.schedule(request)).rejects.toThrow('Not found');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries writes only when they are rate limited', async () => {
+    const dataSource = createInMemoryDataSource();
+    const createTask = jest.spyOn(dataSource, 'createTask')
+      .mockRejectedValueOnce(rateLimitError(0))
+      .mockRejectedValueOnce(Object.assign(new Error('Server error'), { status: 500 }));
+    const scheduled = createScheduledDataSource(dataSource, createRequestScheduler({ baseDelayMs: 1 }));
+
+    const task = { body: 'Review', status: 'active', assignedTo: { sys: { type: 'Link', linkType: 'User', id: 'editor' } } } as const;
+
+    await expect(scheduled.createTask('entry', task)).rejects.toThrow('Server error');
+    expect(createTask).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads the delay from Retry-After headers', () => {
+    expect(getRetryAfterMs(rateLimitError(2))).toBe(2000);
+    expect(getRetryAfterMs(new Error('boom'))).toBeNull();
+  });
+
+  it('drops queued requests when their signal is aborted', async () => {
+    const scheduler = createRequestScheduler({ concurrency: 1 });
+    const controller = new AbortController();
+    const blocker = deferred();
+    const queued = jest.fn().mockResolvedValue('late');
+
+    const first = scheduler.schedule(() => blocker.promise, controller.signal);
+    const second = scheduler.schedule(queued, controller.signal);
+
+    controller.abort();
+    blocker.resolve();
+
+    await first;
+    await expect(second).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(queued).not.toHaveBeenCalled();
+  });
+});
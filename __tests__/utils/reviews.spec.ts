@@ -0,0 +1,97 @@
+import { CommentProps } from 'contentful-management';
+import { mockEntry } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { fetchKpiListPage, withoutReviewedItems } from '../../utils/kpi-lists';
+import {
+  fetchEntryReviews,
+  formatReviewComment,
+  getNextReviewDue,
+  markEntryReviewed,
+  parseReviewComment,
+  withoutCurrentReviews
+} from '../../utils/reviews';
+
+describe('Entry reviews', () => {
+  const now = new Date('2025-06-25T12:00:00.000Z');
+  const mockComment = (id: string, entryId: string, body: string, createdAt: string) => ({
+    sys: {
+      id,
+      type: 'Comment',
+      createdAt,
+      createdBy: { sys: { type: 'Link', linkType: 'User', id: 'editor' } },
+      parentEntity: { sys: { type: 'Link', linkType: 'Entry', id: entryId } }
+    },
+    body
+  }) as unknown as CommentProps;
+  const entries = [
+    mockEntry({ id: 'reviewed', publishedAt: '2024-01-01T00:00:00.000Z' }),
+    mockEntry({ id: 'review-expired', publishedAt: '2024-01-01T00:00:00.000Z' }),
+    mockEntry({ id: 'stale', publishedAt: '2024-01-01T00:00:00.000Z' })
+  ];
+  const comments = [
+    mockComment('c1', 'reviewed', formatReviewComment('2025-12-01', 'Prices checked'), '2025-06-01T00:00:00.000Z'),
+    mockComment('c2', 'reviewed', 'Looks good to me', '2025-06-02T00:00:00.000Z'),
+    mockComment('c3', 'review-expired', formatReviewComment('2025-06-25'), '2025-01-01T00:00:00.000Z')
+  ];
+
+  it('round-trips a review through its comment', () => {
+    expect(parseReviewComment(comments[0])).toEqual({
+      commentId: 'c1',
+      entryId: 'reviewed',
+      reviewerId: 'editor',
+      reviewedAt: '2025-06-01T00:00:00.000Z',
+      nextReviewDue: '2025-12-01',
+      note: 'Prices checked'
+    });
+    expect(parseReviewComment(comments[1])).toBeNull();
+    expect(getNextReviewDue(now, 6, 'UTC')).toBe('2025-12-25');
+  });
+
+  it('hides entries until their next review is due', async () => {
+    const dataSource = createInMemoryDataSource({ entries, comments });
+
+    expect((await fetchEntryReviews(dataSource, 'reviewed')).map(({ commentId }) => commentId)).toEqual(['c1']);
+    const remaining = await withoutCurrentReviews(dataSource, entries, { now, timeZone: 'UTC' });
+    expect(remaining.map(entry => entry.sys.id)).toEqual(['review-expired', 'stale']);
+  });
+
+  it('reads comments again only for entries edited since they were cached', async () => {
+    const dataSource = createInMemoryDataSource({ entries, comments });
+    const getComments = jest.spyOn(dataSource, 'getComments');
+    const cache = {};
+
+    await withoutCurrentReviews(dataSource, entries, { now, timeZone: 'UTC', cache });
+    expect(getComments).toHaveBeenCalledTimes(3);
+
+    const edited = { ...entries[2], sys: { ...entries[2].sys, updatedAt: '2025-06-24T00:00:00.000Z' } };
+    const remaining = await withoutCurrentReviews(dataSource, [entries[0], entries[1], edited], { now, timeZone: 'UTC', cache });
+    expect(getComments).toHaveBeenCalledTimes(4);
+    expect(getComments).toHaveBeenLastCalledWith('stale');
+    expect(remaining.map(entry => entry.sys.id)).toEqual(['review-expired', 'stale']);
+  });
+
+  it('treats entries marked reviewed as fresh in the Needs Update list', async () => {
+    const dataSource = createInMemoryDataSource({ entries, currentUserId: 'reviewer' });
+    const options = { now, timeZone: 'UTC', recentlyPublishedDays: 7, needsUpdateMonths: 6, timeToPublishDays: 30 };
+
+    const reviewedPage = async () =>
+      withoutReviewedItems(dataSource, await fetchKpiListPage(dataSource, 'needsUpdate', options), options);
+
+    expect((await reviewedPage()).total).toBe(3);
+    const review = await markEntryReviewed(dataSource, entries[2], { nextReviewDue: getNextReviewDue(now, 3, 'UTC') });
+    expect(review).toMatchObject({ entryId: 'stale', reviewerId: 'reviewer', nextReviewDue: '2025-09-25', note: '' });
+    expect((await fetchKpiListPage(dataSource, 'needsUpdate', options)).total).toBe(3);
+    expect((await reviewedPage()).total).toBe(2);
+  });
+
+  it('keeps entries whose comments fail to load', async () => {
+    const dataSource = createInMemoryDataSource({ entries, comments });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(dataSource, 'getComments').mockRejectedValueOnce(new Error('Server error'));
+    const cache = {};
+
+    const remaining = await withoutCurrentReviews(dataSource, entries, { now, timeZone: 'UTC', cache });
+    expect(remaining.map(entry => entry.sys.id)).toEqual(['reviewed', 'review-expired', 'stale']);
+    expect(Object.keys(cache)).toEqual(['review-expired', 'stale']);
+  });
+});
@@ -0,0 +1,59 @@
+import { TaskProps } from 'contentful-management';
+import { mockEntry } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { createEntryTasks, fetchOpenTasks } from '../../utils/tasks';
+
+describe('Entry tasks', () => {
+  const entries = [mockEntry({ id: 'stale' }), mockEntry({ id: 'draft' }), mockEntry({ id: 'done' })];
+  const resolvedTask = {
+    sys: { id: 'resolved', type: 'Task', parentEntity: { sys: { type: 'Link', linkType: 'Entry', id: 'done' } } },
+    body: 'Already handled',
+    assignedTo: { sys: { type: 'Link', linkType: 'User', id: 'editor' } },
+    status: 'resolved'
+  } as unknown as TaskProps;
+
+  it('creates the same task on every selected entry', async () => {
+    const dataSource = createInMemoryDataSource({ entries });
+
+    const { created: tasks, failedEntryIds } = await createEntryTasks(dataSource, ['stale', 'draft'], {
+      assigneeId: 'editor',
+      body: '  Check the prices  ',
+      dueDate: '2025-07-01'
+    });
+
+    expect(tasks.map(task => task.sys.parentEntity.sys.id)).toEqual(['stale', 'draft']);
+    expect(failedEntryIds).toEqual([]);
+    expect(tasks[0]).toMatchObject({
+      body: 'Check the prices',
+      status: 'active',
+      dueDate: '2025-07-01',
+      assignedTo: { sys: { id: 'editor' } }
+    });
+  });
+
+  it('reports the entries a task could not be created on', async () => {
+    const dataSource = createInMemoryDataSource({ entries });
+    const createTask = dataSource.createTask;
+    jest.spyOn(dataSource, 'createTask').mockImplementation((entryId, task) =>
+      entryId === 'draft' ? Promise.reject(new Error('Rate limit exceeded')) : createTask(entryId, task)
+    );
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { created, failedEntryIds } = await createEntryTasks(dataSource, ['stale', 'draft', 'done'], {
+      assigneeId: 'editor',
+      body: 'Update the copy'
+    });
+
+    expect(created.map(task => task.sys.parentEntity.sys.id)).toEqual(['stale', 'done']);
+    expect(failedEntryIds).toEqual(['draft']);
+  });
+
+  it('lists only entries with open tasks', async () => {
+    const dataSource = createInMemoryDataSource({ entries, tasks: [resolvedTask] });
+    await createEntryTasks(dataSource, ['stale'], { assigneeId: 'editor', body: 'Update the copy' });
+
+    const openTasks = await fetchOpenTasks(dataSource, ['stale', 'draft', 'done']);
+    expect(Object.keys(openTasks)).toEqual(['stale']);
+    expect(openTasks.stale[0].dueDate).toBeUndefined();
+  });
+});
@@ -0,0 +1,37 @@
+import {
+  getZonedDaysAgo,
+  getZonedMonthKey,
+  getZonedMonthsAgo,
+  isValidTimeZone,
+  startOfZonedDay
+} from '../../utils/timezone';
+
+describe('Reporting timezone helpers', () => {
+  it('buckets an instant into the month of the timezone', () => {
+    const instant = new Date('2025-03-31T22:30:00.000Z');
+
+    expect(getZonedMonthKey(instant, 'UTC')).toBe('2025-03-01');
+    expect(getZonedMonthKey(instant, 'Europe/Berlin')).toBe('2025-04-01');
+    expect(getZonedMonthKey(instant, 'America/New_York')).toBe('2025-03-01');
+  });
+
+  it('finds midnight in the timezone across DST changes', () => {
+    // Berlin switches to summer time on 2025-03-30
+    expect(startOfZonedDay({ year: 2025, month: 3, day: 29 }, 'Europe/Berlin').toISOString())
+      .toBe('2025-03-28T23:00:00.000Z');
+    expect(startOfZonedDay({ year: 2025, month: 3, day: 31 }, 'Europe/Berlin').toISOString())
+      .toBe('2025-03-30T22:00:00.000Z');
+  });
+
+  it('computes day and month cutoffs on calendar boundaries', () => {
+    const now = new Date('2025-06-25T12:00:00.000Z');
+
+    expect(getZonedDaysAgo(now, 7, 'UTC').toISOString()).toBe('2025-06-18T00:00:00.000Z');
+    expect(getZonedMonthsAgo(now, 6, 'Asia/Tokyo').toISOString()).toBe('2024-12-24T15:00:00.000Z');
+  });
+
+  it('validates IANA timezone names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Not/AZone')).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { WorkflowDefinitionProps, WorkflowProps } from 'contentful-management';
+import { mockContentType, mockEntry, mockLocale } from '../mocks';
+import { createInMemoryDataSource } from '../../utils/in-memory-data-source';
+import { createDashboardFilter } from '../../utils/dashboard-filter';
+import { fetchStageReport, summarizeStages } from '../../utils/workflow-stages';
+
+describe('Workflow stages', () => {
+  const now = new Date('2025-06-25T00:00:00.000Z');
+  const filter = createDashboardFilter();
+  const definition = {
+    sys: { id: 'editorial', type: 'WorkflowDefinition' },
+    name: 'Editorial',
+    steps: [
+      { id: 'step-draft', name: 'Drafting' },
+      { id: 'step-review', name: 'In review' }
+    ]
+  } as unknown as WorkflowDefinitionProps;
+  const mockWorkflow = (id: string, entryId: string, stepId: string, updatedAt: string, completedAt?: string) => ({
+    sys: {
+      id,
+      type: 'Workflow',
+      updatedAt,
+      completedAt,
+      entity: { sys: { type: 'Link', linkType: 'Entry', id: entryId } }
+    },
+    stepId
+  }) as unknown as WorkflowProps;
+  const status = (value: string) => ({ status: { 'en-US': value } });
+
+  it('orders stages by the known order and summarizes days in stage', () => {
+    const stages = summarizeStages(
+      {
+        a: { name: 'Legal', since: '2025-06-20T00:00:00.000Z', source: 'field' },
+        b: { name: 'In review', since: '2025-06-15T00:00:00.000Z', source: 'workflow' },
+        c: { name: 'In review', since: '2025-06-23T00:00:00.000Z', source: 'workflow' },
+        d: { name: 'Drafting', since: '2025-06-24T00:00:00.000Z', source: 'workflow' }
+      },
+      ['Drafting', 'In review'],
+      now
+    );
+
+    expect(stages.map(stage => [stage.name, stage.stats.count])).toEqual([
+      ['Drafting', 1],
+      ['In review', 2],
+      ['Legal', 1]
+    ]);
+    expect(stages[1].stats.mean).toBe(6);
+  });
+
+  it('prefers running workflows over status fields and falls back to the field', async () => {
+    const entries = [
+      mockEntry({ id: 'in-workflow', contentType: 'article', updatedAt: '2025-06-24T00:00:00.000Z', fields: status('Approved') }),
+      mockEntry({ id: 'field-only', contentType: 'article', updatedAt: '2025-06-21T00:00:00.000Z', fields: status('Approved') }),
+      mockEntry({ id: 'workflow-done', contentType: 'page', updatedAt: '2025-06-21T00:00:00.000Z' }),
+      mockEntry({ id: 'no-stage', contentType: 'article' })
+    ];
+    const dataSource = createInMemoryDataSource({
+      entries,
+      contentTypes: [
+        mockContentType('article', 'Article', [
+          { id: 'status', name: 'Status', type: 'Symbol', validations: [{ in: ['Approved', 'Legal'] }] }
+        ]),
+        mockContentType('page', 'Page')
+      ],
+      locales: [mockLocale('en-US', 'English', true)],
+      workflowDefinitions: [definition],
+      workflows: [
+        mockWorkflow('wf-1', 'in-workflow', 'step-review', '2025-06-22T00:00:00.000Z'),
+        mockWorkflow('wf-2', 'workflow-done', 'step-draft', '2025-06-20T00:00:00.000Z', '2025-06-21T00:00:00.000Z')
+      ]
+    });
+
+    const report = await fetchStageReport(dataSource, entries, { filter, stageFields: { article: 'status' }, now });
+
+    expect(report.usesWorkflows).toBe(true);
+    expect(report.entryStages).toEqual({
+      'in-workflow': { name: 'In review', since: '2025-06-22T00:00:00.000Z', source: 'workflow' },
+      'field-only': { name: 'Approved', since: '2025-06-21T00:00:00.000Z', source: 'field' }
+    });
+    expect(report.stages.map(stage => stage.name)).toEqual(['In review', 'Approved']);
+  });
+});
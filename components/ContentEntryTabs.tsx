@@ -1,8 +1,13 @@
 import React, { useEffect, useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ContentTable } from "@/components/content-table"
+import { EntryTaskActions, EntryTaskBar, useOpenTaskCounts } from "@/components/entry-tasks"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { EntryProps } from 'contentful-management';
 import { ChevronDown, ChevronUp } from "lucide-react";
+import { describeNeedsUpdateThreshold, getNeedsUpdateDate, getNeedsUpdateRule, NeedsUpdateRules } from '../utils/needs-update';
+import { EntryStage } from '../utils/workflow-stages';
+import { ATTRIBUTION_MODE_LABELS, Attribution, DEFAULT_ATTRIBUTION, getEntryAuthor } from '../utils/attribution';
 
 interface ContentEntryTabsProps {
   scheduledContent: any[];
@@ -12,21 +17,34 @@ interface ContentEntryTabsProps {
   onResolveUser: (userId: string) => Promise<string>;
   onOpenEntry?: (entryId: string) => void;
   needsUpdateMonths?: number;
+  needsUpdateRules?: NeedsUpdateRules;
   recentlyPublishedDays?: number;
+  // Review actions on the Needs Update tab; the tab has no row actions without them
+  onMarkReviewed?: (entryId: string) => void;
+  onShowReviewHistory?: (entryId: string) => void;
+  // Lets editors assign Needs Update entries through Contentful tasks
+  taskActions?: EntryTaskActions;
+  // Workflow stage by entry ID; shown as the Status of staged entries, with a stage filter, when given
+  entryStages?: Record<string, EntryStage>;
+  // Who the Creator column credits each entry to; defaults to sys.createdBy
+  attribution?: Attribution;
 }
 
+// Stage filter values that are not stage names
+const ALL_STAGES = '__all__';
+const NO_STAGE = '__none__';
+
 interface TransformedEntry {
   id: string;
   title: string;
   author: string; // Keep as 'author' for internal consistency with existing code
   status: string;
-  workflow: string;
-  stage: string;
   date: string;
   isShowMoreRow?: boolean;
   contentType: string;
   needsUpdate?: boolean;
   age?: number; // Age in days
+  workflowStage?: string;
 }
 
 const getEntryTitle = (entry: EntryProps): string => {
@@ -75,6 +93,44 @@ const getEntryTitle = (entry: EntryProps): string => {
   return `Untitled (${entry.sys.contentType?.sys.id || 'Unknown Type'})`;
 };
 
+export interface ContentItemOptions {
+  // Who the author column credits the entry to; defaults to sys.createdBy
+  attribution?: Attribution;
+  // Workflow stage by entry ID, shown in the Status column
+  entryStages?: Record<string, EntryStage>;
+}
+
+// Table row for an entry, resolving the author's name if it is not cached yet
+export const toContentItem = async (
+  entry: EntryProps,
+  userCache: Record<string, string>,
+  onResolveUser: (userId: string) => Promise<string>,
+  { attribution = DEFAULT_ATTRIBUTION, entryStages }: ContentItemOptions = {}
+): Promise<TransformedEntry> => {
+  const author = getEntryAuthor(entry, attribution);
+  const userId = author?.id || 'Unknown';
+  let authorName = author?.type === 'owner' ? author.name : userCache[userId];
+  
+  if (!authorName && userId !== 'Unknown') {
+    authorName = await onResolveUser(userId);
+  }
+  
+  const title = getEntryTitle(entry);
+  const publishDate = entry.sys.publishedAt || entry.sys.createdAt;
+  const age = publishDate ? Math.floor((new Date().getTime() - new Date(publishDate).getTime()) / (1000 * 60 * 60 * 24)) : 0;
+  
+  return {
+    id: entry.sys.id,
+    title,
+    author: authorName || userId,
+    status: entry.sys.publishedAt ? 'Published' : 'Draft',
+    date: publishDate,
+    contentType: entry.sys.contentType?.sys.id || 'Unknown',
+    age,
+    workflowStage: entryStages?.[entry.sys.id]?.name
+  };
+};
+
 export const ContentEntryTabs: React.FC<ContentEntryTabsProps> = ({
   scheduledContent,
   recentlyPublishedContent,
@@ -83,7 +139,13 @@ export const ContentEntryTabs: React.FC<ContentEntryTabsProps> = ({
   onResolveUser,
   onOpenEntry,
   needsUpdateMonths = 6,
+  needsUpdateRules,
   recentlyPublishedDays = 7,
+  onMarkReviewed,
+  onShowReviewHistory,
+  taskActions,
+  entryStages,
+  attribution = DEFAULT_ATTRIBUTION,
 }) => {
   const [transformedData, setTransformedData] = useState<{
     scheduled: TransformedEntry[];
@@ -95,6 +157,15 @@ export const ContentEntryTabs: React.FC<ContentEntryTabsProps> = ({
     update: [],
   });
 
+  // Stage name, NO_STAGE, or ALL_STAGES
+  const [stageFilter, setStageFilter] = useState<string>(ALL_STAGES);
+  const stageNames = Array.from(new Set(Object.values(entryStages || {}).map(stage => stage.name))).sort();
+  const [selectedUpdateIds, setSelectedUpdateIds] = useState<string[]>([]);
+  const { openTaskCounts, reload: reloadOpenTasks } = useOpenTaskCounts(
+    needsUpdateContent.map((entry: EntryProps) => entry.sys.id),
+    taskActions
+  );
+
   const [showMore, setShowMore] = useState<{
     scheduled: boolean;
     published: boolean;
@@ -106,44 +177,25 @@ export const ContentEntryTabs: React.FC<ContentEntryTabsProps> = ({
   });
 
   useEffect(() => {
-    const transformEntries = async (entries: EntryProps[]) => {
-      const transformed = await Promise.all(entries.map(async (entry) => {
-        const userId = entry.sys.createdBy?.sys.id || 'Unknown';
-        let authorName = userCache[userId];
-        
-        if (!authorName && userId !== 'Unknown') {
-          authorName = await onResolveUser(userId);
-        }
-        
-        const title = getEntryTitle(entry);
-        const publishDate = entry.sys.publishedAt || entry.sys.createdAt;
-        const age = publishDate ? Math.floor((new Date().getTime() - new Date(publishDate).getTime()) / (1000 * 60 * 60 * 24)) : 0;
-        
-        return {
-          id: entry.sys.id,
-          title,
-          author: authorName || userId,
-          status: entry.sys.publishedAt ? 'Published' : 'Draft',
-          workflow: entry.sys.contentType?.sys.id || 'Unknown',
-          stage: entry.sys.publishedVersion ? 'Published' : 'Draft',
-          date: publishDate,
-          contentType: entry.sys.contentType?.sys.id || 'Unknown',
-          age
-        };
-      }));
-      return transformed;
-    };
+    const transformEntries = async (entries: EntryProps[]) =>
+      Promise.all(entries.map(entry => toContentItem(entry, userCache, onResolveUser, { attribution, entryStages })));
 
     const updateTransformedData = async () => {
       const scheduled = await transformEntries(scheduledContent);
       const published = await transformEntries(recentlyPublishedContent);
       
-      // Mark entries that need updates with the needsUpdate flag
+      // Mark entries that need updates with the needsUpdate flag; their age counts from the date the rule reads
       const update = await transformEntries(needsUpdateContent);
-      const updateWithFlag = update.map(entry => ({
-        ...entry,
-        needsUpdate: true
-      }));
+      const updateWithFlag = update.map((entry, index) => {
+        const source: EntryProps = needsUpdateContent[index];
+        const date = getNeedsUpdateDate(source, getNeedsUpdateRule(source.sys.contentType?.sys.id, { needsUpdateMonths, needsUpdateRules }));
+        return {
+          ...entry,
+          date,
+          age: Math.floor((new Date().getTime() - new Date(date).getTime()) / (1000 * 60 * 60 * 24)),
+          needsUpdate: true
+        };
+      });
 
       setTransformedData({
         scheduled,
@@ -153,14 +205,17 @@ export const ContentEntryTabs: React.FC<ContentEntryTabsProps> = ({
     };
 
     updateTransformedData();
-  }, [scheduledContent, recentlyPublishedContent, needsUpdateContent, onResolveUser]);
+  }, [scheduledContent, recentlyPublishedContent, needsUpdateContent, onResolveUser, needsUpdateMonths, needsUpdateRules, attribution, entryStages]);
 
   const getDisplayData = (data: TransformedEntry[], type: 'scheduled' | 'published' | 'update') => {
     // Pre-sort the data depending on the type
-    let sortedData = [...data];
+    let sortedData = data.filter(entry =>
+      stageFilter === ALL_STAGES ||
+      (stageFilter === NO_STAGE ? !entry.workflowStage : entry.workflowStage === stageFilter)
+    );
     
     if (type === 'update') {
-      // Needs Update: Sort by oldest published date first (ascending)
+      // Needs Update: Sort by the oldest date the needs update rule reads first (ascending)
       sortedData.sort((a, b) => new Date(a.date || '').getTime() - new Date(b.date || '').getTime());
     } else {
       // Other tabs: Sort by newest first (descending)
@@ -189,8 +244,6 @@ export const ContentEntryTabs: React.FC<ContentEntryTabsProps> = ({
         title: showMoreContent,
         author: '',
         status: '',
-        workflow: '',
-        stage: '',
         date: '',
         isShowMoreRow: true
       } as any);
@@ -201,11 +254,27 @@ export const ContentEntryTabs: React.FC<ContentEntryTabsProps> = ({
 
   return (
     <Tabs defaultValue="scheduled">
-      <TabsList>
-        <TabsTrigger value="scheduled">Scheduled Content</TabsTrigger>
-        <TabsTrigger value="published">Recently Published</TabsTrigger>
-        <TabsTrigger value="update">Needs Update</TabsTrigger>
-      </TabsList>
+      <div className="flex items-center justify-between gap-2">
+        <TabsList>
+          <TabsTrigger value="scheduled">Scheduled Content</TabsTrigger>
+          <TabsTrigger value="published">Recently Published</TabsTrigger>
+          <TabsTrigger value="update">Needs Update</TabsTrigger>
+        </TabsList>
+        {entryStages && (
+          <Select value={stageFilter} onValueChange={setStageFilter}>
+            <SelectTrigger className="w-[180px]" aria-label="Filter by stage">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STAGES}>All stages</SelectItem>
+              {stageNames.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+              <SelectItem value={NO_STAGE}>No stage</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
       <TabsContent value="scheduled" className="space-y-4">
         <ContentTable
           title="Upcoming Scheduled Content"
@@ -213,6 +282,7 @@ export const ContentEntryTabs: React.FC<ContentEntryTabsProps> = ({
           showStage={true}
           onEntryClick={onOpenEntry}
           hideActions={true}
+          authorLabel={ATTRIBUTION_MODE_LABELS[attribution.mode]}
         />
       </TabsContent>
       <TabsContent value="published" className="space-y-4">
@@ -220,20 +290,38 @@ export const ContentEntryTabs: React.FC<ContentEntryTabsProps> = ({
           title="Recently Published Content"
           description={`Content published in the last ${recentlyPublishedDays} ${recentlyPublishedDays === 1 ? 'day' : 'days'}`}
           data={getDisplayData(transformedData.published, 'published')}
-          showStage={false}
+          showStage={Boolean(entryStages)}
           onEntryClick={onOpenEntry}
           hideActions={true}
+          authorLabel={ATTRIBUTION_MODE_LABELS[attribution.mode]}
         />
       </TabsContent>
       <TabsContent value="update" className="space-y-4">
+        {taskActions && (
+          <EntryTaskBar
+            selectedIds={selectedUpdateIds}
+            onSelectionChange={setSelectedUpdateIds}
+            entryTitles={Object.fromEntries(transformedData.update.map(entry => [entry.id, entry.title]))}
+            taskActions={taskActions}
+            onTasksCreated={reloadOpenTasks}
+          />
+        )}
         <ContentTable
           title={`Content Needing Updates`}
-          description={`Content that hasn't been updated in more than ${needsUpdateMonths} ${needsUpdateMonths === 1 ? 'month' : 'months'}`}
+          description={describeNeedsUpdateThreshold(needsUpdateMonths, needsUpdateRules)}
           data={getDisplayData(transformedData.update, 'update')}
-          showStage={false}
+          showStage={Boolean(entryStages)}
           onEntryClick={onOpenEntry}
-          hideActions={true}
+          hideActions={!onMarkReviewed}
+          entryActions={[
+            ...(onMarkReviewed ? [{ label: 'Mark reviewed', onClick: onMarkReviewed }] : []),
+            ...(onShowReviewHistory ? [{ label: 'Review history', onClick: onShowReviewHistory }] : []),
+          ]}
+          selectedIds={selectedUpdateIds}
+          onSelectionChange={taskActions ? setSelectedUpdateIds : undefined}
+          openTaskCounts={openTaskCounts}
           showAge={true}
+          authorLabel={ATTRIBUTION_MODE_LABELS[attribution.mode]}
         />
       </TabsContent>
     </Tabs>
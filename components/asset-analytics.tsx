@@ -0,0 +1,260 @@
+import { useState } from "react"
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { ChevronDown, FileImage, FileX, ImageOff, UploadCloud } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import ContentTypeChart from "./content-type-chart"
+import { GRANULARITY_TIME_RANGES, TimeRange } from "../utils/aggregation"
+import { AssetMetrics, AssetSummary } from "../utils/asset-analytics"
+
+const TIME_RANGE_LABELS: Partial<Record<TimeRange, string>> = {
+  lastQuarter: 'Last Quarter',
+  '6months': 'Last 6 Months',
+  yearToDate: 'Year to Date',
+  year: 'Past Year',
+  all: 'All Time',
+}
+
+// Rows shown per asset list before "Show More"
+const LIST_PAGE_SIZE = 25
+
+interface AssetAnalyticsProps {
+  metrics: AssetMetrics | null
+  isLoading: boolean
+  error?: string | null
+  timeZone?: string
+  onOpenAsset: (assetId: string) => void
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${Math.round(bytes / 1024)} KB`
+}
+
+const AssetList = ({
+  assets,
+  emptyMessage,
+  showMissingLocales = false,
+  onOpenAsset,
+}: {
+  assets: AssetSummary[]
+  emptyMessage: string
+  showMissingLocales?: boolean
+  onOpenAsset: (assetId: string) => void
+}) => {
+  const [visibleCount, setVisibleCount] = useState(LIST_PAGE_SIZE)
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Title</TableHead>
+          <TableHead>File Type</TableHead>
+          <TableHead className="text-right">Size</TableHead>
+          {showMissingLocales && <TableHead>Missing In</TableHead>}
+          <TableHead>Status</TableHead>
+          <TableHead>Uploaded</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {assets.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={showMissingLocales ? 6 : 5} className="h-24 text-center">
+              {emptyMessage}
+            </TableCell>
+          </TableRow>
+        ) : (
+          assets.slice(0, visibleCount).map(asset => (
+            <TableRow key={asset.id} className="cursor-pointer hover:bg-gray-50" onClick={() => onOpenAsset(asset.id)}>
+              <TableCell className="font-medium">{asset.title}</TableCell>
+              <TableCell>{asset.fileType}</TableCell>
+              <TableCell className="text-right">{asset.size === null ? '-' : formatBytes(asset.size)}</TableCell>
+              {showMissingLocales && <TableCell>{asset.missingTextLocales.join(', ')}</TableCell>}
+              <TableCell>{asset.isPublished ? 'Published' : 'Draft'}</TableCell>
+              <TableCell>{new Date(asset.createdAt).toLocaleDateString()}</TableCell>
+            </TableRow>
+          ))
+        )}
+        {assets.length > visibleCount && (
+          <TableRow>
+            <TableCell colSpan={showMissingLocales ? 6 : 5}>
+              <div
+                className="flex items-center justify-center w-full gap-2 text-muted-foreground hover:text-foreground cursor-pointer py-2"
+                onClick={() => setVisibleCount(visibleCount + LIST_PAGE_SIZE)}
+              >
+                Show More <ChevronDown className="h-4 w-4" />
+              </div>
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  )
+}
+
+// Uploads, file mix, missing alt text and unused assets of the environment
+export default function AssetAnalytics({ metrics, isLoading, error, timeZone, onOpenAsset }: AssetAnalyticsProps) {
+  const [timeRange, setTimeRange] = useState<TimeRange>('year')
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>
+  }
+  if (!metrics) {
+    return <p className="text-sm text-muted-foreground">{isLoading ? 'Loading asset analytics...' : 'No asset data yet.'}</p>
+  }
+
+  const kpis = [
+    { title: 'Total Assets', value: metrics.total, detail: `${metrics.publishedCount} published`, icon: FileImage },
+    {
+      title: 'Uploaded',
+      value: metrics.trend.data.slice(-1)[0]?.Uploaded ?? 0,
+      detail: 'This month',
+      icon: UploadCloud
+    },
+    { title: 'Missing Alt Text', value: metrics.missingTextAssets.length, detail: 'Title or description missing', icon: ImageOff },
+    { title: 'Unreferenced', value: metrics.unreferenced.length, detail: 'Not linked from any entry', icon: FileX },
+  ]
+
+  return (
+    <div className={isLoading ? "flex flex-col gap-4 opacity-50" : "flex flex-col gap-4"}>
+      <div className="grid gap-2 sm:gap-3 grid-cols-2 lg:grid-cols-4 w-full">
+        {kpis.map(({ title, value, detail, icon: Icon }) => (
+          <Card key={title} className="w-full relative">
+            <div className="absolute right-3 top-1/2 -translate-y-1/2">
+              <Icon className="h-8 w-8 text-primary" />
+            </div>
+            <CardHeader className="pb-1 pt-2 px-3 pr-14">
+              <CardTitle className="text-sm font-semibold">{title}</CardTitle>
+            </CardHeader>
+            <CardContent className="pb-3 pt-0 px-3 pr-14">
+              <div className="text-3xl font-bold">{value}</div>
+              <p className="text-sm text-muted-foreground mt-1">{detail}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="w-full rounded-xl bg-white p-6 shadow-sm">
+        <div className="mb-6 flex justify-between items-center">
+          <h3 className="text-base font-semibold">Uploads and Publications</h3>
+          <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Select time range" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Time Range</SelectLabel>
+                {GRANULARITY_TIME_RANGES.month.filter(value => value !== 'custom').map(value => (
+                  <SelectItem key={value} value={value}>{TIME_RANGE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </div>
+        <ContentTypeChart
+          data={metrics.trend.data}
+          contentTypes={metrics.trend.series}
+          selectedTimeRange={timeRange}
+          granularity="month"
+          timeZone={timeZone}
+          title="Assets"
+        />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className="w-full rounded-xl bg-white p-6 shadow-sm">
+          <h3 className="mb-4 text-base font-semibold">File Types</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Assets</TableHead>
+                <TableHead className="text-right">Total Size</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {metrics.byFileType.map(({ label, count, bytes }) => (
+                <TableRow key={label}>
+                  <TableCell>{label}</TableCell>
+                  <TableCell className="text-right">{count}</TableCell>
+                  <TableCell className="text-right">{formatBytes(bytes)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <div className="w-full rounded-xl bg-white p-6 shadow-sm">
+          <h3 className="mb-4 text-base font-semibold">File Sizes</h3>
+          <div className="h-[220px]" role="img" aria-label="Histogram of asset file sizes">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={metrics.bySize} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} allowDecimals={false} />
+                <Tooltip formatter={(value: number) => [`${value} assets`, 'Files']} />
+                <Bar dataKey="count" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="w-full rounded-xl bg-white p-6 shadow-sm">
+        <h3 className="mb-4 text-base font-semibold">Missing Title or Description by Locale</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Locale</TableHead>
+              <TableHead className="text-right">Missing Title</TableHead>
+              <TableHead className="text-right">Missing Description</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {metrics.missingText.map(({ locale, name, missingTitle, missingDescription }) => (
+              <TableRow key={locale}>
+                <TableCell>{name} ({locale})</TableCell>
+                <TableCell className="text-right">{missingTitle}</TableCell>
+                <TableCell className="text-right">{missingDescription}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="w-full rounded-xl bg-white p-6 shadow-sm">
+        <Tabs defaultValue="missing-text" className="w-full">
+          <TabsList className="bg-muted h-10">
+            <TabsTrigger value="missing-text">Missing Alt Text ({metrics.missingTextAssets.length})</TabsTrigger>
+            <TabsTrigger value="unreferenced">Unreferenced ({metrics.unreferenced.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="missing-text" className="mt-4">
+            <AssetList
+              assets={metrics.missingTextAssets}
+              emptyMessage="Every asset has a title and description in every locale."
+              showMissingLocales={true}
+              onOpenAsset={onOpenAsset}
+            />
+          </TabsContent>
+          <TabsContent value="unreferenced" className="mt-4">
+            <AssetList
+              assets={metrics.unreferenced}
+              emptyMessage="Every asset is linked from at least one entry."
+              onOpenAsset={onOpenAsset}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState } from "react"
+import { ChevronDown, ExternalLink } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { BrokenReference, BrokenReferenceState } from "../utils/broken-references"
+
+// Rows shown before "Show More"
+const PAGE_SIZE = 25
+
+const STATE_LABELS: Record<BrokenReferenceState, string> = {
+  unpublished: 'Unpublished',
+  archived: 'Archived',
+  deleted: 'Deleted',
+}
+
+interface BrokenReferencesReportProps {
+  brokenReferences: BrokenReference[] | null
+  isLoading: boolean
+  error?: string | null
+  onOpenEntry: (entryId: string) => void
+}
+
+// Published entries whose entry links will not resolve for visitors
+export default function BrokenReferencesReport({ brokenReferences, isLoading, error, onOpenEntry }: BrokenReferencesReportProps) {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE)
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>
+  }
+  if (!brokenReferences) {
+    return <p className="text-sm text-muted-foreground">{isLoading ? 'Checking references...' : 'No reference data yet.'}</p>
+  }
+
+  return (
+    <div className={isLoading ? "w-full rounded-xl bg-white p-6 shadow-sm opacity-50" : "w-full rounded-xl bg-white p-6 shadow-sm"}>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Entry</TableHead>
+            <TableHead>Content Type</TableHead>
+            <TableHead>Field</TableHead>
+            <TableHead>Locale</TableHead>
+            <TableHead>Linked Entry</TableHead>
+            <TableHead>State</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {brokenReferences.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="h-24 text-center">
+                Every link from published content resolves to a published entry.
+              </TableCell>
+            </TableRow>
+          ) : (
+            brokenReferences.slice(0, visibleCount).map(reference => (
+              <TableRow key={`${reference.sourceId}-${reference.fieldName}-${reference.locale}-${reference.targetId}`}>
+                <TableCell>
+                  <button
+                    className="flex items-center gap-1 font-medium text-left hover:underline"
+                    onClick={() => onOpenEntry(reference.sourceId)}
+                    title="Open the entry to fix the link"
+                  >
+                    {reference.sourceTitle} <ExternalLink className="h-3 w-3 shrink-0" />
+                  </button>
+                </TableCell>
+                <TableCell>{reference.contentTypeName}</TableCell>
+                <TableCell>{reference.fieldName}</TableCell>
+                <TableCell>{reference.locale}</TableCell>
+                <TableCell>
+                  {reference.targetState === 'deleted' ? (
+                    <span className="text-muted-foreground">{reference.targetId}</span>
+                  ) : (
+                    <button
+                      className="flex items-center gap-1 text-left hover:underline"
+                      onClick={() => onOpenEntry(reference.targetId)}
+                      title="Open the linked entry to publish or restore it"
+                    >
+                      {reference.targetTitle} <ExternalLink className="h-3 w-3 shrink-0" />
+                    </button>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={reference.targetState === 'deleted' ? 'destructive' : 'secondary'}>
+                    {STATE_LABELS[reference.targetState]}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+          {brokenReferences.length > visibleCount && (
+            <TableRow>
+              <TableCell colSpan={6}>
+                <div
+                  className="flex items-center justify-center w-full gap-2 text-muted-foreground hover:text-foreground cursor-pointer py-2"
+                  onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                >
+                  Show More <ChevronDown className="h-4 w-4" />
+                </div>
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
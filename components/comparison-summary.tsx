@@ -0,0 +1,29 @@
+import { ComparisonMode, ComparisonSummary } from "../utils/aggregation"
+import { formatPercentageChange } from "../utils/calculations"
+
+export const COMPARISON_LABELS: Record<Exclude<ComparisonMode, 'none'>, string> = {
+  previousPeriod: 'Previous period',
+  previousYear: 'Same period last year',
+}
+
+interface ComparisonSummaryBarProps {
+  summary: ComparisonSummary
+  comparison: Exclude<ComparisonMode, 'none'>
+}
+
+// Total change over the selected range, shown above a trend chart
+export default function ComparisonSummaryBar({ summary, comparison }: ComparisonSummaryBarProps) {
+  const difference = summary.current - summary.previous
+
+  return (
+    <div className="mb-4 flex items-baseline gap-3 text-sm">
+      <span className="text-2xl font-semibold">{summary.current}</span>
+      <span className="text-muted-foreground">
+        entries vs {summary.previous} ({COMPARISON_LABELS[comparison].toLowerCase()})
+      </span>
+      <span className={difference >= 0 ? "text-green-500" : "text-red-500"}>
+        {`${difference >= 0 ? '+' : ''}${difference} (${formatPercentageChange(summary.percentChange)})`}
+      </span>
+    </div>
+  )
+}
@@ -35,14 +35,14 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ArchiveIcon, RotateCcw } from "lucide-react";
+import { requestScheduler } from "../utils/request-scheduler";
 
 interface ContentItem {
   id: string
   title: string | React.ReactNode
   author: string // Keep as 'author' for internal consistency with existing code
   status: string
-  workflow: string
-  stage: string
+  contentType: string
   date: string
   isShowMoreRow?: boolean
   fieldStatus?: {
@@ -52,12 +52,15 @@ interface ContentItem {
   } | null
   needsUpdate?: boolean
   age?: number
+  daysToPublish?: number
+  // Workflow step or status field value, when the entry has one
+  workflowStage?: string
 }
 
 interface EntryStatus {
-  type: 'draft' | 'published' | 'changed'
+  type: 'draft' | 'published' | 'changed' | 'stage'
   label: string
-  variant: 'warning' | 'positive' | 'primary'
+  variant: 'warning' | 'positive' | 'primary' | 'secondary'
 }
 
 interface ScheduledReleaseStatus {
@@ -90,6 +93,21 @@ interface ContentTableProps {
   onEntryClick?: (entryId: string) => void
   hideActions?: boolean
   showAge?: boolean
+  showDaysToPublish?: boolean
+  // Header of the column naming who an entry is credited to
+  authorLabel?: string
+  // Extra row actions listed after "Edit" for entry rows
+  entryActions?: EntryAction[]
+  // Entry rows get checkboxes when onSelectionChange is given
+  selectedIds?: string[]
+  onSelectionChange?: (entryIds: string[]) => void
+  // Entry ID -> number of open tasks, shown next to the title
+  openTaskCounts?: Record<string, number>
+}
+
+export interface EntryAction {
+  label: string
+  onClick: (entryId: string) => void
 }
 
 const formatDateTime = (dateTimeStr: string) => {
@@ -117,8 +135,7 @@ const mapCMAEntryToContentItem = (entry: any): ContentItem => {
     title: entry.fields?.internalName?.['en-US'] || entry.fields?.title?.['en-US'] || 'Untitled',
     author: entry.sys.createdBy?.sys?.id || 'Unknown',
     status: entry.sys.publishedVersion ? 'Published' : 'Draft',
-    workflow: entry.sys.contentType?.sys?.id || '',
-    stage: entry.sys.publishedVersion ? 'Published' : 'Draft',
+    contentType: entry.sys.contentType?.sys?.id || '',
     date: entry.sys.publishedAt || entry.sys.updatedAt,
     fieldStatus: entry.sys.fieldStatus || null,
     needsUpdate: false,
@@ -126,8 +143,16 @@ const mapCMAEntryToContentItem = (entry: any): ContentItem => {
   };
 };
 
-// Helper function to determine entry status
+// Helper function to determine entry status; the workflow stage wins over the publishing state
 const determineEntryStatus = (item: ContentItem): EntryStatus => {
+  if (item.workflowStage) {
+    return {
+      type: 'stage',
+      label: item.workflowStage,
+      variant: 'secondary'
+    };
+  }
+
   if (item.fieldStatus && typeof item.fieldStatus === 'object') {
     const hasChangedStatus = Object.entries(item.fieldStatus).some(([key, value]) => {
       if (typeof value === 'object') {
@@ -145,7 +170,7 @@ const determineEntryStatus = (item: ContentItem): EntryStatus => {
     }
   }
 
-  if (item.stage === 'Published' || item.status === 'Published') {
+  if (item.status === 'Published') {
     return {
       type: 'published',
       label: 'Published',
@@ -153,7 +178,7 @@ const determineEntryStatus = (item: ContentItem): EntryStatus => {
     };
   }
 
-  if (item.status === 'Draft' || item.stage === 'Draft') {
+  if (item.status === 'Draft') {
     return {
       type: 'draft',
       label: 'Draft',
@@ -161,10 +186,9 @@ const determineEntryStatus = (item: ContentItem): EntryStatus => {
     };
   }
 
-  const displayStatus = item.stage || item.status;
   return {
     type: 'published',
-    label: displayStatus,
+    label: item.status,
     variant: 'positive'
   };
 };
@@ -211,7 +235,13 @@ export function ContentTable({
   onCancel,
   onEntryClick,
   hideActions = false,
-  showAge = false
+  showAge = false,
+  showDaysToPublish = false,
+  authorLabel = 'Creator',
+  entryActions = [],
+  selectedIds = [],
+  onSelectionChange,
+  openTaskCounts = {}
 }: ContentTableProps) {
   const sdk = useSDK<HomeAppSDK>();
   const cma = useCMA();
@@ -234,10 +264,10 @@ export function ContentTable({
   // Function to fetch content types and cache their names
   const fetchContentTypeNames = useCallback(async () => {
     try {
-      const contentTypesResponse = await cma.contentType.getMany({
+      const contentTypesResponse = await requestScheduler.schedule(() => cma.contentType.getMany({
         spaceId: sdk.ids.space,
         environmentId: sdk.ids.environment
-      });
+      }));
 
       const contentTypeMap: { [key: string]: string } = {};
       contentTypesResponse.items.forEach((contentType: any) => {
@@ -284,11 +314,11 @@ export function ContentTable({
               }
               
               try {
-                const entry = await cma.entry.get({
+                const entry = await requestScheduler.schedule(() => cma.entry.get({
                   entryId: contentItem.id,
                   spaceId: sdk.ids.space,
                   environmentId: sdk.ids.environment
-                });
+                }));
                 
                 return {
                   ...contentItem,
@@ -322,6 +352,27 @@ export function ContentTable({
       })
     : enrichedData;
 
+  const isSelectable = Boolean(onSelectionChange) && !isScheduledReleaseData;
+  // Columns the header renders, so the empty and "show more" rows span the whole table
+  const columnCount = Number(isSelectable) + 1 + (isScheduledReleaseData
+    ? 2 + Number(showItemCount) + Number(showUpdatedAt) + Number(showUpdatedBy)
+    : 4 + Number(showStage) + Number(showAge) + Number(showDaysToPublish)) + Number(!hideActions);
+  const selectableIds = sortedData.filter(item => !item.isShowMoreRow).map(item => item.id);
+  const areAllRowsSelected = selectableIds.length > 0 && selectableIds.every(id => selectedIds.includes(id));
+
+  const toggleRow = (entryId: string, checked: boolean) => {
+    onSelectionChange?.(checked ? [...selectedIds, entryId] : selectedIds.filter(id => id !== entryId));
+  };
+
+  // Select-all covers the rows shown; selections outside them are kept
+  const toggleAllRows = (checked: boolean) => {
+    onSelectionChange?.(
+      checked
+        ? Array.from(new Set([...selectedIds, ...selectableIds]))
+        : selectedIds.filter(id => !selectableIds.includes(id))
+    );
+  };
+
   const handleViewRelease = (release: ScheduledRelease) => {
     const baseUrl = 'https://launch.contentful.com';
     const url = `${baseUrl}/spaces/${sdk.ids.space}/releases/${release.id}`;
@@ -350,14 +401,14 @@ export function ContentTable({
     setIsLoading(true);
     try {
       // Get the scheduled action for this release, specifically querying for scheduled status
-      const scheduledActions = await cma.scheduledActions.getMany({
+      const scheduledActions = await requestScheduler.schedule(() => cma.scheduledActions.getMany({
         spaceId: sdk.ids.space,
         query: {
           'entity.sys.id': selectedRelease.id,
           'environment.sys.id': sdk.ids.environment,
           'sys.status': 'scheduled'  // Only get actions with scheduled status
         }
-      });
+      }));
 
       console.log('Found scheduled actions:', scheduledActions.items);
 
@@ -365,13 +416,13 @@ export function ContentTable({
       const action = scheduledActions.items[0];
       if (!action) {
         // If no scheduled action found, try to get all actions to check their status
-        const allActions = await cma.scheduledActions.getMany({
+        const allActions = await requestScheduler.schedule(() => cma.scheduledActions.getMany({
           spaceId: sdk.ids.space,
           query: {
             'entity.sys.id': selectedRelease.id,
             'environment.sys.id': sdk.ids.environment
           }
-        });
+        }));
 
         if (allActions.items.length > 0) {
           // There are actions but none are scheduled - the UI is out of sync
@@ -421,7 +472,7 @@ export function ContentTable({
       
       try {
         // Update the scheduled action with new datetime
-        const updatedAction = await cma.scheduledActions.update(
+        const updatedAction = await requestScheduler.schedule(() => cma.scheduledActions.update(
           {
             spaceId: sdk.ids.space,
             version: action.sys.version,
@@ -436,7 +487,7 @@ export function ContentTable({
               timezone: selectedTimezone
             }
           }
-        );
+        ));
 
         console.log('Update response:', updatedAction);
 
@@ -449,11 +500,11 @@ export function ContentTable({
         sdk.notifier.success('Release has been rescheduled successfully');
       } catch (updateError) {
         // If update fails, check if the action status has changed
-        const refreshedAction = await cma.scheduledActions.get({
+        const refreshedAction = await requestScheduler.schedule(() => cma.scheduledActions.get({
           spaceId: sdk.ids.space,
           environmentId: sdk.ids.environment,
           scheduledActionId: action.sys.id
-        });
+        }));
 
         if (refreshedAction.sys.status !== 'scheduled') {
           throw new Error('Release status has changed while updating. Please refresh the page to see the current status.');
@@ -509,22 +560,22 @@ export function ContentTable({
     setIsLoading(true);
     try {
       // Get the scheduled action for this release
-      const scheduledActions = await cma.scheduledActions.getMany({
+      const scheduledActions = await requestScheduler.schedule(() => cma.scheduledActions.getMany({
         spaceId: sdk.ids.space,
         query: {
           'entity.sys.id': selectedRelease.id,
           'environment.sys.id': sdk.ids.environment
         }
-      });
+      }));
 
       const action = scheduledActions.items[0];
       if (!action) throw new Error('No scheduled action found for this release');
 
       // Delete the scheduled action
-      await cma.scheduledActions.delete({
+      await requestScheduler.schedule(() => cma.scheduledActions.delete({
         spaceId: sdk.ids.space,
         scheduledActionId: action.sys.id
-      });
+      }));
 
       if (onCancel) {
         await onCancel(selectedRelease.id);
@@ -555,6 +606,15 @@ export function ContentTable({
         <Table>
           <TableHeader>
             <TableRow>
+              {isSelectable && (
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={areAllRowsSelected}
+                    onCheckedChange={(checked) => toggleAllRows(checked === true)}
+                    aria-label="Select all entries"
+                  />
+                </TableHead>
+              )}
               <TableHead>Title</TableHead>
               {isScheduledReleaseData ? (
                 <>
@@ -566,10 +626,11 @@ export function ContentTable({
                 </>
               ) : (
                 <>
-                  <TableHead>Creator</TableHead>
+                  <TableHead>{authorLabel}</TableHead>
                   {showStage && <TableHead>Status</TableHead>}
                   <TableHead>Content Type</TableHead>
                   {showAge && <TableHead>Age</TableHead>}
+                  {showDaysToPublish && <TableHead>Days to Publish</TableHead>}
                   <TableHead>Published Date</TableHead>
                 </>
               )}
@@ -579,7 +640,7 @@ export function ContentTable({
           <TableBody>
             {sortedData.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="h-24 text-center">
+                <TableCell colSpan={columnCount} className="h-24 text-center">
                   No entries found.
                 </TableCell>
               </TableRow>
@@ -589,7 +650,18 @@ export function ContentTable({
                   key={item.id}
                   className={item.isShowMoreRow ? 'hover:bg-transparent border-0' : undefined}
                 >
-                  <TableCell colSpan={item.isShowMoreRow ? (isScheduledReleaseData ? 6 : 5) : undefined}>
+                  {isSelectable && (
+                    <TableCell>
+                      {!item.isShowMoreRow && (
+                        <Checkbox
+                          checked={selectedIds.includes(item.id)}
+                          onCheckedChange={(checked) => toggleRow(item.id, checked === true)}
+                          aria-label={`Select ${item.title}`}
+                        />
+                      )}
+                    </TableCell>
+                  )}
+                  <TableCell colSpan={item.isShowMoreRow ? columnCount - Number(isSelectable) : undefined}>
                     {item.isShowMoreRow ? (
                       item.title
                     ) : (
@@ -608,6 +680,11 @@ export function ContentTable({
                         {item.title}
                       </Link>
                     )}
+                    {!item.isShowMoreRow && openTaskCounts[item.id] > 0 && (
+                      <Badge variant="warning" className="ml-2">
+                        {openTaskCounts[item.id]} open {openTaskCounts[item.id] === 1 ? 'task' : 'tasks'}
+                      </Badge>
+                    )}
                   </TableCell>
                   {!item.isShowMoreRow && (
                     isScheduledReleaseData ? (
@@ -641,8 +718,9 @@ export function ContentTable({
                             })()}
                           </TableCell>
                         )}
-                        <TableCell>{getContentTypeName((item as ContentItem).workflow)}</TableCell>
+                        <TableCell>{getContentTypeName((item as ContentItem).contentType)}</TableCell>
                         {showAge && <TableCell>{(item as ContentItem).age} days</TableCell>}
+                        {showDaysToPublish && <TableCell>{(item as ContentItem).daysToPublish?.toFixed(1)} days</TableCell>}
                         <TableCell>{formatDate((item as ContentItem).date)}</TableCell>
                       </>
                     )
@@ -675,6 +753,11 @@ export function ContentTable({
                         ) : (
                           <Menu.List>
                             <Menu.Item onClick={() => onEntryClick && onEntryClick(item.id)}>Edit</Menu.Item>
+                            {entryActions.map(action => (
+                              <Menu.Item key={action.label} onClick={() => action.onClick(item.id)}>
+                                {action.label}
+                              </Menu.Item>
+                            ))}
                           </Menu.List>
                         )}
                       </Menu>
@@ -1,4 +1,4 @@
-import { useState } from "react"
+import { Datepicker } from "@contentful/f36-datepicker"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import {
   Select,
@@ -11,27 +11,107 @@ import {
 } from "@/components/ui/select"
 import ContentChart from "./content-chart"
 import ContentTypeChart from "./content-type-chart"
+import { COMPARISON_LABELS } from "./comparison-summary"
+import {
+  canCompareTimeRange,
+  ComparisonMode,
+  DashboardKpis,
+  DateRange,
+  getTimeRangeBounds,
+  Granularity,
+  GRANULARITIES,
+  GRANULARITY_TIME_RANGES,
+  PublishingTrends,
+  TimeRange,
+  TrendBucketSelection,
+  TrendRangeSelection
+} from "../utils/aggregation"
+import { getBrowserTimeZone, getZonedDate, parseDateKey, toDateKey } from "../utils/timezone"
+
+const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+  quarter: 'Quarterly'
+};
+
+const TIME_RANGE_LABELS: Record<TimeRange, string> = {
+  '30days': 'Last 30 Days',
+  '90days': 'Last 90 Days',
+  lastQuarter: 'Last Quarter',
+  '6months': 'Last 6 Months',
+  yearToDate: 'Year to Date',
+  year: 'Past Year',
+  all: 'All Time',
+  custom: 'Custom Range'
+};
 
-type TimeRange = 'all' | 'year' | '6months';
+// The datepicker works with local calendar days; day keys name the same calendar day
+const dateToKey = (date: Date) =>
+  toDateKey({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+
+const keyToDate = (key: string) => {
+  const { year, month, day } = parseDateKey(key);
+  return new Date(year, month - 1, day);
+};
 
 interface ContentTrendsTabsProps {
-  chartData: Array<{ date: string; count: number; percentChange?: number }>;
-  contentTypeData: Array<{ date: string; [key: string]: string | number }>;
-  contentTypes: string[];
-  authorData: Array<{ date: string; [key: string]: string | number }>;
-  authors: string[];
-  defaultTimeRange?: TimeRange;
+  trends: Record<Granularity, PublishingTrends>;
+  range: TrendRangeSelection;
+  onRangeChange: (range: TrendRangeSelection) => void;
+  timeZone?: string;
+  // Called when a chart point is clicked, to list the entries behind it
+  onBucketSelect?: (selection: TrendBucketSelection) => void;
+  // Current totals shown above the lifecycle chart
+  lifecycleStats?: Pick<DashboardKpis, 'archivedCount' | 'unpublishedCount' | 'averageLifespan'>;
+  // Who entries are credited to in the per person trend
+  authorLabel?: string;
 }
 
 export default function ContentTrendsTabs({
-  chartData,
-  contentTypeData,
-  contentTypes,
-  authorData,
-  authors,
-  defaultTimeRange = 'year'
+  trends,
+  range,
+  onRangeChange,
+  timeZone = getBrowserTimeZone(),
+  onBucketSelect,
+  lifecycleStats,
+  authorLabel = 'Creator'
 }: ContentTrendsTabsProps) {
-  const [timeRange, setTimeRange] = useState<TimeRange>(defaultTimeRange);
+  const { timeRange, customRange, granularity = 'month', compareTo = 'none' } = range;
+  const comparison = canCompareTimeRange(timeRange) ? compareTo : 'none';
+  const { overall, byContentType, byCreator, byTag, activity, lifecycle } = trends[granularity];
+
+  // Keep the time range valid for the granularity, e.g. daily points only go back a quarter
+  const handleGranularityChange = (value: Granularity) => {
+    const timeRanges = GRANULARITY_TIME_RANGES[value];
+    onRangeChange({
+      ...range,
+      granularity: value,
+      timeRange: timeRanges.includes(timeRange) ? timeRange : timeRanges[timeRanges.length - 2]
+    });
+  };
+
+  // A new custom range starts out as the range that was selected before
+  const handleTimeRangeChange = (value: TimeRange) => {
+    if (value !== 'custom') {
+      onRangeChange({ ...range, timeRange: value });
+      return;
+    }
+    const todayKey = toDateKey(getZonedDate(new Date(), timeZone));
+    const { start, end } = getTimeRangeBounds(todayKey, timeRange, customRange);
+    onRangeChange({ ...range, timeRange: 'custom', customRange: customRange || { start: start || end, end } });
+  };
+
+  const handleCustomRangeChange = (bound: keyof DateRange, date: Date | undefined) => {
+    if (!date || !customRange) return;
+    const next = { ...customRange, [bound]: dateToKey(date) };
+    // Keep the range ordered when one end is moved past the other
+    if (next.start > next.end) {
+      if (bound === 'start') next.end = next.start;
+      else next.start = next.end;
+    }
+    onRangeChange({ ...range, customRange: next });
+  };
 
   return (
     <div className="w-full rounded-xl bg-white p-6 shadow-sm">
@@ -40,48 +120,169 @@ export default function ContentTrendsTabs({
           <TabsList className="bg-muted h-10">
             <TabsTrigger value="overall">Overall Trends</TabsTrigger>
             <TabsTrigger value="by-type">By Content Type</TabsTrigger>
-            <TabsTrigger value="by-author">By Creator</TabsTrigger>
+            <TabsTrigger value="by-author">By {authorLabel}</TabsTrigger>
+            <TabsTrigger value="by-tag">By Tag</TabsTrigger>
+            <TabsTrigger value="activity">Update Activity</TabsTrigger>
+            <TabsTrigger value="lifecycle">Lifecycle</TabsTrigger>
           </TabsList>
           <div className="flex items-center gap-4">
+            {/* Granularity selector */}
+            <Select value={granularity} onValueChange={(value) => handleGranularityChange(value as Granularity)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Select granularity" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Granularity</SelectLabel>
+                  {GRANULARITIES.map(value => (
+                    <SelectItem key={value} value={value}>{GRANULARITY_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
             {/* Time range selector */}
-            <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
+            <Select value={timeRange} onValueChange={(value) => handleTimeRangeChange(value as TimeRange)}>
               <SelectTrigger className="w-[160px]">
                 <SelectValue placeholder="Select time range" />
               </SelectTrigger>
               <SelectContent>
                 <SelectGroup>
                   <SelectLabel>Time Range</SelectLabel>
-                  <SelectItem value="all">All Time</SelectItem>
-                  <SelectItem value="year">Past Year</SelectItem>
-                  <SelectItem value="6months">Last 6 Months</SelectItem>
+                  {GRANULARITY_TIME_RANGES[granularity].map(value => (
+                    <SelectItem key={value} value={value}>{TIME_RANGE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+            {/* Comparison selector; there is nothing before "All Time" to compare with */}
+            <Select
+              value={comparison}
+              onValueChange={(value) => onRangeChange({ ...range, compareTo: value as ComparisonMode })}
+              disabled={!canCompareTimeRange(timeRange)}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Compare to" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Compare To</SelectLabel>
+                  <SelectItem value="none">No Comparison</SelectItem>
+                  <SelectItem value="previousPeriod">{COMPARISON_LABELS.previousPeriod}</SelectItem>
+                  <SelectItem value="previousYear">{COMPARISON_LABELS.previousYear}</SelectItem>
                 </SelectGroup>
               </SelectContent>
             </Select>
           </div>
         </div>
 
+        {timeRange === 'custom' && customRange && (
+          <div className="mb-6 flex justify-end items-center gap-2">
+            <Datepicker
+              selected={keyToDate(customRange.start)}
+              onSelect={(date: Date | undefined) => handleCustomRangeChange('start', date)}
+              dateFormat="dd MMM yyyy"
+              inputProps={{ 'aria-label': 'Range start' }}
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Datepicker
+              selected={keyToDate(customRange.end)}
+              onSelect={(date: Date | undefined) => handleCustomRangeChange('end', date)}
+              dateFormat="dd MMM yyyy"
+              inputProps={{ 'aria-label': 'Range end' }}
+            />
+          </div>
+        )}
+
         <TabsContent value="overall" className="mt-0">
           <ContentChart
-            data={chartData}
+            data={overall}
             selectedTimeRange={timeRange}
+            customRange={customRange}
+            granularity={granularity}
+            timeZone={timeZone}
+            comparison={comparison}
+            onPointClick={onBucketSelect && ((date) => onBucketSelect({ granularity, date }))}
           />
         </TabsContent>
 
         <TabsContent value="by-type" className="mt-0">
           <ContentTypeChart
-            data={contentTypeData}
-            contentTypes={contentTypes}
+            data={byContentType.data}
+            contentTypes={byContentType.series}
             selectedTimeRange={timeRange}
+            customRange={customRange}
+            granularity={granularity}
+            timeZone={timeZone}
+            comparison={comparison}
+            onPointClick={onBucketSelect && ((date, series) => onBucketSelect({ granularity, date, dimension: 'contentType', series }))}
             title="Content Types"
           />
         </TabsContent>
 
         <TabsContent value="by-author" className="mt-0">
           <ContentTypeChart
-            data={authorData}
-            contentTypes={authors}
+            data={byCreator.data}
+            contentTypes={byCreator.series}
+            selectedTimeRange={timeRange}
+            customRange={customRange}
+            granularity={granularity}
+            timeZone={timeZone}
+            comparison={comparison}
+            onPointClick={onBucketSelect && ((date, series) => onBucketSelect({ granularity, date, dimension: 'creator', series }))}
+            title={`${authorLabel}s`}
+          />
+        </TabsContent>
+
+        <TabsContent value="by-tag" className="mt-0">
+          <ContentTypeChart
+            data={byTag.data}
+            contentTypes={byTag.series}
+            selectedTimeRange={timeRange}
+            customRange={customRange}
+            granularity={granularity}
+            timeZone={timeZone}
+            comparison={comparison}
+            onPointClick={onBucketSelect && ((date, series) => onBucketSelect({ granularity, date, dimension: 'tag', series }))}
+            title="Tags"
+          />
+        </TabsContent>
+
+        <TabsContent value="activity" className="mt-0">
+          <ContentTypeChart
+            data={activity.data}
+            contentTypes={activity.series}
+            selectedTimeRange={timeRange}
+            customRange={customRange}
+            granularity={granularity}
+            timeZone={timeZone}
+            comparison={comparison}
+            onPointClick={onBucketSelect && ((date, series) => onBucketSelect({ granularity, date, dimension: 'activity', series }))}
+            title="Activity"
+          />
+        </TabsContent>
+
+        <TabsContent value="lifecycle" className="mt-0">
+          {lifecycleStats && (
+            <div className="mb-4 flex gap-6 text-sm text-muted-foreground">
+              <span><span className="font-semibold text-foreground">{lifecycleStats.archivedCount}</span> archived</span>
+              <span><span className="font-semibold text-foreground">{lifecycleStats.unpublishedCount}</span> unpublished</span>
+              <span>
+                Average lifespan{' '}
+                <span className="font-semibold text-foreground">{lifecycleStats.averageLifespan.toFixed(1)} days</span>
+                {' '}from first publish to archive
+              </span>
+            </div>
+          )}
+          <ContentTypeChart
+            data={lifecycle.data}
+            contentTypes={lifecycle.series}
             selectedTimeRange={timeRange}
-            title="Creators"
+            customRange={customRange}
+            granularity={granularity}
+            timeZone={timeZone}
+            comparison={comparison}
+            onPointClick={onBucketSelect && ((date, series) => onBucketSelect({ granularity, date, dimension: 'lifecycle', series }))}
+            title="Lifecycle"
           />
         </TabsContent>
       </Tabs>
@@ -1,6 +1,19 @@
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LabelList } from "recharts"
 import { useState, useEffect } from "react"
 import { calculatePercentageChange, formatPercentageChange } from "../utils/calculations"
+import {
+  addComparisonValues,
+  canCompareTimeRange,
+  ComparisonMode,
+  ComparisonSummary,
+  DateRange,
+  formatBucketLabel,
+  Granularity,
+  sliceByTimeRange,
+  summarizeComparison,
+  TimeRange
+} from "../utils/aggregation"
+import ComparisonSummaryBar, { COMPARISON_LABELS } from "./comparison-summary"
 import {
   Select,
   SelectContent,
@@ -11,21 +24,21 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 
-// Format date for display
-const formatDate = (dateString: string) => {
-  const [year, month] = dateString.split('-');
-  const date = new Date(parseInt(year), parseInt(month) - 1, 1);
-  return date.toLocaleDateString("en-US", { month: "short", year: "numeric" });
-}
-
 interface ContentTypeChartProps {
   data: Array<{
     date: string;
     [key: string]: string | number;
   }>;
   contentTypes: string[];
-  selectedTimeRange: 'all' | 'year' | '6months';
-  title?: 'Content Types' | 'Authors' | 'Creators';
+  selectedTimeRange: TimeRange;
+  customRange?: DateRange;
+  granularity?: Granularity;
+  timeZone?: string;
+  comparison?: ComparisonMode;
+  // Legend heading, such as 'Content Types' or 'Tags'
+  title?: string;
+  // Called with the bucket key of a clicked point and the series it belongs to, if known
+  onPointClick?: (date: string, series?: string) => void;
 }
 
 // Array of colors for the lines
@@ -54,13 +67,20 @@ export default function ContentTypeChart({
   data = [],
   contentTypes = [],
   selectedTimeRange,
-  title = 'Content Types'
+  customRange,
+  granularity = 'month',
+  timeZone,
+  comparison = 'none',
+  title = 'Content Types',
+  onPointClick
 }: ContentTypeChartProps) {
   const [filteredData, setFilteredData] = useState(data);
   const [yAxisDomain, setYAxisDomain] = useState<[number, number]>([0, 10]);
   const [activeContentTypes, setActiveContentTypes] = useState<string[]>([]);
   const [processedData, setProcessedData] = useState<Array<{ date: string; [key: string]: any; highestType?: string }>>([]);
   const [selectedLine, setSelectedLine] = useState<string | null>(null);
+  const activeComparison = canCompareTimeRange(selectedTimeRange) ? comparison : 'none';
+  const [comparisonSummary, setComparisonSummary] = useState<ComparisonSummary | null>(null);
 
   // Handle line selection
   const handleLineClick = (lineName: string) => {
@@ -72,10 +92,21 @@ export default function ContentTypeChart({
     setSelectedLine(selectedLine === lineName ? null : lineName);
   };
 
+  // "(previous 3, +2, +66.7%)" for a series value in the tooltip
+  const formatComparison = (point: Record<string, any>, series: string) => {
+    if (activeComparison === 'none' || point[`${series}_previous`] === undefined) {
+      return '';
+    }
+    const count = Number(point[series]) || 0;
+    const previous = Number(point[`${series}_previous`]) || 0;
+    const difference = count - previous;
+    return ` (${COMPARISON_LABELS[activeComparison].toLowerCase()}: ${previous}, ${difference >= 0 ? '+' : ''}${difference}, ${formatPercentageChange(calculatePercentageChange(count, previous))})`;
+  };
+
   // Custom tooltip component
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
-      const formattedDate = formatDate(label);
+      const formattedDate = formatBucketLabel(label, granularity);
       
       // If a line is selected, show only that line's data
       if (selectedLine) {
@@ -91,9 +122,12 @@ export default function ContentTypeChart({
               <p style={{ color: selectedData.color }}>
                 {`${selectedLine}: ${count} entries`}
               </p>
+              {activeComparison !== 'none' && (
+                <p className="text-sm text-muted-foreground">{formatComparison(data, selectedLine).trim()}</p>
+              )}
               {percentChange !== undefined && (
                 <p className={`text-sm ${percentChange >= 0 ? "text-green-500" : "text-red-500"}`}>
-                  {formatPercentageChange(percentChange)} from previous month
+                  {formatPercentageChange(percentChange)} from previous {granularity}
                 </p>
               )}
             </div>
@@ -102,15 +136,17 @@ export default function ContentTypeChart({
       }
       
       // Default behavior when no line is selected - show all active lines
-      // Sort payload by value (count) in descending order
-      const sortedPayload = [...payload].sort((a, b) => b.value - a.value);
+      // Sort payload by value (count) in descending order, leaving out the comparison lines
+      const sortedPayload = payload
+        .filter((item: any) => !String(item.dataKey).endsWith('_previous'))
+        .sort((a: any, b: any) => b.value - a.value);
       
       return (
         <div className="bg-white p-3 rounded-lg shadow-md border border-gray-100">
           <p className="font-semibold">{formattedDate}</p>
           {sortedPayload.map((item: any, index: number) => (
             <p key={index} style={{ color: item.color }}>
-              {`${item.name}: ${item.value} entries`}
+              {`${item.name}: ${item.value} entries${formatComparison(item.payload, item.name)}`}
             </p>
           ))}
         </div>
@@ -126,40 +162,7 @@ export default function ContentTypeChart({
       return;
     }
 
-    const currentDate = new Date();
-    
-    const filterData = () => {
-      switch (selectedTimeRange) {
-        case 'all':
-          return [...data];
-        case 'year':
-          // Get the start of the month 12 months ago
-          const oneYearAgo = new Date(
-            currentDate.getFullYear() - 1,
-            currentDate.getMonth(),
-            1 // First day of the month
-          );
-          return data.filter(item => {
-            const itemDate = new Date(item.date);
-            return itemDate >= oneYearAgo;
-          });
-        case '6months':
-          // Get the start of the month 6 months ago
-          const sixMonthsAgo = new Date(
-            currentDate.getFullYear(),
-            currentDate.getMonth() - 6,
-            1 // First day of the month
-          );
-          return data.filter(item => {
-            const itemDate = new Date(item.date);
-            return itemDate >= sixMonthsAgo;
-          });
-        default:
-          return [...data];
-      }
-    };
-
-    const filtered = filterData();
+    const filtered = sliceByTimeRange(data, selectedTimeRange, granularity, new Date(), timeZone, customRange);
     
     // Find content types that have non-zero values in the filtered data
     const activeTypes = contentTypes.filter(type => 
@@ -167,7 +170,7 @@ export default function ContentTypeChart({
     );
     setActiveContentTypes(activeTypes);
 
-    // Calculate month-over-month percentage changes for each content type
+    // Calculate bucket-over-bucket percentage changes for each content type
     const filteredWithPercentages = filtered.map((item, index, array) => {
       const enhancedItem = { ...item };
       
@@ -185,9 +188,15 @@ export default function ContentTypeChart({
       
       return enhancedItem;
     });
+    const filteredWithComparison = addComparisonValues(data, filteredWithPercentages, activeTypes, activeComparison, granularity);
+    setComparisonSummary(
+      activeComparison !== 'none'
+        ? summarizeComparison(filteredWithComparison, selectedLine ? [selectedLine] : activeTypes)
+        : null
+    );
 
     // Process data to identify highest value for each date
-    const processed = filteredWithPercentages.map(item => {
+    const processed = filteredWithComparison.map(item => {
       const values = activeTypes.map(type => ({ type, value: Number(item[type]) || 0 }));
       const highest = values.reduce((max, curr) => curr.value > max.value ? curr : max, { type: '', value: -1 });
       return {
@@ -197,24 +206,26 @@ export default function ContentTypeChart({
       };
     });
     setProcessedData(processed);
-    setFilteredData(filteredWithPercentages);
+    setFilteredData(filteredWithComparison);
     
     // Calculate appropriate y-axis range using only active content types
-    if (filteredWithPercentages.length > 0) {
-      const maxCount = Math.max(
-        ...filteredWithPercentages.flatMap(item => 
-          activeTypes.map(type => Number(item[type]) || 0)
-        )
+    if (filteredWithComparison.length > 0) {
+      const values = filteredWithComparison.flatMap(item =>
+        activeTypes.flatMap(type => [Number(item[type]) || 0, Number(item[`${type}_previous`]) || 0])
       );
+      const maxCount = Math.max(0, ...values);
+      // Net series such as net published can dip below zero
+      const minCount = Math.min(0, ...values);
+      const span = Math.max(maxCount, -minCount);
       
       let intervalSize;
-      if (maxCount <= 20) {
+      if (span <= 20) {
         intervalSize = 10;
-      } else if (maxCount <= 50) {
+      } else if (span <= 50) {
         intervalSize = 20;
-      } else if (maxCount <= 100) {
+      } else if (span <= 100) {
         intervalSize = 25;
-      } else if (maxCount <= 500) {
+      } else if (span <= 500) {
         intervalSize = 100;
       } else {
         intervalSize = 250;
@@ -222,19 +233,28 @@ export default function ContentTypeChart({
       
       const highestUsedInterval = Math.ceil(maxCount / intervalSize) * intervalSize;
       const upperBound = highestUsedInterval + intervalSize;
-      setYAxisDomain([0, upperBound]);
+      const lowerBound = minCount < 0 ? Math.floor(minCount / intervalSize) * intervalSize : 0;
+      setYAxisDomain([lowerBound, upperBound]);
     } else {
       setYAxisDomain([0, 20]);
     }
-  }, [data, selectedTimeRange, contentTypes, selectedLine]);
+  }, [data, selectedTimeRange, customRange, granularity, timeZone, activeComparison, contentTypes, selectedLine]);
 
   return (
     <>
+      {comparisonSummary && activeComparison !== 'none' && (
+        <ComparisonSummaryBar summary={comparisonSummary} comparison={activeComparison} />
+      )}
       <div className="flex gap-8">
         <div className="flex-1 h-[400px]" role="img" aria-label="Line chart showing content type trends over time">
           <ResponsiveContainer width="100%" height="100%">
             <LineChart
               data={processedData}
+              onClick={(state) => {
+                // With a series picked in the legend, a click anywhere on a bucket drills into that series
+                if (onPointClick && state?.activeLabel) onPointClick(String(state.activeLabel), selectedLine || undefined);
+              }}
+              style={{ cursor: onPointClick ? 'pointer' : undefined }}
               margin={{
                 top: 20,
                 right: 30,
@@ -243,14 +263,29 @@ export default function ContentTypeChart({
               }}
             >
               <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-              <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 12 }} angle={-45} textAnchor="end" />
+              <XAxis dataKey="date" tickFormatter={(value) => formatBucketLabel(value, granularity)} tick={{ fontSize: 12 }} angle={-45} textAnchor="end" />
               <YAxis 
                 tick={{ fontSize: 12 }} 
                 domain={yAxisDomain}
-                tickCount={Math.min(5, Math.floor(yAxisDomain[1] / 10) + 1)}
+                tickCount={Math.min(5, Math.floor((yAxisDomain[1] - yAxisDomain[0]) / 10) + 1)}
                 allowDecimals={false}
               />
               <Tooltip content={<CustomTooltip />} />
+              {activeComparison !== 'none' && activeContentTypes.map((contentType, index) => (
+                <Line
+                  key={`${contentType}_previous`}
+                  type="monotone"
+                  dataKey={`${contentType}_previous`}
+                  name={`${contentType} (${COMPARISON_LABELS[activeComparison].toLowerCase()})`}
+                  stroke={lineColors[index % lineColors.length]}
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                  activeDot={false}
+                  isAnimationActive={false}
+                  style={{ opacity: selectedLine && selectedLine !== contentType ? 0.1 : 0.35 }}
+                />
+              ))}
               {activeContentTypes.map((contentType, index) => (
                 <Line
                   key={contentType}
@@ -260,7 +295,22 @@ export default function ContentTypeChart({
                   stroke={lineColors[index % lineColors.length]}
                   strokeWidth={2}
                   dot={{ r: 4, strokeWidth: 2 }}
-                  activeDot={{ r: 6, strokeWidth: 2 }}
+                  activeDot={(props: any) => (
+                    <circle
+                      cx={props.cx}
+                      cy={props.cy}
+                      r={6}
+                      fill={props.fill}
+                      stroke={props.stroke}
+                      strokeWidth={2}
+                      onClick={(event) => {
+                        if (!onPointClick) return;
+                        // Drill into this series rather than whichever one is selected
+                        event.stopPropagation();
+                        onPointClick(props.payload.date, contentType);
+                      }}
+                    />
+                  )}
                   onClick={() => handleLineClick(contentType)}
                   style={{ 
                     cursor: 'pointer',
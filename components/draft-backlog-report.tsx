@@ -0,0 +1,143 @@
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  DRAFT_AGE_BUCKETS,
+  DraftBacklogBreakdown,
+  DraftBacklogReport as DraftBacklogReportData,
+  formatBucketLabel
+} from "../utils/aggregation"
+import { DraftListSelection } from "../utils/kpi-lists"
+
+interface DraftBacklogReportProps {
+  report: DraftBacklogReportData
+  // Opens the list of drafts behind a count
+  onSelect: (selection: DraftListSelection) => void
+  // Who drafts are credited to in the per person breakdown
+  authorLabel?: string
+}
+
+const CountButton = ({ count, onClick, label }: { count: number; onClick: () => void; label: string }) =>
+  count === 0 ? (
+    <span className="text-muted-foreground">0</span>
+  ) : (
+    <button className="font-medium text-primary hover:underline" onClick={onClick} aria-label={label}>
+      {count}
+    </button>
+  )
+
+const BreakdownTable = ({
+  rows,
+  label,
+  toSelection,
+  onSelect,
+}: {
+  rows: DraftBacklogBreakdown[]
+  label: string
+  toSelection: (id: string) => DraftListSelection
+  onSelect: (selection: DraftListSelection) => void
+}) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{label}</TableHead>
+        {DRAFT_AGE_BUCKETS.map(bucket => (
+          <TableHead key={bucket.label} className="text-right">{bucket.label}</TableHead>
+        ))}
+        <TableHead className="text-right">Total</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rows.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={DRAFT_AGE_BUCKETS.length + 2} className="h-24 text-center">
+            No unpublished drafts.
+          </TableCell>
+        </TableRow>
+      ) : (
+        rows.map(({ id, name, counts, total }) => (
+          <TableRow key={id}>
+            <TableCell>{name}</TableCell>
+            {counts.map((count, ageBucket) => (
+              <TableCell key={DRAFT_AGE_BUCKETS[ageBucket].label} className="text-right">
+                <CountButton
+                  count={count}
+                  onClick={() => onSelect({ ...toSelection(id), ageBucket })}
+                  label={`${name}: ${count} drafts ${DRAFT_AGE_BUCKETS[ageBucket].label} old`}
+                />
+              </TableCell>
+            ))}
+            <TableCell className="text-right">
+              <CountButton count={total} onClick={() => onSelect(toSelection(id))} label={`${name}: ${total} drafts`} />
+            </TableCell>
+          </TableRow>
+        ))
+      )}
+    </TableBody>
+  </Table>
+)
+
+// Never published drafts by age, who owns them and how the backlog has grown
+export default function DraftBacklogReport({ report, onSelect, authorLabel = 'Creator' }: DraftBacklogReportProps) {
+  const { total, byAge, byContentType, byCreator, trend } = report
+
+  return (
+    <div className="w-full rounded-xl bg-white p-6 shadow-sm">
+      <p className="mb-4 text-sm text-muted-foreground">
+        Entries that have never been published, by days since they were created
+      </p>
+      <div className="mb-6 grid grid-cols-2 gap-4 sm:grid-cols-5">
+        <div>
+          <div className="text-sm text-muted-foreground">All drafts</div>
+          <button className="text-2xl font-semibold hover:underline" onClick={() => onSelect({})}>
+            {total}
+          </button>
+        </div>
+        {DRAFT_AGE_BUCKETS.map((bucket, ageBucket) => (
+          <div key={bucket.label}>
+            <div className="text-sm text-muted-foreground">{bucket.label}</div>
+            <button className="text-2xl font-semibold hover:underline" onClick={() => onSelect({ ageBucket })}>
+              {byAge[ageBucket]}
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="mb-6 h-[200px]" role="img" aria-label="Open drafts at the end of each month">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={trend} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+            <XAxis dataKey="date" tickFormatter={(date: string) => formatBucketLabel(date)} tick={{ fontSize: 12 }} />
+            <YAxis tick={{ fontSize: 12 }} allowDecimals={false} />
+            <Tooltip
+              labelFormatter={(date: string) => formatBucketLabel(date)}
+              formatter={(value: number) => [`${value} drafts`, 'Open']}
+            />
+            <Line type="monotone" dataKey="count" stroke="#f59e0b" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <Tabs defaultValue="by-type" className="w-full">
+        <TabsList className="bg-muted h-10">
+          <TabsTrigger value="by-type">By Content Type</TabsTrigger>
+          <TabsTrigger value="by-creator">By {authorLabel}</TabsTrigger>
+        </TabsList>
+        <TabsContent value="by-type" className="mt-4">
+          <BreakdownTable
+            rows={byContentType}
+            label="Content Type"
+            toSelection={contentTypeId => ({ contentTypeId })}
+            onSelect={onSelect}
+          />
+        </TabsContent>
+        <TabsContent value="by-creator" className="mt-4">
+          <BreakdownTable
+            rows={byCreator}
+            label={authorLabel}
+            toSelection={creatorId => ({ creatorId })}
+            onSelect={onSelect}
+          />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { EntryReview } from "../utils/reviews"
+
+const SNOOZE_MONTH_OPTIONS = [1, 3, 6, 12, 24]
+
+const formatMonths = (months: number) => `${months} ${months === 1 ? 'month' : 'months'}`
+
+interface MarkReviewedDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Review period of the entry's content type, preselected as the snooze
+  defaultMonths: number
+  onConfirm: (months: number, note: string) => Promise<void>
+}
+
+// Confirms a stale entry is still accurate and hides it until its next review
+export function MarkReviewedDialog({ open, onOpenChange, defaultMonths, onConfirm }: MarkReviewedDialogProps) {
+  const [months, setMonths] = useState(defaultMonths)
+  const [note, setNote] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const monthOptions = Array.from(new Set([...SNOOZE_MONTH_OPTIONS, defaultMonths])).sort((a, b) => a - b)
+
+  const handleConfirm = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onConfirm(months, note)
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error marking entry as reviewed:', error)
+      setError('Failed to save the review')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Mark reviewed</DialogTitle>
+          <DialogDescription>
+            The review is saved as a comment on the entry, and the entry leaves Needs Update until its next review is due.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="review-snooze">Next review in</Label>
+            <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+              <SelectTrigger id="review-snooze">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {monthOptions.map(option => (
+                  <SelectItem key={option} value={String(option)}>{formatMonths(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-note">Note (optional)</Label>
+            <Input
+              id="review-note"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="What was checked?"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Mark reviewed'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface ReviewHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  loadReviews: () => Promise<EntryReview[]>
+  onResolveUser: (userId: string) => Promise<string>
+}
+
+// Every "Mark reviewed" recorded on one entry, newest first
+export function ReviewHistoryDialog({ open, onOpenChange, loadReviews, onResolveUser }: ReviewHistoryDialogProps) {
+  const [reviews, setReviews] = useState<EntryReview[] | null>(null)
+  const [reviewerNames, setReviewerNames] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isCurrent = true
+    loadReviews()
+      .then(loadedReviews => {
+        if (isCurrent) setReviews(loadedReviews)
+      })
+      .catch(error => {
+        if (!isCurrent) return
+        console.error('Error loading review history:', error)
+        setError('Failed to load review history')
+      })
+    return () => {
+      isCurrent = false
+    }
+  }, [loadReviews])
+
+  useEffect(() => {
+    if (!reviews) return
+    let isCurrent = true
+    const reviewerIds = Array.from(new Set(reviews.map(review => review.reviewerId)))
+    Promise.all(reviewerIds.map(onResolveUser)).then(names => {
+      if (isCurrent) setReviewerNames(Object.fromEntries(reviewerIds.map((id, index) => [id, names[index]])))
+    })
+    return () => {
+      isCurrent = false
+    }
+  }, [reviews, onResolveUser])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review history</DialogTitle>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !reviews ? (
+          <p className="text-sm text-muted-foreground">Loading reviews...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reviewed</TableHead>
+                <TableHead>Reviewer</TableHead>
+                <TableHead>Next Review</TableHead>
+                <TableHead>Note</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center">This entry has not been reviewed yet.</TableCell>
+                </TableRow>
+              ) : (
+                reviews.map(review => (
+                  <TableRow key={review.commentId}>
+                    <TableCell>{new Date(review.reviewedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>{reviewerNames[review.reviewerId] || review.reviewerId}</TableCell>
+                    <TableCell>{review.nextReviewDue}</TableCell>
+                    <TableCell className="whitespace-pre-wrap">{review.note}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useState } from "react"
+import { TaskProps } from "contentful-management"
+import { ClipboardList } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { EntryTaskDraft, EntryTaskResult } from "../utils/tasks"
+
+// How an entry list reads and creates Contentful tasks; lists without it offer no task actions
+export interface EntryTaskActions {
+  loadOpenTasks: (entryIds: string[]) => Promise<Record<string, TaskProps[]>>
+  createTasks: (entryIds: string[], draft: EntryTaskDraft) => Promise<EntryTaskResult>
+  // User ID -> name of everyone a task can be assigned to
+  loadAssignees: () => Promise<Record<string, string>>
+}
+
+/**
+ * Open task counts for the listed entries, reloaded when the list changes or
+ * after `reload` is called.
+ */
+export function useOpenTaskCounts(entryIds: string[], taskActions?: EntryTaskActions) {
+  const [openTaskCounts, setOpenTaskCounts] = useState<Record<string, number>>({})
+  const [reloadCount, setReloadCount] = useState(0)
+  const entryIdsKey = entryIds.join(',')
+
+  useEffect(() => {
+    if (!taskActions || !entryIdsKey) {
+      setOpenTaskCounts({})
+      return
+    }
+    let isCurrent = true
+    taskActions.loadOpenTasks(entryIdsKey.split(','))
+      .then(openTasks => {
+        if (!isCurrent) return
+        setOpenTaskCounts(Object.fromEntries(Object.entries(openTasks).map(([entryId, tasks]) => [entryId, tasks.length])))
+      })
+      .catch(error => console.error('Error loading open tasks:', error))
+    return () => {
+      isCurrent = false
+    }
+  }, [taskActions, entryIdsKey, reloadCount])
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), [])
+  return { openTaskCounts, reload }
+}
+
+interface CreateTaskDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  entryCount: number
+  taskActions: EntryTaskActions
+  // Resolves with the names of the entries no task could be created on
+  onCreate: (draft: EntryTaskDraft) => Promise<string[]>
+}
+
+function CreateTaskDialog({ open, onOpenChange, entryCount, taskActions, onCreate }: CreateTaskDialogProps) {
+  const [assignees, setAssignees] = useState<Record<string, string>>({})
+  const [assigneeId, setAssigneeId] = useState("")
+  const [dueDate, setDueDate] = useState("")
+  const [body, setBody] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isCurrent = true
+    taskActions.loadAssignees()
+      .then(loaded => {
+        if (isCurrent) setAssignees(loaded)
+      })
+      .catch(error => {
+        console.error('Error loading assignees:', error)
+        if (isCurrent) setError('Failed to load users')
+      })
+    return () => {
+      isCurrent = false
+    }
+  }, [taskActions])
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const failedEntries = await onCreate({ assigneeId, body, dueDate: dueDate || undefined })
+      if (failedEntries.length === 0) {
+        onOpenChange(false)
+      } else {
+        setError(`Could not create the task on ${failedEntries.join(', ')}. ${failedEntries.length === 1 ? 'It is' : 'They are'} still selected; create the task again to retry.`)
+      }
+    } catch (error) {
+      console.error('Error creating tasks:', error)
+      setError('Failed to create tasks')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Create task</DialogTitle>
+          <DialogDescription>
+            Adds a Contentful task to {entryCount === 1 ? 'the selected entry' : `each of the ${entryCount} selected entries`}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-assignee">Assignee</Label>
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger id="task-assignee">
+                <SelectValue placeholder="Select a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(assignees)
+                  .sort((a, b) => a[1].localeCompare(b[1]))
+                  .map(([id, name]) => (
+                    <SelectItem key={id} value={id}>{name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-due-date">Due date (optional)</Label>
+            <Input id="task-due-date" type="date" value={dueDate} onChange={(event) => setDueDate(event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-body">Message</Label>
+            <Input
+              id="task-body"
+              value={body}
+              onChange={(event) => setBody(event.target.value)}
+              placeholder="What needs to be done?"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={isSaving || !assigneeId || !body.trim()}>
+            {isSaving ? 'Creating...' : 'Create task'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface EntryTaskBarProps {
+  selectedIds: string[]
+  onSelectionChange: (entryIds: string[]) => void
+  // Entry ID -> title, for naming entries a task could not be created on
+  entryTitles?: Record<string, string>
+  taskActions: EntryTaskActions
+  // Called once the tasks exist, e.g. to reload open task counts
+  onTasksCreated: () => void
+}
+
+// Selection summary above an entry list, with the action that assigns the selected entries
+export function EntryTaskBar({ selectedIds, onSelectionChange, entryTitles = {}, taskActions, onTasksCreated }: EntryTaskBarProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  // Entries that got their task leave the selection, so a retry does not create it twice
+  const handleCreate = async (draft: EntryTaskDraft) => {
+    const { created, failedEntryIds } = await taskActions.createTasks(selectedIds, draft)
+    onSelectionChange(failedEntryIds)
+    if (created.length > 0) onTasksCreated()
+    return failedEntryIds.map(entryId => entryTitles[entryId] || entryId)
+  }
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <span className="text-sm text-muted-foreground">{selectedIds.length} selected</span>
+      <Button variant="outline" size="sm" disabled={selectedIds.length === 0} onClick={() => setIsDialogOpen(true)}>
+        <ClipboardList className="h-4 w-4" /> Create task
+      </Button>
+      <Button variant="ghost" size="sm" disabled={selectedIds.length === 0} onClick={() => onSelectionChange([])}>
+        Clear
+      </Button>
+      {isDialogOpen && (
+        <CreateTaskDialog
+          open={true}
+          onOpenChange={setIsDialogOpen}
+          entryCount={selectedIds.length}
+          taskActions={taskActions}
+          onCreate={handleCreate}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react"
+import { EntryProps } from "contentful-management"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ContentTable } from "@/components/content-table"
+import { toContentItem } from "@/components/ContentEntryTabs"
+import { EntryTaskActions, EntryTaskBar, useOpenTaskCounts } from "@/components/entry-tasks"
+import { getDaysToPublish, KpiListPage } from "../utils/kpi-lists"
+import { EntryStage } from "../utils/workflow-stages"
+import { ATTRIBUTION_MODE_LABELS, Attribution, DEFAULT_ATTRIBUTION } from "../utils/attribution"
+
+const PAGE_SIZE = 25
+// Wait for typing to settle before searching
+const SEARCH_DEBOUNCE_MS = 300
+
+interface KpiEntryListDialogProps {
+  title: string
+  description?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  loadPage: (search: string, page: number, pageSize: number) => Promise<KpiListPage>
+  showDaysToPublish?: boolean
+  userCache: Record<string, string>
+  onResolveUser: (userId: string) => Promise<string>
+  onOpenEntry: (entryId: string) => void
+  // Lets editors select entries and assign them through Contentful tasks
+  taskActions?: EntryTaskActions
+  // Workflow stage by entry ID; adds the Status column when given
+  entryStages?: Record<string, EntryStage>
+  // Who the author column credits each entry to; defaults to sys.createdBy
+  attribution?: Attribution
+}
+
+// Paginated, searchable list of the entries behind a KPI card
+export default function KpiEntryListDialog({
+  title,
+  description,
+  open,
+  onOpenChange,
+  loadPage,
+  showDaysToPublish = false,
+  userCache,
+  onResolveUser,
+  onOpenEntry,
+  taskActions,
+  entryStages,
+  attribution = DEFAULT_ATTRIBUTION,
+}: KpiEntryListDialogProps) {
+  const [searchInput, setSearchInput] = useState("")
+  const [search, setSearch] = useState("")
+  const [page, setPage] = useState(0)
+  const [entries, setEntries] = useState<EntryProps[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [rows, setRows] = useState<Awaited<ReturnType<typeof toContentItem>>[]>([])
+  // Kept across pages and searches
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const { openTaskCounts, reload: reloadOpenTasks } = useOpenTaskCounts(entries.map(entry => entry.sys.id), taskActions)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput)
+      setPage(0)
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  useEffect(() => {
+    if (!open) return
+    let isCurrent = true
+    setIsLoading(true)
+    setError(null)
+    loadPage(search, page, PAGE_SIZE)
+      .then(result => {
+        if (!isCurrent) return
+        setEntries(result.items)
+        setTotal(result.total)
+      })
+      .catch(loadError => {
+        if (!isCurrent) return
+        console.error('Error loading KPI entry list:', loadError)
+        setEntries([])
+        setTotal(0)
+        setError('Failed to load entries')
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false)
+      })
+    return () => {
+      isCurrent = false
+    }
+  }, [open, loadPage, search, page])
+
+  useEffect(() => {
+    let isCurrent = true
+    Promise.all(entries.map(entry => toContentItem(entry, userCache, onResolveUser, { attribution, entryStages }))).then(items => {
+      if (!isCurrent) return
+      setRows(items.map((item, index) => ({
+        ...item,
+        daysToPublish: getDaysToPublish(entries[index]) ?? undefined
+      })))
+    })
+    return () => {
+      isCurrent = false
+    }
+  }, [entries, userCache, onResolveUser, attribution, entryStages])
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+  const firstItem = total === 0 ? 0 : page * PAGE_SIZE + 1
+  const lastItem = Math.min(total, (page + 1) * PAGE_SIZE)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+        <Input
+          value={searchInput}
+          onChange={(event) => setSearchInput(event.target.value)}
+          placeholder="Search entries..."
+          aria-label="Search entries"
+        />
+        {taskActions && (
+          <EntryTaskBar
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedIds}
+            entryTitles={Object.fromEntries(rows.map(row => [row.id, row.title]))}
+            taskActions={taskActions}
+            onTasksCreated={reloadOpenTasks}
+          />
+        )}
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <div className={isLoading ? "opacity-50" : undefined}>
+            <ContentTable
+              data={rows}
+              onEntryClick={onOpenEntry}
+              hideActions={true}
+              showStage={Boolean(entryStages)}
+              authorLabel={ATTRIBUTION_MODE_LABELS[attribution.mode]}
+              showDaysToPublish={showDaysToPublish}
+              selectedIds={selectedIds}
+              onSelectionChange={taskActions ? setSelectedIds : undefined}
+              openTaskCounts={openTaskCounts}
+            />
+          </div>
+        )}
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{isLoading ? 'Loading...' : `${firstItem}-${lastItem} of ${total}`}</span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" disabled={isLoading || page === 0} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span>Page {page + 1} of {pageCount}</span>
+            <Button variant="outline" size="sm" disabled={isLoading || page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,27 @@
+import { Line, LineChart, ResponsiveContainer, Tooltip, YAxis } from "recharts"
+import { formatBucketLabel, TrendPoint } from "../utils/aggregation"
+
+interface KpiSparklineProps {
+  // Monthly points, oldest first
+  data: TrendPoint[]
+}
+
+// Small history line under a KPI number
+export default function KpiSparkline({ data }: KpiSparklineProps) {
+  if (data.length < 2) return null
+
+  return (
+    <div className="mt-2 h-8" role="img" aria-label="Trend over the past months">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 2, right: 0, left: 0, bottom: 2 }}>
+          <YAxis hide domain={['dataMin', 'dataMax']} />
+          <Tooltip
+            labelFormatter={(_, payload) => (payload?.[0] ? formatBucketLabel(payload[0].payload.date) : '')}
+            formatter={(value: number) => [value, 'Published']}
+          />
+          <Line type="monotone" dataKey="count" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -1,9 +1,15 @@
 import React, { useCallback, useState, useEffect } from 'react';
 import { ConfigAppSDK } from '@contentful/app-sdk';
-import { Heading, Form, Flex, FormControl, Spinner, Select, Switch, Note } from '@contentful/f36-components';
+import { Heading, Form, Flex, FormControl, Spinner, Select, Switch, Note, Button, Table } from '@contentful/f36-components';
 import { Multiselect } from '@contentful/f36-multiselect';
 import { css } from 'emotion';
 import { useCMA, useSDK } from '@contentful/react-apps-toolkit';
+import { requestScheduler } from '../../utils/request-scheduler';
+import { DEFAULT_REPORTING_TIME_ZONE, getSupportedTimeZones } from '../../utils/timezone';
+import { TimeToPublishStatistic } from '../../utils/aggregation';
+import { NeedsUpdateRule, NeedsUpdateRules } from '../../utils/needs-update';
+import { StageFields } from '../../utils/workflow-stages';
+import { ATTRIBUTION_MODE_LABELS, ATTRIBUTION_MODES, AttributionMode, OwnerFields } from '../../utils/attribution';
 
 export interface AppInstallationParameters {
   trackedContentTypes?: string[];
@@ -12,8 +18,35 @@ export interface AppInstallationParameters {
   recentlyPublishedDays?: number;
   showUpcomingReleases?: boolean;
   timeToPublishDays?: number;
+  // Statistic the time to publish card shows
+  timeToPublishStatistic?: TimeToPublishStatistic;
+  // IANA timezone used for month buckets and day/month cutoffs
+  reportingTimeZone?: string;
+  // Per content type overrides of needsUpdateMonths, optionally reading a date field
+  needsUpdateRules?: NeedsUpdateRules;
+  // Content types linked from nowhere by design, such as pages, left out of the orphaned entries report
+  orphanRootContentTypes?: string[];
+  // Per content type status field read as the workflow stage when an entry is not in a Workflow
+  stageFields?: StageFields;
+  // Who the creator breakdowns and columns credit entries to
+  attributionMode?: AttributionMode;
+  // Per content type text or reference field naming the owner, for the ownerField mode
+  ownerFields?: OwnerFields;
 }
 
+interface ConfigContentType {
+  id: string;
+  name: string;
+  // Date fields a needs update rule can read instead of the last update
+  dateFields: Array<{ id: string; name: string }>;
+  // Short text fields that can hold an editorial status
+  statusFields: Array<{ id: string; name: string }>;
+  // Text and entry reference fields that can name an owner
+  ownerCandidateFields: Array<{ id: string; name: string }>;
+}
+
+const NEEDS_UPDATE_MONTH_OPTIONS = [1, 2, 3, 6, 9, 12, 18, 24];
+
 const ConfigScreen = () => {
   const [parameters, setParameters] = useState<AppInstallationParameters>({
     trackedContentTypes: [],
@@ -21,10 +54,13 @@ const ConfigScreen = () => {
     defaultTimeRange: 'year',
     recentlyPublishedDays: 7,
     showUpcomingReleases: true,
-    timeToPublishDays: 30
+    timeToPublishDays: 30,
+    timeToPublishStatistic: 'mean',
+    reportingTimeZone: DEFAULT_REPORTING_TIME_ZONE
   });
-  const [contentTypes, setContentTypes] = useState<Array<{ id: string; name: string }>>([]);
-  const [filteredContentTypes, setFilteredContentTypes] = useState<Array<{ id: string; name: string }>>([]);
+  const timeZones = React.useMemo(() => getSupportedTimeZones(), []);
+  const [contentTypes, setContentTypes] = useState<ConfigContentType[]>([]);
+  const [filteredContentTypes, setFilteredContentTypes] = useState<ConfigContentType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const sdk = useSDK<ConfigAppSDK>();
   const cma = useCMA();
@@ -61,68 +97,64 @@ const ConfigScreen = () => {
       setIsLoading(true);
       try {
         // Get content types to populate the tracking list
-        const contentTypesResponse = await cma.contentType.getMany({
+        const contentTypesResponse = await requestScheduler.schedule(() => cma.contentType.getMany({
           spaceId: sdk.ids.space,
           environmentId: sdk.ids.environment
-        });
+        }));
         
         const sortedContentTypes = contentTypesResponse.items
           .map(ct => ({ 
             id: ct.sys.id, 
-            name: ct.name 
+            name: ct.name,
+            dateFields: ct.fields
+              .filter(field => field.type === 'Date')
+              .map(field => ({ id: field.id, name: field.name })),
+            statusFields: ct.fields
+              .filter(field => field.type === 'Symbol')
+              .map(field => ({ id: field.id, name: field.name })),
+            ownerCandidateFields: ct.fields
+              .filter(field =>
+                field.type === 'Symbol' ||
+                field.type === 'Text' ||
+                (field.type === 'Link' && field.linkType === 'Entry') ||
+                (field.type === 'Array' && field.items?.linkType === 'Entry')
+              )
+              .map(field => ({ id: field.id, name: field.name }))
           }))
           .sort((a, b) => a.name.localeCompare(b.name));
         
         setContentTypes(sortedContentTypes);
         setFilteredContentTypes(sortedContentTypes);
         
-        // Try to get the configuration from localStorage first
-        const storedConfig = localStorage.getItem('contentDashboardConfig');
-        if (storedConfig) {
+        // Installation parameters first, as Home reads them; localStorage covers installations saved without them
+        let savedParameters: AppInstallationParameters | null = await sdk.app.getParameters();
+        if (!savedParameters || Object.keys(savedParameters).length === 0) {
           try {
-            const parsedConfig = JSON.parse(storedConfig) as AppInstallationParameters;
-            if (parsedConfig) {
-              
-              // Filter out content types that don't exist
-              if (parsedConfig.trackedContentTypes) {
-                const validTrackedTypes = parsedConfig.trackedContentTypes.filter(id => 
-                  sortedContentTypes.some(ct => ct.id === id)
-                );
-                
-                if (validTrackedTypes.length !== parsedConfig.trackedContentTypes.length) {
-                  parsedConfig.trackedContentTypes = validTrackedTypes;
-                }
-              }
-              
-              // Ensure we have valid values or defaults
-              parsedConfig.needsUpdateMonths = parsedConfig.needsUpdateMonths || 6;
-              parsedConfig.defaultTimeRange = parsedConfig.defaultTimeRange || 'year';
-              parsedConfig.recentlyPublishedDays = parsedConfig.recentlyPublishedDays || 7;
-              parsedConfig.showUpcomingReleases = parsedConfig.showUpcomingReleases ?? true;
-              parsedConfig.timeToPublishDays = parsedConfig.timeToPublishDays || 30;
-              
-              setParameters(parsedConfig);
-              setIsLoading(false);
-              sdk.app.setReady();
-              return;
-            }
+            const storedConfig = localStorage.getItem('contentDashboardConfig');
+            savedParameters = storedConfig ? (JSON.parse(storedConfig) as AppInstallationParameters) : null;
           } catch (e) {
-            // Error parsing stored config - will fall back to SDK parameters
+            savedParameters = null;
           }
         }
-        
-        // Get current parameters of the app from SDK if localStorage wasn't available
-        const currentParameters: AppInstallationParameters | null = await sdk.app.getParameters();
 
-        if (currentParameters) {
+        if (savedParameters) {
+          // Filter out content types that don't exist
+          if (savedParameters.trackedContentTypes) {
+            savedParameters.trackedContentTypes = savedParameters.trackedContentTypes.filter(id =>
+              sortedContentTypes.some(ct => ct.id === id)
+            );
+          }
+
           // Ensure default values if not set
-          currentParameters.needsUpdateMonths = currentParameters.needsUpdateMonths || 6;
-          currentParameters.defaultTimeRange = currentParameters.defaultTimeRange || 'year';
-          currentParameters.recentlyPublishedDays = currentParameters.recentlyPublishedDays || 7;
-          currentParameters.showUpcomingReleases = currentParameters.showUpcomingReleases ?? true;
-          currentParameters.timeToPublishDays = currentParameters.timeToPublishDays || 30;
+          savedParameters.needsUpdateMonths = savedParameters.needsUpdateMonths || 6;
+          savedParameters.defaultTimeRange = savedParameters.defaultTimeRange || 'year';
+          savedParameters.recentlyPublishedDays = savedParameters.recentlyPublishedDays || 7;
+          savedParameters.showUpcomingReleases = savedParameters.showUpcomingReleases ?? true;
+          savedParameters.timeToPublishDays = savedParameters.timeToPublishDays || 30;
+          savedParameters.timeToPublishStatistic = savedParameters.timeToPublishStatistic || 'mean';
+          savedParameters.reportingTimeZone = savedParameters.reportingTimeZone || DEFAULT_REPORTING_TIME_ZONE;
           
-          setParameters(currentParameters);
+          setParameters(savedParameters);
         } else {
           // Initialize with defaults if no parameters exist
           setParameters({ 
@@ -131,7 +163,9 @@ const ConfigScreen = () => {
             defaultTimeRange: 'year',
             recentlyPublishedDays: 7,
             showUpcomingReleases: true,
-            timeToPublishDays: 30
+            timeToPublishDays: 30,
+            timeToPublishStatistic: 'mean',
+            reportingTimeZone: DEFAULT_REPORTING_TIME_ZONE
           });
         }
       } catch (error) {
@@ -186,6 +220,36 @@ const ConfigScreen = () => {
     }));
   };
 
+  const handleNeedsUpdateRuleChange = (contentTypeId: string, rule: NeedsUpdateRule | null) => {
+    setParameters(prev => {
+      const needsUpdateRules = { ...(prev.needsUpdateRules || {}) };
+      if (rule) {
+        needsUpdateRules[contentTypeId] = rule;
+      } else {
+        delete needsUpdateRules[contentTypeId];
+      }
+      return {
+        ...prev,
+        needsUpdateRules
+      };
+    });
+  };
+
+  const handleStageFieldChange = (contentTypeId: string, fieldId: string | null) => {
+    setParameters(prev => {
+      const stageFields = { ...(prev.stageFields || {}) };
+      if (fieldId) {
+        stageFields[contentTypeId] = fieldId;
+      } else {
+        delete stageFields[contentTypeId];
+      }
+      return {
+        ...prev,
+        stageFields
+      };
+    });
+  };
+
   const handleDefaultTimeRangeChange = (value: string) => {
     setParameters(prev => ({
       ...prev,
@@ -220,6 +284,56 @@ const ConfigScreen = () => {
     }));
   };
 
+  const handleTimeToPublishStatisticChange = (value: string) => {
+    setParameters(prev => ({
+      ...prev,
+      timeToPublishStatistic: value as TimeToPublishStatistic
+    }));
+  };
+
+  const handleAttributionModeChange = (value: string) => {
+    setParameters(prev => ({
+      ...prev,
+      attributionMode: value as AttributionMode
+    }));
+  };
+
+  const handleOwnerFieldChange = (contentTypeId: string, fieldId: string | null) => {
+    setParameters(prev => {
+      const ownerFields = { ...(prev.ownerFields || {}) };
+      if (fieldId) {
+        ownerFields[contentTypeId] = fieldId;
+      } else {
+        delete ownerFields[contentTypeId];
+      }
+      return {
+        ...prev,
+        ownerFields
+      };
+    });
+  };
+
+  const handleOrphanRootContentTypeSelection = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { checked, value } = event.target;
+
+    setParameters(prev => {
+      const orphanRootContentTypes = prev.orphanRootContentTypes || [];
+      return {
+        ...prev,
+        orphanRootContentTypes: checked
+          ? [...orphanRootContentTypes, value]
+          : orphanRootContentTypes.filter(id => id !== value)
+      };
+    });
+  };
+
+  const handleReportingTimeZoneChange = (value: string) => {
+    setParameters(prev => ({
+      ...prev,
+      reportingTimeZone: value
+    }));
+  };
+
   const toggleAll = (event: React.ChangeEvent<HTMLInputElement>) => {
     const { checked } = event.target;
     if (checked) {
@@ -260,20 +374,99 @@ const ConfigScreen = () => {
                 value={parameters.needsUpdateMonths?.toString() || "6"}
                 onChange={(e) => handleNeedsUpdateMonthsChange(e.target.value)}
               >
-                <Select.Option value="1">1 month</Select.Option>
-                <Select.Option value="2">2 months</Select.Option>
-                <Select.Option value="3">3 months</Select.Option>
-                <Select.Option value="6">6 months</Select.Option>
-                <Select.Option value="9">9 months</Select.Option>
-                <Select.Option value="12">12 months</Select.Option>
-                <Select.Option value="18">18 months</Select.Option>
-                <Select.Option value="24">24 months</Select.Option>
+                {NEEDS_UPDATE_MONTH_OPTIONS.map(months => (
+                  <Select.Option key={months} value={months.toString()}>{months} {months === 1 ? 'month' : 'months'}</Select.Option>
+                ))}
               </Select>
               <FormControl.HelpText>
                 Content will be marked as &quot;Needs Update&quot; when it hasn&apos;t been updated for this amount of time.
               </FormControl.HelpText>
             </FormControl>
 
+            <FormControl marginBottom="spacingL">
+              <FormControl.Label>&quot;Needs Update&quot; Threshold per Content Type</FormControl.Label>
+              {Object.keys(parameters.needsUpdateRules || {}).length > 0 && (
+                <Table className={css({ marginBottom: '8px' })}>
+                  <Table.Head>
+                    <Table.Row>
+                      <Table.Cell>Content type</Table.Cell>
+                      <Table.Cell>Threshold</Table.Cell>
+                      <Table.Cell>Measured from</Table.Cell>
+                      <Table.Cell />
+                    </Table.Row>
+                  </Table.Head>
+                  <Table.Body>
+                    {Object.entries(parameters.needsUpdateRules || {})
+                      .filter(([contentTypeId]) => contentTypes.some(ct => ct.id === contentTypeId))
+                      .map(([contentTypeId, rule]) => {
+                        const contentType = contentTypes.find(ct => ct.id === contentTypeId)!;
+                        return (
+                          <Table.Row key={contentTypeId}>
+                            <Table.Cell>{contentType.name}</Table.Cell>
+                            <Table.Cell>
+                              <Select
+                                id={`needs-update-months-${contentTypeId}`}
+                                name={`needs-update-months-${contentTypeId}`}
+                                value={rule.months === null ? 'never' : rule.months.toString()}
+                                onChange={(e) => handleNeedsUpdateRuleChange(contentTypeId, {
+                                  ...rule,
+                                  months: e.target.value === 'never' ? null : parseInt(e.target.value, 10)
+                                })}
+                              >
+                                {NEEDS_UPDATE_MONTH_OPTIONS.map(months => (
+                                  <Select.Option key={months} value={months.toString()}>{months} {months === 1 ? 'month' : 'months'}</Select.Option>
+                                ))}
+                                <Select.Option value="never">Never stale</Select.Option>
+                              </Select>
+                            </Table.Cell>
+                            <Table.Cell>
+                              <Select
+                                id={`needs-update-field-${contentTypeId}`}
+                                name={`needs-update-field-${contentTypeId}`}
+                                value={rule.dateField || ''}
+                                isDisabled={rule.months === null}
+                                onChange={(e) => handleNeedsUpdateRuleChange(contentTypeId, {
+                                  months: rule.months,
+                                  ...(e.target.value ? { dateField: e.target.value } : {})
+                                })}
+                              >
+                                <Select.Option value="">Last update</Select.Option>
+                                {contentType.dateFields.map(field => (
+                                  <Select.Option key={field.id} value={field.id}>{field.name} ({field.id})</Select.Option>
+                                ))}
+                              </Select>
+                            </Table.Cell>
+                            <Table.Cell>
+                              <Button size="small" variant="transparent" onClick={() => handleNeedsUpdateRuleChange(contentTypeId, null)}>
+                                Remove
+                              </Button>
+                            </Table.Cell>
+                          </Table.Row>
+                        );
+                      })}
+                  </Table.Body>
+                </Table>
+              )}
+              <Select
+                id="needs-update-add-rule"
+                name="needs-update-add-rule"
+                value=""
+                onChange={(e) => e.target.value && handleNeedsUpdateRuleChange(e.target.value, {
+                  months: parameters.needsUpdateMonths || 6
+                })}
+              >
+                <Select.Option value="">Add a content type...</Select.Option>
+                {contentTypes
+                  .filter(ct => !(parameters.needsUpdateRules || {})[ct.id])
+                  .map(ct => (
+                    <Select.Option key={ct.id} value={ct.id}>{ct.name} ({ct.id})</Select.Option>
+                  ))}
+              </Select>
+              <FormControl.HelpText>
+                Override the threshold for content types reviewed on their own schedule, or mark them as never stale. Pick a date field, such as a review date, to measure from it instead of the last update.
+              </FormControl.HelpText>
+            </FormControl>
+
             <FormControl marginBottom="spacingL">
               <FormControl.Label>Default Time Range for Content Trends</FormControl.Label>
               <Select
@@ -329,6 +522,39 @@ const ConfigScreen = () => {
               </FormControl.HelpText>
             </FormControl>
 
+            <FormControl marginBottom="spacingL">
+              <FormControl.Label>Time to Publish Card Statistic</FormControl.Label>
+              <Select
+                id="time-to-publish-statistic"
+                name="time-to-publish-statistic"
+                value={parameters.timeToPublishStatistic || "mean"}
+                onChange={(e) => handleTimeToPublishStatisticChange(e.target.value)}
+              >
+                <Select.Option value="mean">Average (mean)</Select.Option>
+                <Select.Option value="median">Median</Select.Option>
+              </Select>
+              <FormControl.HelpText>
+                The median is not pulled up by a few old drafts that were finally published.
+              </FormControl.HelpText>
+            </FormControl>
+
+            <FormControl marginBottom="spacingL">
+              <FormControl.Label>Reporting Timezone</FormControl.Label>
+              <Select
+                id="reporting-time-zone"
+                name="reporting-time-zone"
+                value={parameters.reportingTimeZone || DEFAULT_REPORTING_TIME_ZONE}
+                onChange={(e) => handleReportingTimeZoneChange(e.target.value)}
+              >
+                {timeZones.map(timeZone => (
+                  <Select.Option key={timeZone} value={timeZone}>{timeZone}</Select.Option>
+                ))}
+              </Select>
+              <FormControl.HelpText>
+                Month buckets, &quot;recently published&quot; windows and &quot;needs update&quot; cutoffs are calculated in this timezone so everyone sees the same numbers. Defaults to UTC.
+              </FormControl.HelpText>
+            </FormControl>
+
             <FormControl marginBottom="spacingL">
               <Switch
                 id="show-upcoming-releases"
@@ -390,6 +616,186 @@ const ConfigScreen = () => {
                 Select content types to display in the publication trends chart. If none are selected, all content types will be shown.
               </FormControl.HelpText>
             </FormControl>
+
+            <FormControl marginBottom="spacingL">
+              <FormControl.Label>Credit Content To</FormControl.Label>
+              <Select
+                id="attribution-mode"
+                name="attribution-mode"
+                value={parameters.attributionMode || "createdBy"}
+                onChange={(e) => handleAttributionModeChange(e.target.value)}
+              >
+                {ATTRIBUTION_MODES.map(mode => (
+                  <Select.Option key={mode} value={mode}>
+                    {mode === 'ownerField' ? 'Owner field per content type' : ATTRIBUTION_MODE_LABELS[mode]}
+                  </Select.Option>
+                ))}
+              </Select>
+              <FormControl.HelpText>
+                Who the By Creator charts and the Creator column credit each entry to. Drafts have no publisher and are credited to their creator.
+              </FormControl.HelpText>
+            </FormControl>
+
+            {parameters.attributionMode === 'ownerField' && (
+              <FormControl marginBottom="spacingL">
+                <FormControl.Label>Owner Field per Content Type</FormControl.Label>
+                {Object.keys(parameters.ownerFields || {}).length > 0 && (
+                  <Table className={css({ marginBottom: '8px' })}>
+                    <Table.Head>
+                      <Table.Row>
+                        <Table.Cell>Content type</Table.Cell>
+                        <Table.Cell>Owner field</Table.Cell>
+                        <Table.Cell />
+                      </Table.Row>
+                    </Table.Head>
+                    <Table.Body>
+                      {Object.entries(parameters.ownerFields || {})
+                        .filter(([contentTypeId]) => contentTypes.some(ct => ct.id === contentTypeId))
+                        .map(([contentTypeId, fieldId]) => {
+                          const contentType = contentTypes.find(ct => ct.id === contentTypeId)!;
+                          return (
+                            <Table.Row key={contentTypeId}>
+                              <Table.Cell>{contentType.name}</Table.Cell>
+                              <Table.Cell>
+                                <Select
+                                  id={`owner-field-${contentTypeId}`}
+                                  name={`owner-field-${contentTypeId}`}
+                                  value={fieldId}
+                                  onChange={(e) => handleOwnerFieldChange(contentTypeId, e.target.value)}
+                                >
+                                  {contentType.ownerCandidateFields.map(field => (
+                                    <Select.Option key={field.id} value={field.id}>{field.name} ({field.id})</Select.Option>
+                                  ))}
+                                </Select>
+                              </Table.Cell>
+                              <Table.Cell>
+                                <Button size="small" variant="transparent" onClick={() => handleOwnerFieldChange(contentTypeId, null)}>
+                                  Remove
+                                </Button>
+                              </Table.Cell>
+                            </Table.Row>
+                          );
+                        })}
+                    </Table.Body>
+                  </Table>
+                )}
+                <Select
+                  id="owner-field-add"
+                  name="owner-field-add"
+                  value=""
+                  onChange={(e) => {
+                    const contentType = contentTypes.find(ct => ct.id === e.target.value);
+                    if (contentType) handleOwnerFieldChange(contentType.id, contentType.ownerCandidateFields[0].id);
+                  }}
+                >
+                  <Select.Option value="">Add a content type...</Select.Option>
+                  {contentTypes
+                    .filter(ct => ct.ownerCandidateFields.length > 0 && !(parameters.ownerFields || {})[ct.id])
+                    .map(ct => (
+                      <Select.Option key={ct.id} value={ct.id}>{ct.name} ({ct.id})</Select.Option>
+                    ))}
+                </Select>
+                <FormControl.HelpText>
+                  A text field names the owner directly; a reference to an entry, such as an author profile, uses that entry&apos;s title. Content types not listed here are credited to their creator, and entries with an empty owner field to nobody.
+                </FormControl.HelpText>
+              </FormControl>
+            )}
+
+            <FormControl marginBottom="spacingL">
+              <FormControl.Label>Status Field per Content Type</FormControl.Label>
+              {Object.keys(parameters.stageFields || {}).length > 0 && (
+                <Table className={css({ marginBottom: '8px' })}>
+                  <Table.Head>
+                    <Table.Row>
+                      <Table.Cell>Content type</Table.Cell>
+                      <Table.Cell>Status field</Table.Cell>
+                      <Table.Cell />
+                    </Table.Row>
+                  </Table.Head>
+                  <Table.Body>
+                    {Object.entries(parameters.stageFields || {})
+                      .filter(([contentTypeId]) => contentTypes.some(ct => ct.id === contentTypeId))
+                      .map(([contentTypeId, fieldId]) => {
+                        const contentType = contentTypes.find(ct => ct.id === contentTypeId)!;
+                        return (
+                          <Table.Row key={contentTypeId}>
+                            <Table.Cell>{contentType.name}</Table.Cell>
+                            <Table.Cell>
+                              <Select
+                                id={`stage-field-${contentTypeId}`}
+                                name={`stage-field-${contentTypeId}`}
+                                value={fieldId}
+                                onChange={(e) => handleStageFieldChange(contentTypeId, e.target.value)}
+                              >
+                                {contentType.statusFields.map(field => (
+                                  <Select.Option key={field.id} value={field.id}>{field.name} ({field.id})</Select.Option>
+                                ))}
+                              </Select>
+                            </Table.Cell>
+                            <Table.Cell>
+                              <Button size="small" variant="transparent" onClick={() => handleStageFieldChange(contentTypeId, null)}>
+                                Remove
+                              </Button>
+                            </Table.Cell>
+                          </Table.Row>
+                        );
+                      })}
+                  </Table.Body>
+                </Table>
+              )}
+              <Select
+                id="stage-field-add"
+                name="stage-field-add"
+                value=""
+                onChange={(e) => {
+                  const contentType = contentTypes.find(ct => ct.id === e.target.value);
+                  if (contentType) handleStageFieldChange(contentType.id, contentType.statusFields[0].id);
+                }}
+              >
+                <Select.Option value="">Add a content type...</Select.Option>
+                {contentTypes
+                  .filter(ct => ct.statusFields.length > 0 && !(parameters.stageFields || {})[ct.id])
+                  .map(ct => (
+                    <Select.Option key={ct.id} value={ct.id}>{ct.name} ({ct.id})</Select.Option>
+                  ))}
+              </Select>
+              <FormControl.HelpText>
+                Entries in a Contentful Workflow are reported at their workflow step. For other entries, the value of this short text field is used as their stage.
+              </FormControl.HelpText>
+            </FormControl>
+
+            <FormControl marginBottom="spacingL">
+              <FormControl.Label>Root Content Types</FormControl.Label>
+              <Multiselect
+                currentSelection={parameters.orphanRootContentTypes?.filter(id =>
+                  contentTypes.some(ct => ct.id === id)
+                ) || []}
+                popoverProps={{
+                  isFullWidth: true,
+                  listMaxHeight: 300
+                }}
+                searchProps={{
+                  searchPlaceholder: 'Search content types...',
+                  onSearchValueChange: handleSearchValueChange
+                }}
+                noMatchesMessage="No content types match your search"
+                placeholder="Select root content types"
+              >
+                {filteredContentTypes.map(contentType => (
+                  <Multiselect.Option
+                    key={`root-${contentType.id}`}
+                    itemId={`root-${contentType.id}`}
+                    value={contentType.id}
+                    label={`${contentType.name} (${contentType.id})`}
+                    onSelectItem={handleOrphanRootContentTypeSelection}
+                    isChecked={(parameters.orphanRootContentTypes || []).includes(contentType.id)}
+                  />
+                ))}
+              </Multiselect>
+              <FormControl.HelpText>
+                Entries of these types, such as pages, are not expected to be linked from other entries and are left out of the orphaned entries report.
+              </FormControl.HelpText>
+            </FormControl>
           </>
         )}
         </Form>
@@ -1,14 +1,83 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { HomeAppSDK } from '@contentful/app-sdk';
 import { useCMA, useSDK } from '@contentful/react-apps-toolkit';
-import { CalendarDays, Clock, Edit, FileText, GitBranchPlus, RefreshCw, Timer } from "lucide-react"
+import { CalendarDays, Clock, Edit, FileText, GitBranchPlus, RefreshCw, Timer, Unlink } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { ContentTable } from "@/components/content-table"
 import ContentTrendsTabs from "@/components/content-trends-tabs"
-import { getContentStatsPaginated, fetchEntriesByType, fetchChartData, calculateAverageTimeToPublish, fetchContentTypeChartData } from '../../utils/contentful';
-import { EntryProps } from 'contentful-management';
+import TrendDrillDownPanel from "@/components/trend-drilldown-panel"
+import KpiEntryListDialog from "@/components/kpi-entry-list-dialog"
+import TimeToPublishReport from "@/components/time-to-publish-report"
+import DraftBacklogReport from "@/components/draft-backlog-report"
+import KpiSparkline from "@/components/kpi-sparkline"
+import AssetAnalytics from "@/components/asset-analytics"
+import TagFilter from "@/components/tag-filter"
+import BrokenReferencesReport from "@/components/broken-references-report"
+import OrphanedEntriesReport from "@/components/orphaned-entries-report"
+import { MarkReviewedDialog, ReviewHistoryDialog } from "@/components/entry-review-dialogs"
+import { EntryTaskActions } from "@/components/entry-tasks"
+import PersonalDashboard from "@/components/personal-dashboard"
+import WorkflowStageReport from "@/components/workflow-stage-report"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { fetchEntriesByType } from '../../utils/contentful';
+import {
+  aggregateDashboardMetrics,
+  AggregationOptions,
+  createEmptyDraftBacklogReport,
+  createEmptyTimeToPublishReport,
+  createEmptyTrends,
+  DRAFT_AGE_BUCKETS,
+  DraftBacklogReport as DraftBacklogReportData,
+  findEntriesInBucket,
+  getTrendsStartForRange,
+  Granularity,
+  PublishingTrends,
+  TimeToPublishReport as TimeToPublishReportData,
+  TimeToPublishStatistic,
+  TrendBucketSelection,
+  TrendRangeSelection
+} from '../../utils/aggregation';
+import { AssetMetrics, fetchAssetMetrics } from '../../utils/asset-analytics';
+import { BrokenReference, fetchBrokenReferences } from '../../utils/broken-references';
+import { findOrphanedEntries, OrphanedEntry } from '../../utils/orphaned-entries';
+import { clearLinkScan, getLinkedIds, loadLinkScan } from '../../utils/link-scan';
+import { describeNeedsUpdateThreshold, getNeedsUpdateRule, NeedsUpdateRules } from '../../utils/needs-update';
+import {
+  fetchEntryReviews,
+  getNextReviewDue,
+  loadReviewCache,
+  markEntryReviewed,
+  ReviewCache,
+  saveReviewCache
+} from '../../utils/reviews';
+import { createEntryTasks, fetchOpenTasks } from '../../utils/tasks';
+import { fetchStageReport, StageFields, StageReport } from '../../utils/workflow-stages';
+import {
+  ATTRIBUTION_MODE_LABELS,
+  Attribution,
+  AttributionMode,
+  EntryOwner,
+  fetchEntryOwners,
+  OwnerFields
+} from '../../utils/attribution';
+import { fetchMyContent, fetchMyTasks, MyContent, MyTasks, PERSONAL_VIEW_LABELS, PersonalView } from '../../utils/personal-view';
+import { createDashboardFilter, DashboardFilter, toEntryQuery } from '../../utils/dashboard-filter';
+import { createCmaDataSource, DashboardDataSource } from '../../utils/data-source';
+import { syncEntryIndex } from '../../utils/entry-index';
+import { DEFAULT_REPORTING_TIME_ZONE } from '../../utils/timezone';
+import {
+  DraftListSelection,
+  fetchDraftListPage,
+  fetchKpiListPage,
+  getKpiListQuery,
+  KpiListKind,
+  KpiListOptions,
+  withoutReviewedItems
+} from '../../utils/kpi-lists';
+import { createScheduledDataSource, isRequestCancelled, requestScheduler } from '../../utils/request-scheduler';
+import { CollectionProp, ContentTypeProps, EntryProps, TagProps, UserProps } from 'contentful-management';
 import { ContentEntryTabs } from '@/components/ContentEntryTabs';
-import { formatPercentageChange } from "../../utils/calculations"
+import { calculatePercentageChange, formatPercentageChange } from "../../utils/calculations"
 
 interface ScheduledRelease {
   id: string;
@@ -24,22 +93,33 @@ interface UserCache {
   [key: string]: string;  // userId -> user's full name
 }
 
-interface ContentType {
-  sys: {
-    id: string;
-  };
-}
-
 // Cache constants
 const DASHBOARD_CACHE_KEY = 'contentDashboard_cachedData';
 const DASHBOARD_CACHE_TIMESTAMP_KEY = 'contentDashboard_cacheTimestamp';
 const CACHE_DURATION = 30 * 60 * 1000; // 30 minutes in milliseconds (increased from 10 minutes to reduce API calls)
+// Last trends range each user picked, remembered across visits
+const TREND_RANGE_STORAGE_PREFIX = 'contentDashboard_trendRange_';
+// Tags each user filters the dashboard by
+const TAG_FILTER_STORAGE_PREFIX = 'contentDashboard_tagFilter_';
+const PERSONAL_VIEW_STORAGE_PREFIX = 'contentDashboard_personalView_';
+// Entries loaded at a time into the chart drill-down panel
+const DRILL_DOWN_PAGE_SIZE = 25;
 
 interface CachedData<T> {
   data: T;
   timestamp: number;
 }
 
+interface DashboardSettings {
+  attributionMode: AttributionMode;
+  ownerFields: OwnerFields;
+  reportingTimeZone: string;
+  needsUpdateMonths: number;
+  needsUpdateRules: NeedsUpdateRules;
+  recentlyPublishedDays: number;
+  timeToPublishDays: number;
+}
+
 interface DashboardData {
   stats: {
     totalPublished: number;
@@ -49,21 +129,31 @@ interface DashboardData {
     needsUpdateCount: number;
     previousMonthPublished: number;
     averageTimeToPublish: number;
+    medianTimeToPublish: number;
+    pendingChangesCount: number;
+    previousMonthTotalPublished: number;
+    archivedCount: number;
+    unpublishedCount: number;
+    averageLifespan: number;
   };
-  chartData: Array<{ date: string; count: number }>;
+  trends: Record<Granularity, PublishingTrends>;
+  timeToPublish: TimeToPublishReportData;
+  draftBacklog: DraftBacklogReportData;
+  // Filter the data was computed for; a cache for another filter is not reused
+  filter?: DashboardFilter;
+  // Tag ID -> display name
+  tagNames: Record<string, string>;
+  // Start of the custom range the daily and weekly trends were extended to, if any
+  trendsStart?: string;
+  // Configuration the data was computed with; a cache computed with other settings is not reused
+  settings?: DashboardSettings;
+  // Entry ID -> owner read from the owner fields
+  entryOwners?: Record<string, EntryOwner>;
   scheduledReleases: ScheduledRelease[];
   userCache: UserCache;
   scheduledContent: EntryProps[];
   recentlyPublishedContent: EntryProps[];
   needsUpdateContent: EntryProps[];
-  contentTypeChartData: {
-    contentTypeData: Array<{ date: string; [key: string]: string | number }>;
-    contentTypes: string[];
-  };
-  authorChartData: {
-    authorData: Array<{ date: string; [key: string]: string | number }>;
-    authors: string[];
-  };
 }
 
 // Add before the Home component
@@ -103,7 +193,7 @@ const loadDashboardDataFromCache = (): { data: DashboardData | null; isValid: bo
     
     // Validate cached data structure to prevent component loading errors
     if (!data || typeof data !== 'object' || 
-        !data.stats || !Array.isArray(data.chartData) || 
+        !data.stats || !data.trends || typeof data.trends !== 'object' || !data.trends.month?.activity || !data.trends.month?.lifecycle || !data.timeToPublish || !data.draftBacklog || !data.tagNames || 
         !Array.isArray(data.scheduledReleases) || 
         !data.userCache || typeof data.userCache !== 'object') {
       console.warn('Invalid cached data structure detected, clearing cache');
@@ -128,6 +218,94 @@ const clearDashboardCache = () => {
   }
 };
 
+const loadSavedTrendRange = (userId: string): TrendRangeSelection | null => {
+  try {
+    const stored = localStorage.getItem(`${TREND_RANGE_STORAGE_PREFIX}${userId}`);
+    return stored ? (JSON.parse(stored) as TrendRangeSelection) : null;
+  } catch (error) {
+    console.warn('Failed to load saved trend range:', error);
+    return null;
+  }
+};
+
+const saveTrendRange = (userId: string, range: TrendRangeSelection) => {
+  try {
+    localStorage.setItem(`${TREND_RANGE_STORAGE_PREFIX}${userId}`, JSON.stringify(range));
+  } catch (error) {
+    console.warn('Failed to save trend range:', error);
+  }
+};
+
+const loadSavedTagFilter = (userId: string): string[] => {
+  try {
+    const stored = localStorage.getItem(`${TAG_FILTER_STORAGE_PREFIX}${userId}`);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch (error) {
+    console.warn('Failed to load saved tag filter:', error);
+    return [];
+  }
+};
+
+const saveTagFilter = (userId: string, tags: string[]) => {
+  try {
+    localStorage.setItem(`${TAG_FILTER_STORAGE_PREFIX}${userId}`, JSON.stringify(tags));
+  } catch (error) {
+    console.warn('Failed to save tag filter:', error);
+  }
+};
+
+const loadSavedPersonalView = (userId: string): PersonalView => {
+  try {
+    const stored = localStorage.getItem(`${PERSONAL_VIEW_STORAGE_PREFIX}${userId}`);
+    return stored && stored in PERSONAL_VIEW_LABELS ? (stored as PersonalView) : 'space';
+  } catch (error) {
+    console.warn('Failed to load saved personal view:', error);
+    return 'space';
+  }
+};
+
+const savePersonalView = (userId: string, view: PersonalView) => {
+  try {
+    localStorage.setItem(`${PERSONAL_VIEW_STORAGE_PREFIX}${userId}`, view);
+  } catch (error) {
+    console.warn('Failed to save personal view:', error);
+  }
+};
+
+// Display names the aggregation uses as series names
+const getUserNames = (users: CollectionProp<UserProps>): Record<string, string> =>
+  Object.fromEntries(
+    users.items.map(user => [
+      user.sys.id,
+      user.firstName && user.lastName
+        ? `${user.firstName} ${user.lastName}`
+        : user.email || user.sys.id
+    ])
+  );
+
+const getContentTypeNames = (contentTypes: CollectionProp<ContentTypeProps>): Record<string, string> =>
+  Object.fromEntries(contentTypes.items.map(contentType => [contentType.sys.id, contentType.name]));
+
+const getTagNames = (tags: CollectionProp<TagProps>): Record<string, string> =>
+  Object.fromEntries(tags.items.map(tag => [tag.sys.id, tag.name]));
+
+// Tags are optional for the dashboard, so a space without access to them shows no tag names
+const fetchTagNames = (dataSource: DashboardDataSource) =>
+  dataSource.getTags().then(getTagNames, error => {
+    if (isRequestCancelled(error)) throw error;
+    console.warn('Failed to load tags:', error);
+    return {} as Record<string, string>;
+  });
+
+interface TrendDrillDown {
+  selection: TrendBucketSelection;
+  // Every entry in the bucket, newest first; full entries are loaded a page at a time
+  entryIds: string[];
+  entries: EntryProps[];
+  isLoading: boolean;
+  error: string | null;
+}
+
 interface DashboardAppInstallationParameters {
   trackedContentTypes: string[];
   needsUpdateMonths: number;
@@ -135,11 +313,34 @@ interface DashboardAppInstallationParameters {
   recentlyPublishedDays: number;
   showUpcomingReleases: boolean;
   timeToPublishDays: number;
+  timeToPublishStatistic?: TimeToPublishStatistic;
+  reportingTimeZone?: string;
+  orphanRootContentTypes?: string[];
+  needsUpdateRules?: NeedsUpdateRules;
+  stageFields?: StageFields;
+  attributionMode?: AttributionMode;
+  ownerFields?: OwnerFields;
 }
 
 const Home = () => {
   const sdk = useSDK<HomeAppSDK>();
   const cma = useCMA();
+  const cmaDataSource = useMemo(
+    () => createCmaDataSource(cma, sdk.ids.space, sdk.ids.environment),
+    [cma, sdk.ids.space, sdk.ids.environment]
+  );
+  const dataSource = useMemo(
+    () => createScheduledDataSource(cmaDataSource, requestScheduler),
+    [cmaDataSource]
+  );
+  const taskActions = useMemo<EntryTaskActions>(
+    () => ({
+      loadOpenTasks: (entryIds) => fetchOpenTasks(dataSource, entryIds),
+      createTasks: (entryIds, draft) => createEntryTasks(dataSource, entryIds, draft),
+      loadAssignees: async () => getUserNames(await dataSource.getUsers())
+    }),
+    [dataSource]
+  );
   const [stats, setStats] = useState({
     totalPublished: 0,
     percentChange: 0,
@@ -148,8 +349,16 @@ const Home = () => {
     needsUpdateCount: 0,
     previousMonthPublished: 0,
     averageTimeToPublish: 0,
+    medianTimeToPublish: 0,
+    pendingChangesCount: 0,
+    previousMonthTotalPublished: 0,
+    archivedCount: 0,
+    unpublishedCount: 0,
+    averageLifespan: 0,
   });
-  const [chartData, setChartData] = useState<Array<{ date: string; count: number }>>([]);
+  const [timeToPublish, setTimeToPublish] = useState<TimeToPublishReportData>(createEmptyTimeToPublishReport);
+  const [draftBacklog, setDraftBacklog] = useState<DraftBacklogReportData>(createEmptyDraftBacklogReport);
+  const [trends, setTrends] = useState<Record<Granularity, PublishingTrends>>(createEmptyTrends);
   const [scheduledReleases, setScheduledReleases] = useState<ScheduledRelease[]>([]);
   const [userCache, setUserCache] = useState<UserCache>({});
   
@@ -159,15 +368,94 @@ const Home = () => {
   const [needsUpdateContent, setNeedsUpdateContent] = useState<EntryProps[]>([]);
   const [trackedContentTypes, setTrackedContentTypes] = useState<string[]>([]);
   const [needsUpdateMonths, setNeedsUpdateMonths] = useState<number>(6);
+  const [needsUpdateRules, setNeedsUpdateRules] = useState<NeedsUpdateRules>({});
   const [recentlyPublishedDays, setRecentlyPublishedDays] = useState<number>(7);
+  const [selectedTags, setSelectedTags] = useState<string[]>(() => loadSavedTagFilter(sdk.user.sys.id));
+  const [tagNames, setTagNames] = useState<Record<string, string>>({});
+  const [personalView, setPersonalView] = useState<PersonalView>(() => loadSavedPersonalView(sdk.user.sys.id));
+  const [myContent, setMyContent] = useState<MyContent | null>(null);
+  const [myTasks, setMyTasks] = useState<MyTasks | null>(null);
+  // Entries checked so far, and to check, while My tasks reads entry tasks
+  const [myTasksProgress, setMyTasksProgress] = useState<{ checkedCount: number; limitedCount: number } | null>(null);
+  const [isPersonalViewLoading, setIsPersonalViewLoading] = useState<boolean>(false);
+  const [personalViewError, setPersonalViewError] = useState<string | null>(null);
+  // Every KPI, chart and list below describes the entries matching this filter
+  const dashboardFilter = useMemo(
+    () => createDashboardFilter({ contentTypes: trackedContentTypes, tags: selectedTags }),
+    [trackedContentTypes, selectedTags]
+  );
   const [showUpcomingReleases, setShowUpcomingReleases] = useState<boolean>(true);
   const [timeToPublishDays, setTimeToPublishDays] = useState<number>(30);
+  const [timeToPublishStatistic, setTimeToPublishStatistic] = useState<TimeToPublishStatistic>('mean');
+  const [reportingTimeZone, setReportingTimeZone] = useState<string>(DEFAULT_REPORTING_TIME_ZONE);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [defaultTimeRange, setDefaultTimeRange] = useState<'all' | 'year' | '6months'>('year');
+  const [savedTrendRange, setSavedTrendRange] = useState<TrendRangeSelection | null>(
+    () => loadSavedTrendRange(sdk.user.sys.id)
+  );
+  const trendRange = savedTrendRange || { timeRange: defaultTimeRange };
+  // Daily and weekly trends cover recent history only, unless a custom range reaches further back
+  const trendsStart = getTrendsStartForRange(trendRange, new Date(), reportingTimeZone);
+  // Read by the load, which does not re-run when only the trend range changes
+  const trendsStartRef = useRef(trendsStart);
+  trendsStartRef.current = trendsStart;
+  // Entries and name lookups of the last load, so a new trend range only re-runs the aggregation
+  const aggregationInputsRef = useRef<{ entries: EntryProps[]; options: AggregationOptions } | null>(null);
+  // Trend range the shown trends were computed for
+  const aggregatedTrendsStartRef = useRef(trendsStart);
   const [hasLoadedData, setHasLoadedData] = useState<boolean>(false);
   const [forceRefresh, setForceRefresh] = useState<boolean>(false);
+  // Incremented on every Refresh click so a click during loading restarts the load
+  const [refreshCount, setRefreshCount] = useState<number>(0);
   const [configLoaded, setConfigLoaded] = useState<boolean>(false);
+  const [openKpiList, setOpenKpiList] = useState<KpiListKind | null>(null);
+  const [openDraftList, setOpenDraftList] = useState<DraftListSelection | null>(null);
+  // Needs Update entry whose review dialog is open
+  const [reviewingEntryId, setReviewingEntryId] = useState<string | null>(null);
+  const [reviewHistoryEntryId, setReviewHistoryEntryId] = useState<string | null>(null);
+  const [assetMetrics, setAssetMetrics] = useState<AssetMetrics | null>(null);
+  const [isAssetMetricsLoading, setIsAssetMetricsLoading] = useState<boolean>(false);
+  const [assetMetricsError, setAssetMetricsError] = useState<string | null>(null);
+  const [brokenReferences, setBrokenReferences] = useState<BrokenReference[] | null>(null);
+  const [isBrokenReferencesLoading, setIsBrokenReferencesLoading] = useState<boolean>(false);
+  const [brokenReferencesError, setBrokenReferencesError] = useState<string | null>(null);
+  const brokenReferencesRef = useRef<HTMLDivElement>(null);
+  const [orphans, setOrphans] = useState<OrphanedEntry[] | null>(null);
+  const [isOrphansLoading, setIsOrphansLoading] = useState<boolean>(false);
+  const [orphansError, setOrphansError] = useState<string | null>(null);
+  // Starts from the configured root types; changes only last for the session
+  const [excludedOrphanTypes, setExcludedOrphanTypes] = useState<string[]>([]);
+  const [stageFields, setStageFields] = useState<StageFields>({});
+  const [stageReport, setStageReport] = useState<StageReport | null>(null);
+  const [isStageReportLoading, setIsStageReportLoading] = useState<boolean>(false);
+  const [stageReportError, setStageReportError] = useState<string | null>(null);
+  const [attributionMode, setAttributionMode] = useState<AttributionMode>('createdBy');
+  const [ownerFields, setOwnerFields] = useState<OwnerFields>({});
+  // Loaded with the metrics when entries are credited to an owner field
+  const [entryOwners, setEntryOwners] = useState<Record<string, EntryOwner>>({});
+  const attribution = useMemo<Attribution>(
+    () => ({ mode: attributionMode, ownerFields, owners: entryOwners }),
+    [attributionMode, ownerFields, entryOwners]
+  );
+  // Filled in by every Needs Update list and kept across visits
+  const [reviewCache] = useState<ReviewCache>(() => loadReviewCache(sdk.ids.space, sdk.ids.environment));
+  // Filter and cutoffs shared by the KPI numbers, the entry lists and the KPI drill-down lists
+  const kpiListOptions = useMemo<KpiListOptions>(
+    () => ({
+      filter: dashboardFilter,
+      timeZone: reportingTimeZone,
+      recentlyPublishedDays,
+      needsUpdateMonths,
+      needsUpdateRules,
+      timeToPublishDays,
+      reviewCache
+    }),
+    [dashboardFilter, reportingTimeZone, recentlyPublishedDays, needsUpdateMonths, needsUpdateRules, timeToPublishDays, reviewCache]
+  );
+  const [trendDrillDown, setTrendDrillDown] = useState<TrendDrillDown | null>(null);
+  // Bumped per drill-down so responses for an earlier click are dropped
+  const drillDownRequestRef = useRef<number>(0);
 
   // Add loading timer state
   const [loadingTime, setLoadingTime] = useState<number>(0);
@@ -175,45 +463,42 @@ const Home = () => {
 
   // Effect to load app installation parameters
   useEffect(() => {
-    const loadAppParameters = async () => {
-      try {
-        // Try to get parameters from localStorage first
-        const storedConfig = localStorage.getItem('contentDashboardConfig');
-        if (storedConfig) {
-          const parsedConfig = JSON.parse(storedConfig) as DashboardAppInstallationParameters;
-          setTrackedContentTypes(parsedConfig.trackedContentTypes || []);
-          setNeedsUpdateMonths(parsedConfig.needsUpdateMonths || 6);
-          setRecentlyPublishedDays(parsedConfig.recentlyPublishedDays || 7);
-          setShowUpcomingReleases(parsedConfig.showUpcomingReleases ?? true);
-          setTimeToPublishDays(parsedConfig.timeToPublishDays || 30);
-          setDefaultTimeRange(parsedConfig.defaultTimeRange || 'year');
-          setConfigLoaded(true);
-          return;
+    const loadAppParameters = () => {
+      // Installation parameters are shared by everyone in the space; the copy the config
+      // screen keeps in localStorage is only read for installations saved without them
+      let config: Partial<DashboardAppInstallationParameters> = {};
+      const installation = sdk.parameters?.installation as Partial<DashboardAppInstallationParameters> | undefined;
+      if (installation && Object.keys(installation).length > 0) {
+        config = installation;
+      } else {
+        try {
+          const storedConfig = localStorage.getItem('contentDashboardConfig');
+          if (storedConfig) {
+            config = JSON.parse(storedConfig) as DashboardAppInstallationParameters;
+          }
+        } catch (error) {
+          console.error('Error loading app parameters:', error);
         }
-
-        // If not in localStorage, use default values
-        setTrackedContentTypes([]);
-        setNeedsUpdateMonths(6);
-        setRecentlyPublishedDays(7);
-        setShowUpcomingReleases(true);
-        setTimeToPublishDays(30);
-        setDefaultTimeRange('year');
-        setConfigLoaded(true);
-      } catch (error) {
-        console.error('Error loading app parameters:', error);
-        // Use defaults if loading fails
-        setTrackedContentTypes([]);
-        setNeedsUpdateMonths(6);
-        setRecentlyPublishedDays(7);
-        setShowUpcomingReleases(true);
-        setTimeToPublishDays(30);
-        setDefaultTimeRange('year');
-        setConfigLoaded(true);
       }
+
+      setTrackedContentTypes(config.trackedContentTypes || []);
+      setNeedsUpdateMonths(config.needsUpdateMonths || 6);
+      setNeedsUpdateRules(config.needsUpdateRules || {});
+      setRecentlyPublishedDays(config.recentlyPublishedDays || 7);
+      setShowUpcomingReleases(config.showUpcomingReleases ?? true);
+      setTimeToPublishDays(config.timeToPublishDays || 30);
+      setTimeToPublishStatistic(config.timeToPublishStatistic || 'mean');
+      setReportingTimeZone(config.reportingTimeZone || DEFAULT_REPORTING_TIME_ZONE);
+      setDefaultTimeRange(config.defaultTimeRange || 'year');
+      setExcludedOrphanTypes(config.orphanRootContentTypes || []);
+      setStageFields(config.stageFields || {});
+      setAttributionMode(config.attributionMode || 'createdBy');
+      setOwnerFields(config.ownerFields || {});
+      setConfigLoaded(true);
     };
 
     loadAppParameters();
-  }, []);
+  }, [sdk.parameters]);
 
   // Start loading timer when loading begins
   useEffect(() => {
@@ -264,9 +549,7 @@ const Home = () => {
     } else {
       // Fetch all users only once and cache them
       try {
-        const usersResponse = await cma.user.getManyForSpace({
-          spaceId: sdk.ids.space
-        });
+        const usersResponse = await dataSource.getUsers();
         allUsers = usersResponse.items;
         
         // Cache all users for this space
@@ -314,7 +597,7 @@ const Home = () => {
     }));
 
     return fullName;
-  }, [cma, sdk.ids.space, allUsersCache]);
+  }, [dataSource, sdk.ids.space, allUsersCache]);
 
   // Add a function to fetch content types with caching
   const getContentTypes = useCallback(async () => {
@@ -325,10 +608,7 @@ const Home = () => {
       return cachedTypes.data;
     }
 
-    const contentTypesResponse = await cma.contentType.getMany({
-      spaceId: sdk.ids.space,
-      environmentId: sdk.ids.environment
-    });
+    const contentTypesResponse = await dataSource.getContentTypes();
 
     cache.contentTypes.set(cacheKey, {
       data: contentTypesResponse,
@@ -336,78 +616,7 @@ const Home = () => {
     });
 
     return contentTypesResponse;
-  }, [cma, sdk.ids.space, sdk.ids.environment]);
-
-  // Update the fetchAppInstallationParameters function to use cached content types
-  const fetchAppInstallationParameters = useCallback(async () => {
-    try {
-      const storedConfig = localStorage.getItem('contentDashboardConfig');
-      
-      if (storedConfig) {
-        try {
-          const parsedConfig = JSON.parse(storedConfig) as DashboardAppInstallationParameters;
-          
-          if (parsedConfig.trackedContentTypes && Array.isArray(parsedConfig.trackedContentTypes)) {
-            setTrackedContentTypes(parsedConfig.trackedContentTypes);
-          }
-          
-          if (parsedConfig.needsUpdateMonths && parsedConfig.needsUpdateMonths > 0) {
-            setNeedsUpdateMonths(parsedConfig.needsUpdateMonths);
-          }
-          
-          if (parsedConfig.recentlyPublishedDays && parsedConfig.recentlyPublishedDays > 0) {
-            setRecentlyPublishedDays(parsedConfig.recentlyPublishedDays);
-          }
-          
-          if (parsedConfig.showUpcomingReleases !== undefined) {
-            setShowUpcomingReleases(parsedConfig.showUpcomingReleases);
-          }
-
-          if (parsedConfig.timeToPublishDays && parsedConfig.timeToPublishDays > 0) {
-            setTimeToPublishDays(parsedConfig.timeToPublishDays);
-          }
-          
-          return;
-        } catch (e) {
-          console.error('Error parsing stored config:', e);
-        }
-      }
-      
-      // Get content types from cache or API
-      const contentTypesResponse = await getContentTypes();
-      const availableContentTypeIds = contentTypesResponse.items.map((ct: ContentType) => ct.sys.id);
-      
-      const defaultTrackedBase = ['page', 'settings', 'navigation', 'siteConfig'];
-      const defaultTracked = defaultTrackedBase.filter(id => 
-        availableContentTypeIds.includes(id)
-      );
-      
-      setTrackedContentTypes(defaultTracked);
-      
-      localStorage.setItem('contentDashboardConfig', JSON.stringify({ 
-        trackedContentTypes: defaultTracked,
-        needsUpdateMonths: 6,
-        recentlyPublishedDays: 7,
-        showUpcomingReleases: true,
-        timeToPublishDays: 30,
-        defaultTimeRange: 'year'
-      }));
-    } catch (error) {
-      console.error('Error setting up tracked content types:', error);
-      setTrackedContentTypes([]);
-    }
-  }, [getContentTypes]);
-
-  const [contentTypeChartData, setContentTypeChartData] = useState<{
-    contentTypeData: Array<{ date: string; [key: string]: string | number }>;
-    contentTypes: string[];
-  }>({ contentTypeData: [], contentTypes: [] });
-
-  // Add new state for author data
-  const [authorChartData, setAuthorChartData] = useState<{
-    authorData: Array<{ date: string; [key: string]: string | number }>;
-    authors: string[];
-  }>({ authorData: [], authors: [] });
+  }, [dataSource, sdk.ids.space, sdk.ids.environment]);
 
   // Check for cached data on component mount
   useEffect(() => {
@@ -452,7 +661,21 @@ const Home = () => {
     if (!configLoaded) {
       return;
     }
+
+    // Requests of a superseded load are cancelled when this effect re-runs
+    const abortController = new AbortController();
+    const runDataSource = createScheduledDataSource(cmaDataSource, requestScheduler, abortController.signal);
     
+    const settings: DashboardSettings = {
+      attributionMode,
+      ownerFields,
+      reportingTimeZone,
+      needsUpdateMonths,
+      needsUpdateRules,
+      recentlyPublishedDays,
+      timeToPublishDays
+    };
+
     const fetchContentStats = async () => {
       try {
         setIsLoading(true);
@@ -461,7 +684,9 @@ const Home = () => {
         // Check if we should use cached data
         if (!forceRefresh && hasLoadedData) {
           const { data: cachedData, isValid } = loadDashboardDataFromCache();
-          if (isValid && cachedData) {
+          if (isValid && cachedData && cachedData.trendsStart === trendsStartRef.current &&
+              JSON.stringify(cachedData.filter) === JSON.stringify(dashboardFilter) &&
+              JSON.stringify(cachedData.settings) === JSON.stringify(settings)) {
             try {
               // Load data from cache with validation
               setStats(cachedData.stats || {
@@ -472,15 +697,26 @@ const Home = () => {
                 needsUpdateCount: 0,
                 previousMonthPublished: 0,
                 averageTimeToPublish: 0,
+                medianTimeToPublish: 0,
+                pendingChangesCount: 0,
+                previousMonthTotalPublished: 0,
+                archivedCount: 0,
+                unpublishedCount: 0,
+                averageLifespan: 0,
               });
-              setChartData(cachedData.chartData || []);
+              setTrends(cachedData.trends || createEmptyTrends());
+              // The cache keeps no entries, so a new trend range has to load them
+              aggregationInputsRef.current = null;
+              aggregatedTrendsStartRef.current = cachedData.trendsStart;
+              setTimeToPublish(cachedData.timeToPublish || createEmptyTimeToPublishReport());
+              setDraftBacklog(cachedData.draftBacklog || createEmptyDraftBacklogReport());
+              setEntryOwners(cachedData.entryOwners || {});
+              setTagNames(cachedData.tagNames || {});
               setScheduledReleases(cachedData.scheduledReleases || []);
               setUserCache(cachedData.userCache || {});
               setScheduledContent(cachedData.scheduledContent || []);
               setRecentlyPublishedContent(cachedData.recentlyPublishedContent || []);
               setNeedsUpdateContent(cachedData.needsUpdateContent || []);
-              setContentTypeChartData(cachedData.contentTypeChartData || { contentTypeData: [], contentTypes: [] });
-              setAuthorChartData(cachedData.authorChartData || { authorData: [], authors: [] });
               setIsLoading(false);
               return;
             } catch (cacheError) {
@@ -495,78 +731,40 @@ const Home = () => {
           }
         }
         
+        // Bring the local entry index up to date; metric aggregations are computed from it
+        // instead of re-listing every published entry on each refresh
+        const indexedEntries = await syncEntryIndex(runDataSource, sdk.ids.space, sdk.ids.environment);
+
         // Make initial API calls in parallel
         const [
-          space,
-          environment,
           scheduledActions,
-          chartDataFromApi,
-          contentTypeDataFromApi,
+          usersResponse,
+          contentTypesResponse,
+          loadedTagNames,
           recentlyPublishedResponse,
           needsUpdateResponse,
-          averageTimeToPublish
+          owners
         ] = await Promise.all([
-          cma.space.get({ spaceId: sdk.ids.space }),
-          cma.environment.get({
-            spaceId: sdk.ids.space,
-            environmentId: sdk.ids.environment
-          }),
-          cma.scheduledActions.getMany({
-            spaceId: sdk.ids.space,
-            query: {
-              'environment.sys.id': sdk.ids.environment,
-              'sys.status[in]': 'scheduled',
-              'order': 'scheduledFor.datetime',
-              'limit': 500
-            }
+          runDataSource.getScheduledActions({
+            'sys.status[in]': 'scheduled',
+            'order': 'scheduledFor.datetime',
+            'limit': 500
           }),
-          fetchChartData(
-            cma,
-            sdk.ids.space,
-            sdk.ids.environment,
-            { monthsToShow: null } // Fetch all historical data
-          ),
-          fetchContentTypeChartData(
-            cma,
-            sdk.ids.space,
-            sdk.ids.environment,
-            { 
-              trackedContentTypes,
-              monthsToShow: null // Fetch all historical data
-            }
-          ),
+          runDataSource.getUsers(),
+          runDataSource.getContentTypes(),
+          fetchTagNames(runDataSource),
           // Recently published content
-          fetchEntriesByType(
-            cma,
-            sdk.ids.space,
-            sdk.ids.environment,
-            {
-              'sys.publishedAt[gte]': new Date(Date.now() - recentlyPublishedDays * 24 * 60 * 60 * 1000).toISOString(),
-              'order': '-sys.publishedAt',
-              'limit': 100
-            }
-          ),
-          // Needs update content
-          fetchEntriesByType(
-            cma,
-            sdk.ids.space,
-            sdk.ids.environment,
-            {
-              'sys.publishedAt[exists]': true,
-              'sys.updatedAt[lte]': new Date(Date.now() - needsUpdateMonths * 30 * 24 * 60 * 60 * 1000).toISOString(),
-              'order': 'sys.updatedAt',
-              'limit': 100
-            }
-          ),
-          // Average time to publish
-          calculateAverageTimeToPublish(
-            cma,
-            sdk.ids.space,
-            sdk.ids.environment,
-            timeToPublishDays
-          )
+          fetchEntriesByType(runDataSource, getKpiListQuery('recentlyPublished', kpiListOptions)),
+          // Needs update content; the CMA counts the part of each rule, so this also yields the count
+          fetchKpiListPage(runDataSource, 'needsUpdate', kpiListOptions, { pageSize: 100 }),
+          // Owner field values are not in the entry index, so they are read separately
+          attributionMode === 'ownerField' ? fetchEntryOwners(runDataSource, ownerFields) : Promise.resolve({})
         ]);
 
+        // Name lookups for the aggregation engine and the release list
+        const userNames = getUserNames(usersResponse);
+        const contentTypeNames = getContentTypeNames(contentTypesResponse);
+
         // Process releases and scheduled entries
         const now = new Date();
         const scheduledEntryIds = new Set<string>();
@@ -592,28 +790,7 @@ const Home = () => {
           try {
             // Fetch releases
             const releases = await Promise.all(
-              Array.from(releaseIds).map(releaseId => 
-                cma.release.get({
-                  spaceId: sdk.ids.space,
-                  environmentId: sdk.ids.environment,
-                  releaseId
-                })
-              )
-            );
-
-            // Get all users for the space
-            const users = await cma.user.getManyForSpace({
-              spaceId: sdk.ids.space
-            });
-            
-            // Create user map
-            const userMap = Object.fromEntries(
-              users.items.map(user => [
-                user.sys.id,
-                user.firstName && user.lastName 
-                  ? `${user.firstName} ${user.lastName}`
-                  : user.email || user.sys.id
-              ])
+              Array.from(releaseIds).map(releaseId => runDataSource.getRelease(releaseId))
             );
 
             // Add release entries to scheduledEntryIds
@@ -643,7 +820,7 @@ const Home = () => {
                 status: 'Scheduled',
                 itemCount: release.entities?.items?.length || 0,
                 updatedAt: release.sys.updatedAt,
-                updatedBy: userMap[release.sys.updatedBy.sys.id] || release.sys.updatedBy.sys.id
+                updatedBy: userNames[release.sys.updatedBy.sys.id] || release.sys.updatedBy.sys.id
               };
             }).sort((a, b) => new Date(a.scheduledDateTime).getTime() - new Date(b.scheduledDateTime).getTime());
           } catch (error) {
@@ -661,13 +838,10 @@ const Home = () => {
           for (let i = 0; i < idArray.length; i += batchSize) {
             const batchIds = idArray.slice(i, i + batchSize);
             batchPromises.push(
-              cma.entry.getMany({
-                spaceId: sdk.ids.space,
-                environmentId: sdk.ids.environment,
-                query: {
-                  'sys.id[in]': batchIds.join(','),
-                  limit: batchSize
-                }
+              runDataSource.getEntries({
+                ...toEntryQuery(dashboardFilter),
+                'sys.id[in]': batchIds.join(','),
+                limit: batchSize
               })
             );
           }
@@ -676,184 +850,60 @@ const Home = () => {
           scheduled = batchResults.flatMap(result => result.items);
         }
 
-        // Get content stats after we have all the scheduled actions processed
-        const contentStats = await getContentStatsPaginated(
-          cma,
-          sdk.ids.space,
-          sdk.ids.environment,
-          scheduledActions.items,
+        // Compute every metric and trend in one pass over the indexed entries
+        const aggregationOptions: AggregationOptions = {
+          filter: dashboardFilter,
+          timeZone: reportingTimeZone,
+          contentTypeNames,
+          userNames,
+          attribution: { mode: attributionMode, ownerFields, owners },
+          tagNames: loadedTagNames,
           recentlyPublishedDays,
           needsUpdateMonths,
-          trackedContentTypes
-        );
-
-        // Calculate total scheduled entries (direct entries + entries in releases)
-        const totalScheduledCount = scheduled.length;
+          needsUpdateRules,
+          timeToPublishDays
+        };
+        const loadTrendsStart = trendsStartRef.current;
+        const metrics = aggregateDashboardMetrics(indexedEntries, { ...aggregationOptions, trendsStart: loadTrendsStart });
+        aggregationInputsRef.current = { entries: indexedEntries, options: aggregationOptions };
+        aggregatedTrendsStartRef.current = loadTrendsStart;
 
-        // Update the stats with the correct scheduled count and average time to publish
+        // Scheduled count covers direct entries plus entries in releases
         const updatedStats = {
-          ...contentStats,
-          scheduledCount: totalScheduledCount,
-          averageTimeToPublish
+          ...metrics.kpis,
+          scheduledCount: scheduled.length,
+          // The index has no fields, so review date fields are only seen by the list query
+          needsUpdateCount: needsUpdateResponse.total
         };
 
         // Update all states at once
         setStats(updatedStats);
-        setChartData(chartDataFromApi.newContent);
+        setTrends(metrics.trends);
+        setTimeToPublish(metrics.timeToPublish);
+        setDraftBacklog(metrics.draftBacklog);
+        setEntryOwners(owners);
+        setTagNames(loadedTagNames);
         setScheduledReleases(releasesData);
         setScheduledContent(scheduled);
         setRecentlyPublishedContent(recentlyPublishedResponse.items);
         setNeedsUpdateContent(needsUpdateResponse.items);
         
-        // Update content type chart data
-        setContentTypeChartData({
-          contentTypeData: contentTypeDataFromApi.contentTypeData,
-          contentTypes: contentTypeDataFromApi.contentTypes
-        });
-        
-        // Fetch comprehensive author data using the same approach as the main chart
-        // This ensures author chart matches the total published content numbers
-        const currentDate = new Date();
-        const startDate = new Date(currentDate);
-        startDate.setMonth(currentDate.getMonth() - 1200); // Get all historical data (100 years back)
-        startDate.setDate(1);
-        startDate.setHours(0, 0, 0, 0);
-
-        // Fetch all new content for author analysis (same as main chart)
-        const fetchAllNewContentForAuthors = async () => {
-          const allEntries = [];
-          let skip = 0;
-          const limit = 1000;
-          
-          while (true) {
-            const response = await cma.entry.getMany({
-              spaceId: sdk.ids.space,
-              environmentId: sdk.ids.environment,
-              query: {
-                'sys.firstPublishedAt[gte]': startDate.toISOString(),
-                'sys.publishedAt[exists]': true,
-                skip,
-                limit,
-                order: 'sys.firstPublishedAt'
-              }
-            });
-            
-            allEntries.push(...response.items);
-            
-            if (response.items.length < limit) {
-              break;
-            }
-            
-            skip += limit;
-          }
-          
-          return allEntries;
-        };
-
-        // Fetch the comprehensive dataset
-        const allNewContentEntries = await fetchAllNewContentForAuthors();
-
-        const authorData = new Map<string, Map<string, number>>();
-        const authors = new Set<string>();
-
-        // Helper function to process entries by date and author
-        const processEntriesByAuthor = async (entries: any[], dataMap: Map<string, Map<string, number>>) => {
-          for (const entry of entries) {
-            // For new content: use firstPublishedAt
-            const date = new Date(entry.sys.firstPublishedAt || entry.sys.publishedAt);
-            
-            const monthYear = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-            
-            // Skip if the entry doesn't have the required date
-            if (!date) continue;
-
-            // Always use createdBy to show who originally created the content
-            const authorId = entry.sys.createdBy?.sys.id;
-
-            if (!authorId) continue;
-            
-            // Get author name from cache or resolve it
-            let authorName = userCache[authorId];
-            if (!authorName && authorId !== 'Unknown') {
-              authorName = await getUserFullName(authorId);
-            }
-            authorName = authorName || authorId;
-            authors.add(authorName);
-
-            if (!dataMap.has(monthYear)) {
-              dataMap.set(monthYear, new Map());
-            }
-            const monthData = dataMap.get(monthYear)!;
-            monthData.set(authorName, (monthData.get(authorName) || 0) + 1);
-          }
-        };
-
-        // Process the comprehensive dataset
-        await processEntriesByAuthor(allNewContentEntries, authorData);
-
-        // Convert the Maps to the required format
-        const convertMapToChartData = (dataMap: Map<string, Map<string, number>>) => {
-          // Find the earliest and latest dates from the data
-          const allDataDates = Array.from(dataMap.keys()).sort();
-          if (allDataDates.length === 0) {
-            return [];
-          }
-
-          // Parse the earliest date more carefully
-          const [earliestYear, earliestMonth] = allDataDates[0].split('-').map(Number);
-          const currentDate = new Date();
-          const dates = new Set<string>();
-
-          // Generate all months from earliest to current
-          let year = earliestYear;
-          let month = earliestMonth;
-          
-          while (year < currentDate.getFullYear() || (year === currentDate.getFullYear() && month <= currentDate.getMonth() + 1)) {
-            const monthKey = `${year}-${String(month).padStart(2, '0')}`;
-            dates.add(monthKey);
-            
-            month++;
-            if (month > 12) {
-              month = 1;
-              year++;
-            }
-          }
-
-          const finalDates = Array.from(dates).sort();
-
-          // Convert to array and sort
-          return finalDates.map(date => ({
-            date: `${date}-01`, // Convert to full date format
-            ...Object.fromEntries(
-              Array.from(authors).map(author => [
-                author,
-                (dataMap.get(date)?.get(author) || 0)
-              ])
-            )
-          }));
-        };
-
-        const finalAuthorChartData = {
-          authorData: convertMapToChartData(authorData),
-          authors: Array.from(authors)
-        };
-
-        setAuthorChartData(finalAuthorChartData);
-        
         // Save all data to cache
         const dashboardData: DashboardData = {
           stats: updatedStats,
-          chartData: chartDataFromApi.newContent,
+          trends: metrics.trends,
+          timeToPublish: metrics.timeToPublish,
+          draftBacklog: metrics.draftBacklog,
+          filter: dashboardFilter,
+          tagNames: loadedTagNames,
+          trendsStart: loadTrendsStart,
+          settings,
+          entryOwners: owners,
           scheduledReleases: releasesData,
           userCache,
           scheduledContent: scheduled,
           recentlyPublishedContent: recentlyPublishedResponse.items,
-          needsUpdateContent: needsUpdateResponse.items,
-          contentTypeChartData: {
-            contentTypeData: contentTypeDataFromApi.contentTypeData,
-            contentTypes: contentTypeDataFromApi.contentTypes
-          },
-          authorChartData: finalAuthorChartData
+          needsUpdateContent: needsUpdateResponse.items
         };
         
         saveDashboardDataToCache(dashboardData);
@@ -861,6 +911,10 @@ const Home = () => {
         setForceRefresh(false);
         setIsLoading(false);
       } catch (error) {
+        if (isRequestCancelled(error)) {
+          // A newer load replaced this one
+          return;
+        }
         console.error('Error fetching content stats:', error);
         setError('Failed to load content data');
         setIsLoading(false);
@@ -878,15 +932,25 @@ const Home = () => {
               needsUpdateCount: 0,
               previousMonthPublished: 0,
               averageTimeToPublish: 0,
+              medianTimeToPublish: 0,
+              pendingChangesCount: 0,
+              previousMonthTotalPublished: 0,
+              archivedCount: 0,
+              unpublishedCount: 0,
+              averageLifespan: 0,
             });
-            setChartData(cachedData.chartData || []);
+            setTrends(cachedData.trends || createEmptyTrends());
+            aggregationInputsRef.current = null;
+            aggregatedTrendsStartRef.current = cachedData.trendsStart;
+            setTimeToPublish(cachedData.timeToPublish || createEmptyTimeToPublishReport());
+            setDraftBacklog(cachedData.draftBacklog || createEmptyDraftBacklogReport());
+            setEntryOwners(cachedData.entryOwners || {});
+            setTagNames(cachedData.tagNames || {});
             setScheduledReleases(cachedData.scheduledReleases || []);
             setUserCache(cachedData.userCache || {});
             setScheduledContent(cachedData.scheduledContent || []);
             setRecentlyPublishedContent(cachedData.recentlyPublishedContent || []);
             setNeedsUpdateContent(cachedData.needsUpdateContent || []);
-            setContentTypeChartData(cachedData.contentTypeChartData || { contentTypeData: [], contentTypes: [] });
-            setAuthorChartData(cachedData.authorChartData || { authorData: [], authors: [] });
             setError('Using cached data - click refresh to update');
           } catch (fallbackError) {
             console.warn('Error loading fallback cache data:', fallbackError);
@@ -898,7 +962,210 @@ const Home = () => {
     };
 
     fetchContentStats();
-  }, [cma, sdk.ids.space, sdk.ids.environment, trackedContentTypes, needsUpdateMonths, recentlyPublishedDays, timeToPublishDays, forceRefresh, hasLoadedData, configLoaded, getUserFullName]);
+
+    return () => abortController.abort();
+  }, [cmaDataSource, sdk.ids.space, sdk.ids.environment, refreshCount, dashboardFilter, needsUpdateMonths, needsUpdateRules, recentlyPublishedDays, timeToPublishDays, reportingTimeZone, kpiListOptions, attributionMode, ownerFields, forceRefresh, hasLoadedData, configLoaded]);
+
+  // A new trend range re-aggregates the entries of the last load instead of loading them again
+  useEffect(() => {
+    if (aggregatedTrendsStartRef.current === trendsStart) {
+      return;
+    }
+    const inputs = aggregationInputsRef.current;
+    if (!inputs) {
+      // Shown from the dashboard cache, which keeps no entries; the load picks up the new range
+      setRefreshCount(count => count + 1);
+      return;
+    }
+
+    aggregatedTrendsStartRef.current = trendsStart;
+    const updatedTrends = aggregateDashboardMetrics(inputs.entries, { ...inputs.options, trendsStart }).trends;
+    setTrends(updatedTrends);
+    const { data: cachedData, isValid } = loadDashboardDataFromCache();
+    if (isValid && cachedData) {
+      saveDashboardDataToCache({ ...cachedData, trends: updatedTrends, trendsStart });
+    }
+  }, [trendsStart]);
+
+  // Reviews are read after the load, for the listed entries only, so the KPIs never wait on comments
+  useEffect(() => {
+    if (!needsUpdateContent.length) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const runDataSource = createScheduledDataSource(cmaDataSource, requestScheduler, abortController.signal);
+
+    withoutReviewedItems(runDataSource, { items: needsUpdateContent, total: needsUpdateContent.length }, kpiListOptions)
+      .then(({ items }) => {
+        saveReviewCache(sdk.ids.space, sdk.ids.environment, reviewCache);
+        if (abortController.signal.aborted || items.length === needsUpdateContent.length) return;
+        const reviewedCount = needsUpdateContent.length - items.length;
+        setNeedsUpdateContent(items);
+        setStats(prev => ({ ...prev, needsUpdateCount: Math.max(0, prev.needsUpdateCount - reviewedCount) }));
+      })
+      .catch(error => {
+        if (isRequestCancelled(error)) return;
+        console.error('Error reading entry reviews:', error);
+      });
+
+    return () => abortController.abort();
+  }, [cmaDataSource, sdk.ids.space, sdk.ids.environment, needsUpdateContent, kpiListOptions, reviewCache]);
+
+  // Asset analytics read every entry's asset links from the link scan the orphans report shares
+  useEffect(() => {
+    if (!configLoaded) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const runDataSource = createScheduledDataSource(cmaDataSource, requestScheduler, abortController.signal);
+    setIsAssetMetricsLoading(true);
+    setAssetMetricsError(null);
+
+    loadLinkScan(runDataSource, sdk.ids.space, sdk.ids.environment)
+      .then(scan => fetchAssetMetrics(runDataSource, {
+        timeZone: reportingTimeZone,
+        referencedAssetIds: getLinkedIds(scan, 'Asset')
+      }))
+      .then(metrics => {
+        setAssetMetrics(metrics);
+        setIsAssetMetricsLoading(false);
+      })
+      .catch(error => {
+        if (isRequestCancelled(error)) return;
+        console.error('Error fetching asset analytics:', error);
+        setAssetMetricsError('Failed to load asset analytics');
+        setIsAssetMetricsLoading(false);
+      });
+
+    return () => abortController.abort();
+  }, [cmaDataSource, sdk.ids.space, sdk.ids.environment, refreshCount, reportingTimeZone, configLoaded]);
+
+  // The reference check reads its sources from the shared link scan and looks up only the entries they link to
+  useEffect(() => {
+    if (!configLoaded) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const runDataSource = createScheduledDataSource(cmaDataSource, requestScheduler, abortController.signal);
+    setIsBrokenReferencesLoading(true);
+    setBrokenReferencesError(null);
+
+    loadLinkScan(runDataSource, sdk.ids.space, sdk.ids.environment)
+      .then(scan => fetchBrokenReferences(runDataSource, scan, dashboardFilter))
+      .then(references => {
+        setBrokenReferences(references);
+        setIsBrokenReferencesLoading(false);
+      })
+      .catch(error => {
+        if (isRequestCancelled(error)) return;
+        console.error('Error checking references:', error);
+        setBrokenReferencesError('Failed to check references');
+        setIsBrokenReferencesLoading(false);
+      });
+
+    return () => abortController.abort();
+  }, [cmaDataSource, sdk.ids.space, sdk.ids.environment, refreshCount, dashboardFilter, configLoaded]);
+
+  // Finding orphans means reading the links of every entry in the environment; the scan is cached for an hour
+  useEffect(() => {
+    if (!configLoaded) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const runDataSource = createScheduledDataSource(cmaDataSource, requestScheduler, abortController.signal);
+    setIsOrphansLoading(true);
+    setOrphansError(null);
+
+    loadLinkScan(runDataSource, sdk.ids.space, sdk.ids.environment)
+      .then(scan => findOrphanedEntries(scan, { filter: dashboardFilter }))
+      .then(entries => {
+        setOrphans(entries);
+        setIsOrphansLoading(false);
+      })
+      .catch(error => {
+        if (isRequestCancelled(error)) return;
+        console.error('Error finding orphaned entries:', error);
+        setOrphansError('Failed to find orphaned entries');
+        setIsOrphansLoading(false);
+      });
+
+    return () => abortController.abort();
+  }, [cmaDataSource, sdk.ids.space, sdk.ids.environment, refreshCount, dashboardFilter, configLoaded]);
+
+  // Stages come from Workflows or status fields, which the entry index does not hold
+  useEffect(() => {
+    if (!configLoaded) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const runDataSource = createScheduledDataSource(cmaDataSource, requestScheduler, abortController.signal);
+    setIsStageReportLoading(true);
+    setStageReportError(null);
+
+    syncEntryIndex(runDataSource, sdk.ids.space, sdk.ids.environment)
+      .then(indexedEntries => fetchStageReport(runDataSource, indexedEntries, { filter: dashboardFilter, stageFields }))
+      .then(report => {
+        setStageReport(report);
+        setIsStageReportLoading(false);
+      })
+      .catch(error => {
+        if (isRequestCancelled(error)) return;
+        console.error('Error loading workflow stages:', error);
+        setStageReportError('Failed to load workflow stages');
+        setIsStageReportLoading(false);
+      });
+
+    return () => abortController.abort();
+  }, [cmaDataSource, sdk.ids.space, sdk.ids.environment, refreshCount, dashboardFilter, stageFields, configLoaded]);
+
+  // Personal views load only while selected; My tasks reads the tasks of the most recently updated entries
+  useEffect(() => {
+    if (!configLoaded || personalView === 'space') {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const runDataSource = createScheduledDataSource(cmaDataSource, requestScheduler, abortController.signal);
+    const userId = sdk.user.sys.id;
+    setIsPersonalViewLoading(true);
+    setPersonalViewError(null);
+
+    syncEntryIndex(runDataSource, sdk.ids.space, sdk.ids.environment)
+      .then(async indexedEntries => {
+        if (personalView === 'tasks') {
+          setMyTasksProgress(null);
+          setMyTasks(await fetchMyTasks(runDataSource, indexedEntries, userId, dashboardFilter, {
+            onProgress: (checkedCount, limitedCount) => {
+              if (!abortController.signal.aborted) setMyTasksProgress({ checkedCount, limitedCount });
+            }
+          }));
+        } else {
+          setMyContent(await fetchMyContent(runDataSource, indexedEntries, userId, {
+            filter: dashboardFilter,
+            now: new Date(),
+            timeZone: reportingTimeZone,
+            needsUpdateMonths,
+            needsUpdateRules,
+            reviewCache
+          }));
+          saveReviewCache(sdk.ids.space, sdk.ids.environment, reviewCache);
+        }
+        setIsPersonalViewLoading(false);
+      })
+      .catch(error => {
+        if (isRequestCancelled(error)) return;
+        console.error('Error loading personal view:', error);
+        setPersonalViewError(personalView === 'tasks' ? 'Failed to load your tasks' : 'Failed to load your content');
+        setIsPersonalViewLoading(false);
+      });
+
+    return () => abortController.abort();
+  }, [cmaDataSource, sdk.ids.space, sdk.ids.environment, sdk.user.sys.id, refreshCount, personalView, dashboardFilter, reportingTimeZone, needsUpdateMonths, needsUpdateRules, reviewCache, configLoaded]);
 
   const formatDateTime = (dateTimeStr: string) => {
     const date = new Date(dateTimeStr);
@@ -932,6 +1199,163 @@ const Home = () => {
     setScheduledReleases(prev => prev.filter(release => release.id !== releaseId));
   };
 
+  const handlePersonalViewChange = (view: PersonalView) => {
+    setPersonalView(view);
+    savePersonalView(sdk.user.sys.id, view);
+  };
+
+  const handleTagFilterChange = (tags: string[]) => {
+    setSelectedTags(tags);
+    saveTagFilter(sdk.user.sys.id, tags);
+  };
+
+  const handleTrendRangeChange = (range: TrendRangeSelection) => {
+    setSavedTrendRange(range);
+    saveTrendRange(sdk.user.sys.id, range);
+  };
+
+  // Load the full entries for the next page of drill-down IDs, in the order of the IDs
+  const loadDrillDownPage = async (entryIds: string[], loadedEntries: EntryProps[]) => {
+    const pageIds = entryIds.slice(loadedEntries.length, loadedEntries.length + DRILL_DOWN_PAGE_SIZE);
+    if (pageIds.length === 0) {
+      return { entryIds, entries: loadedEntries };
+    }
+    const response = await dataSource.getEntries({
+      'sys.id[in]': pageIds.join(','),
+      limit: pageIds.length
+    });
+    const entriesById = new Map(response.items.map(entry => [entry.sys.id, entry]));
+    return {
+      // Entries deleted since the index was synced drop out of the bucket
+      entryIds: entryIds.filter(id => entriesById.has(id) || !pageIds.includes(id)),
+      entries: [
+        ...loadedEntries,
+        ...pageIds.map(id => entriesById.get(id)).filter((entry): entry is EntryProps => Boolean(entry))
+      ]
+    };
+  };
+
+  const handleTrendBucketSelect = async (selection: TrendBucketSelection) => {
+    const requestId = ++drillDownRequestRef.current;
+    setTrendDrillDown({ selection, entryIds: [], entries: [], isLoading: true, error: null });
+
+    try {
+      const [indexedEntries, usersResponse, contentTypesResponse, loadedTagNames] = await Promise.all([
+        syncEntryIndex(dataSource, sdk.ids.space, sdk.ids.environment),
+        dataSource.getUsers(),
+        getContentTypes(),
+        fetchTagNames(dataSource)
+      ]);
+      const entryIds = findEntriesInBucket(indexedEntries, selection, {
+        filter: dashboardFilter,
+        timeZone: reportingTimeZone,
+        contentTypeNames: getContentTypeNames(contentTypesResponse),
+        userNames: getUserNames(usersResponse),
+        attribution,
+        tagNames: loadedTagNames
+      }).map(entry => entry.sys.id);
+      const page = await loadDrillDownPage(entryIds, []);
+
+      if (requestId !== drillDownRequestRef.current) return;
+      setTrendDrillDown({ selection, ...page, isLoading: false, error: null });
+    } catch (error) {
+      if (requestId !== drillDownRequestRef.current) return;
+      console.error('Error loading entries for chart point:', error);
+      setTrendDrillDown({ selection, entryIds: [], entries: [], isLoading: false, error: 'Failed to load entries' });
+    }
+  };
+
+  const handleTrendDrillDownShowMore = async () => {
+    if (!trendDrillDown) return;
+    const requestId = drillDownRequestRef.current;
+    setTrendDrillDown({ ...trendDrillDown, isLoading: true });
+
+    try {
+      const page = await loadDrillDownPage(trendDrillDown.entryIds, trendDrillDown.entries);
+      if (requestId !== drillDownRequestRef.current) return;
+      setTrendDrillDown({ ...trendDrillDown, ...page, isLoading: false });
+    } catch (error) {
+      if (requestId !== drillDownRequestRef.current) return;
+      console.error('Error loading more entries for chart point:', error);
+      setTrendDrillDown({ ...trendDrillDown, isLoading: false, error: 'Failed to load more entries' });
+    }
+  };
+
+  const loadKpiListPage = useCallback(
+    async (search: string, page: number, pageSize: number) => {
+      const kind = openKpiList || 'totalPublished';
+      const options = { ...kpiListOptions, scheduledEntryIds: scheduledContent.map(entry => entry.sys.id) };
+      const listPage = await fetchKpiListPage(dataSource, kind, options, { search, page, pageSize });
+      if (kind !== 'needsUpdate') return listPage;
+      const reviewedPage = await withoutReviewedItems(dataSource, listPage, options);
+      saveReviewCache(sdk.ids.space, sdk.ids.environment, reviewCache);
+      return reviewedPage;
+    },
+    [dataSource, openKpiList, kpiListOptions, scheduledContent, sdk.ids.space, sdk.ids.environment, reviewCache]
+  );
+
+  const loadDraftListPage = useCallback(
+    (search: string, page: number, pageSize: number) =>
+      fetchDraftListPage(dataSource, openDraftList || {}, { ...kpiListOptions, attribution }, { search, page, pageSize }),
+    [dataSource, openDraftList, kpiListOptions, attribution]
+  );
+
+  // Names the age bucket, content type and creator a draft list is narrowed to
+  const getDraftListDescription = ({ ageBucket, contentTypeId, creatorId }: DraftListSelection) =>
+    [
+      'Never published drafts, oldest first',
+      ageBucket !== undefined && `${DRAFT_AGE_BUCKETS[ageBucket].label} old`,
+      contentTypeId && draftBacklog.byContentType.find(row => row.id === contentTypeId)?.name,
+      creatorId && draftBacklog.byCreator.find(row => row.id === creatorId)?.name
+    ].filter(Boolean).join(' · ');
+
+  const kpiListTitles: Record<KpiListKind, string> = {
+    totalPublished: 'Total Published',
+    averageTimeToPublish: timeToPublishStatistic === 'median' ? 'Median Time to Publish' : 'Average Time to Publish',
+    scheduled: 'Scheduled',
+    recentlyPublished: 'Recently Published',
+    needsUpdate: 'Needs Update',
+    pendingChanges: 'Pending Changes'
+  };
+  const kpiListDescriptions: Record<KpiListKind, string> = {
+    totalPublished: 'All published entries, most recently published first',
+    averageTimeToPublish: `Entries first published in the last ${timeToPublishDays} days, slowest to publish first`,
+    scheduled: 'Entries scheduled for publishing, directly or in a release',
+    recentlyPublished: `Entries published in the last ${recentlyPublishedDays} ${recentlyPublishedDays === 1 ? 'day' : 'days'}`,
+    needsUpdate: `Published entries, longest overdue first. ${describeNeedsUpdateThreshold(needsUpdateMonths, needsUpdateRules)}`,
+    pendingChanges: 'Published entries with saved changes that have not been published yet'
+  };
+
+  const totalPublishedChange = stats.totalPublished - stats.previousMonthTotalPublished;
+
+  // Every KPI card opens the list of entries behind its number
+  const getKpiCardProps = (kind: KpiListKind) => ({
+    className: "w-full relative cursor-pointer transition-colors hover:bg-gray-50",
+    role: 'button',
+    tabIndex: 0,
+    onClick: () => setOpenKpiList(kind),
+    onKeyDown: (event: React.KeyboardEvent) => {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        setOpenKpiList(kind);
+      }
+    }
+  });
+
+  const scrollToBrokenReferences = () => {
+    brokenReferencesRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const handleCloseTrendDrillDown = () => {
+    drillDownRequestRef.current++;
+    setTrendDrillDown(null);
+  };
+
+  const handleOpenAsset = (assetId: string) => {
+    if (!sdk || !sdk.ids) return;
+    window.open(`https://app.contentful.com/spaces/${sdk.ids.space}/environments/${sdk.ids.environment}/assets/${assetId}`, '_blank');
+  };
+
   // Function to open an entry in the Contentful web app
   const handleOpenEntry = (entryId: string) => {
     if (!sdk || !sdk.ids) return;
@@ -944,6 +1368,28 @@ const Home = () => {
     window.open(url, '_blank');
   };
 
+  const reviewingEntry = needsUpdateContent.find(entry => entry.sys.id === reviewingEntryId);
+
+  // The review is shared through the entry's comments; locally the entry leaves the list straight away
+  const handleMarkReviewed = async (months: number, note: string) => {
+    if (!reviewingEntry) return;
+    await markEntryReviewed(dataSource, reviewingEntry, {
+      nextReviewDue: getNextReviewDue(new Date(), months, reportingTimeZone),
+      note,
+      cache: reviewCache
+    });
+    saveReviewCache(sdk.ids.space, sdk.ids.environment, reviewCache);
+    const entryId = reviewingEntry.sys.id;
+    setNeedsUpdateContent(prev => prev.filter(entry => entry.sys.id !== entryId));
+    setStats(prev => ({ ...prev, needsUpdateCount: Math.max(0, prev.needsUpdateCount - 1) }));
+    clearDashboardCache();
+  };
+
+  const loadReviewHistory = useCallback(
+    () => fetchEntryReviews(dataSource, reviewHistoryEntryId || ''),
+    [dataSource, reviewHistoryEntryId]
+  );
+
   return (
     <div className="flex min-h-screen w-full flex-col">
       <main className="flex flex-1 flex-col gap-4 p-4 md:gap-8 md:p-8">
@@ -956,20 +1402,48 @@ const Home = () => {
               </span>
             )}
           </div>
-          <button 
-            onClick={() => {
-              clearDashboardCache();
-              setForceRefresh(true);
-            }}
-            className="flex items-center gap-2 px-3 py-2 border border-gray-200 rounded-md hover:bg-gray-50 active:bg-gray-100 transition-colors disabled:opacity-50"
-            title="Refresh dashboard"
-            disabled={isLoading}
-          >
-            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin text-gray-400' : 'text-gray-600'}`} />
-            <span className="text-sm text-gray-600">Refresh</span>
-          </button>
+          <div className="flex items-center gap-2">
+            <Select value={personalView} onValueChange={(value) => handlePersonalViewChange(value as PersonalView)}>
+              <SelectTrigger className="w-[140px]" aria-label="Dashboard view">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PERSONAL_VIEW_LABELS) as PersonalView[]).map(view => (
+                  <SelectItem key={view} value={view}>{PERSONAL_VIEW_LABELS[view]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <TagFilter tagNames={tagNames} selectedTags={selectedTags} onChange={handleTagFilterChange} />
+            <button 
+              onClick={() => {
+                clearDashboardCache();
+                clearLinkScan(sdk.ids.space, sdk.ids.environment);
+                setForceRefresh(true);
+                setRefreshCount(count => count + 1);
+              }}
+              className="flex items-center gap-2 px-3 py-2 border border-gray-200 rounded-md hover:bg-gray-50 active:bg-gray-100 transition-colors disabled:opacity-50"
+              title={isLoading ? "Restart loading the dashboard" : "Refresh dashboard"}
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin text-gray-400' : 'text-gray-600'}`} />
+              <span className="text-sm text-gray-600">Refresh</span>
+            </button>
+          </div>
         </div>
-        {isLoading ? (
+        {personalView !== 'space' ? (
+          <PersonalDashboard
+            view={personalView}
+            myContent={myContent}
+            myTasks={myTasks}
+            myTasksProgress={myTasksProgress}
+            isLoading={isPersonalViewLoading}
+            error={personalViewError}
+            userCache={userCache}
+            onResolveUser={getUserFullName}
+            onOpenEntry={handleOpenEntry}
+            entryStages={stageReport?.entryStages}
+            attribution={attribution}
+          />
+        ) : isLoading ? (
           <div className="flex items-center justify-center p-8">
             <div className="flex flex-col items-center">
               <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
@@ -1000,8 +1474,8 @@ const Home = () => {
           </div>
         ) : (
           <>
-            <div className="grid gap-2 sm:gap-3 grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 w-full">
-              <Card className="w-full relative">
+            <div className="grid gap-2 sm:gap-3 grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 w-full">
+              <Card {...getKpiCardProps('totalPublished')}>
                 <div className="absolute right-3 top-1/2 -translate-y-1/2">
                   <FileText className="h-8 w-8 text-primary" />
                 </div>
@@ -1011,29 +1485,32 @@ const Home = () => {
                 <CardContent className="pb-3 pt-0 px-3 pr-14">
                   <div className="text-3xl font-bold">{stats.totalPublished}</div>
                   <p className="text-sm text-muted-foreground mt-1">
-                    {stats.previousMonthPublished === 0 && stats.percentChange === 0
-                    ? 'No new content published recently'
+                    {totalPublishedChange === 0
+                    ? 'No change since last month'
                     : (
-                      <span className={stats.percentChange >= 0 ? "text-green-500" : "text-red-500"}>
-                        {formatPercentageChange(stats.percentChange)} publishing {stats.percentChange >= 0 ? 'increase' : 'decrease'} MoM
+                      <span className={totalPublishedChange > 0 ? "text-green-500" : "text-red-500"}>
+                        {totalPublishedChange > 0 ? '+' : ''}{totalPublishedChange} ({formatPercentageChange(calculatePercentageChange(stats.totalPublished, stats.previousMonthTotalPublished))}) since last month
                       </span>
                     )}
                   </p>
+                  <KpiSparkline data={trends.month.totalPublished.slice(-12)} />
                 </CardContent>
               </Card>
-              <Card className="w-full relative">
+              <Card {...getKpiCardProps('averageTimeToPublish')}>
                 <div className="absolute right-3 top-1/2 -translate-y-1/2">
                   <Timer className="h-8 w-8 text-primary" />
                 </div>
                 <CardHeader className="pb-1 pt-2 px-3 pr-14">
-                  <CardTitle className="text-sm font-semibold">Average Time to Publish</CardTitle>
+                  <CardTitle className="text-sm font-semibold">{kpiListTitles.averageTimeToPublish}</CardTitle>
                 </CardHeader>
                 <CardContent className="pb-3 pt-0 px-3 pr-14">
-                  <div className="text-3xl font-bold">{stats.averageTimeToPublish.toFixed(1)} days</div>
+                  <div className="text-3xl font-bold">
+                    {(timeToPublishStatistic === 'median' ? stats.medianTimeToPublish : stats.averageTimeToPublish).toFixed(1)} days
+                  </div>
                   <p className="text-sm text-muted-foreground mt-1">For the last {timeToPublishDays} days</p>
                 </CardContent>
               </Card>
-              <Card className="w-full relative">
+              <Card {...getKpiCardProps('scheduled')}>
                 <div className="absolute right-3 top-1/2 -translate-y-1/2">
                   <CalendarDays className="h-8 w-8 text-primary" />
                 </div>
@@ -1045,7 +1522,7 @@ const Home = () => {
                   <p className="text-sm text-muted-foreground mt-1">For the next 30 days</p>
                 </CardContent>
               </Card>
-              <Card className="w-full relative">
+              <Card {...getKpiCardProps('recentlyPublished')}>
                 <div className="absolute right-3 top-1/2 -translate-y-1/2">
                   <Clock className="h-8 w-8 text-primary" />
                 </div>
@@ -1057,7 +1534,7 @@ const Home = () => {
                   <p className="text-sm text-muted-foreground mt-1">In the last {recentlyPublishedDays} {recentlyPublishedDays === 1 ? 'day' : 'days'}</p>
                 </CardContent>
               </Card>
-              <Card className="w-full relative">
+              <Card {...getKpiCardProps('needsUpdate')}>
                 <div className="absolute right-3 top-1/2 -translate-y-1/2">
                   <Edit className="h-8 w-8 text-primary" />
                 </div>
@@ -1066,7 +1543,42 @@ const Home = () => {
                 </CardHeader>
                 <CardContent className="pb-3 pt-0 px-3 pr-14">
                   <div className="text-3xl font-bold">{stats.needsUpdateCount}</div>
-                  <p className="text-sm text-muted-foreground mt-1">Content older than {needsUpdateMonths} {needsUpdateMonths === 1 ? 'month' : 'months'}</p>
+                  <p className="text-sm text-muted-foreground mt-1">{describeNeedsUpdateThreshold(needsUpdateMonths, needsUpdateRules)}</p>
+                </CardContent>
+              </Card>
+              <Card {...getKpiCardProps('pendingChanges')}>
+                <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                  <GitBranchPlus className="h-8 w-8 text-primary" />
+                </div>
+                <CardHeader className="pb-1 pt-2 px-3 pr-14">
+                  <CardTitle className="text-sm font-semibold">Pending Changes</CardTitle>
+                </CardHeader>
+                <CardContent className="pb-3 pt-0 px-3 pr-14">
+                  <div className="text-3xl font-bold">{stats.pendingChangesCount}</div>
+                  <p className="text-sm text-muted-foreground mt-1">Published with unpublished edits</p>
+                </CardContent>
+              </Card>
+              <Card
+                className="w-full relative cursor-pointer transition-colors hover:bg-gray-50"
+                role="button"
+                tabIndex={0}
+                onClick={scrollToBrokenReferences}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter' || event.key === ' ') {
+                    event.preventDefault();
+                    scrollToBrokenReferences();
+                  }
+                }}
+              >
+                <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                  <Unlink className="h-8 w-8 text-primary" />
+                </div>
+                <CardHeader className="pb-1 pt-2 px-3 pr-14">
+                  <CardTitle className="text-sm font-semibold">Broken References</CardTitle>
+                </CardHeader>
+                <CardContent className="pb-3 pt-0 px-3 pr-14">
+                  <div className="text-3xl font-bold">{brokenReferences ? brokenReferences.length : '-'}</div>
+                  <p className="text-sm text-muted-foreground mt-1">Links to unpublished or missing entries</p>
                 </CardContent>
               </Card>
             </div>
@@ -1075,12 +1587,91 @@ const Home = () => {
             <div className="flex flex-col gap-1">
               <h2 className="text-xl font-semibold">Content Publishing Trends</h2>
               <ContentTrendsTabs
-                chartData={chartData}
-                contentTypeData={contentTypeChartData.contentTypeData}
-                contentTypes={contentTypeChartData.contentTypes}
-                authorData={authorChartData.authorData}
-                authors={authorChartData.authors}
-                defaultTimeRange={defaultTimeRange}
+                trends={trends}
+                range={trendRange}
+                onRangeChange={handleTrendRangeChange}
+                timeZone={reportingTimeZone}
+                onBucketSelect={handleTrendBucketSelect}
+                lifecycleStats={stats}
+                authorLabel={ATTRIBUTION_MODE_LABELS[attributionMode]}
+              />
+              {trendDrillDown && (
+                <TrendDrillDownPanel
+                  selection={trendDrillDown.selection}
+                  entries={trendDrillDown.entries}
+                  total={trendDrillDown.entryIds.length}
+                  isLoading={trendDrillDown.isLoading}
+                  error={trendDrillDown.error}
+                  userCache={userCache}
+                  onResolveUser={getUserFullName}
+                  onOpenEntry={handleOpenEntry}
+                  onShowMore={handleTrendDrillDownShowMore}
+                  onClose={handleCloseTrendDrillDown}
+                  entryStages={stageReport?.entryStages}
+                  attribution={attribution}
+                />
+              )}
+            </div>
+
+            {/* Time to Publish Section */}
+            <div className="flex flex-col gap-1">
+              <h2 className="text-xl font-semibold">Time to Publish</h2>
+              <TimeToPublishReport
+                report={timeToPublish}
+                timeToPublishDays={timeToPublishDays}
+                authorLabel={ATTRIBUTION_MODE_LABELS[attributionMode]}
+              />
+            </div>
+
+            {/* Draft Backlog Section */}
+            <div className="flex flex-col gap-1">
+              <h2 className="text-xl font-semibold">Draft Backlog</h2>
+              <DraftBacklogReport
+                report={draftBacklog}
+                onSelect={setOpenDraftList}
+                authorLabel={ATTRIBUTION_MODE_LABELS[attributionMode]}
+              />
+            </div>
+
+            {/* Workflow Stages Section */}
+            <div className="flex flex-col gap-1">
+              <h2 className="text-xl font-semibold">Workflow Stages</h2>
+              <WorkflowStageReport report={stageReport} isLoading={isStageReportLoading} error={stageReportError} />
+            </div>
+
+            {/* Broken References Section */}
+            <div ref={brokenReferencesRef} className="flex flex-col gap-1">
+              <h2 className="text-xl font-semibold">Broken References</h2>
+              <BrokenReferencesReport
+                brokenReferences={brokenReferences}
+                isLoading={isBrokenReferencesLoading}
+                error={brokenReferencesError}
+                onOpenEntry={handleOpenEntry}
+              />
+            </div>
+
+            {/* Orphaned Entries Section */}
+            <div className="flex flex-col gap-1">
+              <h2 className="text-xl font-semibold">Orphaned Entries</h2>
+              <OrphanedEntriesReport
+                orphans={orphans}
+                isLoading={isOrphansLoading}
+                error={orphansError}
+                excludedContentTypes={excludedOrphanTypes}
+                onExcludedContentTypesChange={setExcludedOrphanTypes}
+                onOpenEntry={handleOpenEntry}
+              />
+            </div>
+
+            {/* Asset Analytics Section */}
+            <div className="flex flex-col gap-1">
+              <h2 className="text-xl font-semibold">Asset Analytics</h2>
+              <AssetAnalytics
+                metrics={assetMetrics}
+                isLoading={isAssetMetricsLoading}
+                error={assetMetricsError}
+                timeZone={reportingTimeZone}
+                onOpenAsset={handleOpenAsset}
               />
             </div>
 
@@ -1120,9 +1711,69 @@ const Home = () => {
               onResolveUser={getUserFullName}
               onOpenEntry={handleOpenEntry}
               needsUpdateMonths={needsUpdateMonths}
+              needsUpdateRules={needsUpdateRules}
               recentlyPublishedDays={recentlyPublishedDays}
+              onMarkReviewed={setReviewingEntryId}
+              onShowReviewHistory={setReviewHistoryEntryId}
+              taskActions={taskActions}
+              entryStages={stageReport?.entryStages}
+              attribution={attribution}
             />
-            
+
+            {reviewingEntry && (
+              <MarkReviewedDialog
+                open={true}
+                onOpenChange={(open) => !open && setReviewingEntryId(null)}
+                defaultMonths={
+                  getNeedsUpdateRule(reviewingEntry.sys.contentType?.sys.id, { needsUpdateMonths, needsUpdateRules }).months ??
+                  needsUpdateMonths
+                }
+                onConfirm={handleMarkReviewed}
+              />
+            )}
+
+            {reviewHistoryEntryId && (
+              <ReviewHistoryDialog
+                open={true}
+                onOpenChange={(open) => !open && setReviewHistoryEntryId(null)}
+                loadReviews={loadReviewHistory}
+                onResolveUser={getUserFullName}
+              />
+            )}
+
+            {openKpiList && (
+              <KpiEntryListDialog
+                title={kpiListTitles[openKpiList]}
+                description={kpiListDescriptions[openKpiList]}
+                open={true}
+                onOpenChange={(open) => !open && setOpenKpiList(null)}
+                loadPage={loadKpiListPage}
+                showDaysToPublish={openKpiList === 'averageTimeToPublish'}
+                userCache={userCache}
+                onResolveUser={getUserFullName}
+                onOpenEntry={handleOpenEntry}
+                taskActions={openKpiList === 'needsUpdate' ? taskActions : undefined}
+                entryStages={stageReport?.entryStages}
+                attribution={attribution}
+              />
+            )}
+
+            {openDraftList && (
+              <KpiEntryListDialog
+                title="Draft Backlog"
+                description={getDraftListDescription(openDraftList)}
+                open={true}
+                onOpenChange={(open) => !open && setOpenDraftList(null)}
+                loadPage={loadDraftListPage}
+                userCache={userCache}
+                onResolveUser={getUserFullName}
+                onOpenEntry={handleOpenEntry}
+                taskActions={taskActions}
+                entryStages={stageReport?.entryStages}
+                attribution={attribution}
+              />
+            )}
+
             {/* Bottom spacer to prevent content from being at the very bottom */}
             <div className="h-16"></div>
           </>
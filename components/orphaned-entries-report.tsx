@@ -0,0 +1,271 @@
+import { useState } from "react"
+import { ChevronDown, Copy, Download, ListFilter } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ORPHAN_AGE_BUCKETS, OrphanedEntry, summarizeOrphanedEntries } from "../utils/orphaned-entries"
+
+// Rows shown before "Show More"
+const PAGE_SIZE = 25
+
+interface OrphanedEntriesReportProps {
+  orphans: OrphanedEntry[] | null
+  isLoading: boolean
+  error?: string | null
+  // Root content types, such as pages, that are left out of the report
+  excludedContentTypes: string[]
+  onExcludedContentTypesChange: (contentTypeIds: string[]) => void
+  onOpenEntry: (entryId: string) => void
+}
+
+interface ListSelection {
+  contentTypeId?: string
+  ageBucket?: number
+}
+
+const toCsv = (orphans: OrphanedEntry[]) =>
+  [
+    ['ID', 'Title', 'Content Type', 'First Published', 'Last Updated'],
+    ...orphans.map(orphan => [orphan.id, orphan.title, orphan.contentTypeName, orphan.firstPublishedAt, orphan.updatedAt]),
+  ]
+    .map(row => row.map(value => `"${value.replace(/"/g, '""')}"`).join(','))
+    .join('\n')
+
+const downloadCsv = (orphans: OrphanedEntry[]) => {
+  const url = URL.createObjectURL(new Blob([toCsv(orphans)], { type: 'text/csv' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = 'orphaned-entries.csv'
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Published entries nothing links to, grouped by content type and age, with bulk selection for clean-up
+export default function OrphanedEntriesReport({
+  orphans,
+  isLoading,
+  error,
+  excludedContentTypes,
+  onExcludedContentTypesChange,
+  onOpenEntry,
+}: OrphanedEntriesReportProps) {
+  const [listSelection, setListSelection] = useState<ListSelection>({})
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE)
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>
+  }
+  if (!orphans) {
+    return <p className="text-sm text-muted-foreground">{isLoading ? 'Looking for orphaned entries...' : 'No reference data yet.'}</p>
+  }
+
+  const report = summarizeOrphanedEntries(orphans, excludedContentTypes)
+  const contentTypeNames = new Map(orphans.map(orphan => [orphan.contentTypeId, orphan.contentTypeName]))
+  const listedEntries = report.entries.filter(orphan =>
+    (!listSelection.contentTypeId || orphan.contentTypeId === listSelection.contentTypeId) &&
+    (listSelection.ageBucket === undefined || orphan.ageBucket === listSelection.ageBucket)
+  )
+  const selectedEntries = report.entries.filter(orphan => selectedIds.has(orphan.id))
+  const areAllListedSelected = listedEntries.length > 0 && listedEntries.every(orphan => selectedIds.has(orphan.id))
+
+  const selectList = (selection: ListSelection) => {
+    setListSelection(selection)
+    setVisibleCount(PAGE_SIZE)
+  }
+
+  const toggleEntry = (entryId: string, checked: boolean) => {
+    const next = new Set(selectedIds)
+    if (checked) next.add(entryId)
+    else next.delete(entryId)
+    setSelectedIds(next)
+  }
+
+  // Select-all covers every entry in the current list, not only the rows shown
+  const toggleListed = (checked: boolean) => {
+    const next = new Set(selectedIds)
+    listedEntries.forEach(orphan => (checked ? next.add(orphan.id) : next.delete(orphan.id)))
+    setSelectedIds(next)
+  }
+
+  const toggleExcluded = (contentTypeId: string, checked: boolean) => {
+    onExcludedContentTypesChange(
+      checked ? [...excludedContentTypes, contentTypeId] : excludedContentTypes.filter(id => id !== contentTypeId)
+    )
+  }
+
+  return (
+    <div className={isLoading ? "w-full rounded-xl bg-white p-6 shadow-sm opacity-50" : "w-full rounded-xl bg-white p-6 shadow-sm"}>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Published entries that no other entry links to, by time since they were first published
+        </p>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-2">
+              <ListFilter className="h-4 w-4" />
+              {excludedContentTypes.length ? `${excludedContentTypes.length} root types excluded` : 'Exclude root types'}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+            <DropdownMenuLabel>Root content types</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {contentTypeNames.size === 0 ? (
+              <DropdownMenuItem disabled>No orphaned entries</DropdownMenuItem>
+            ) : (
+              Array.from(contentTypeNames.entries())
+                .sort((a, b) => a[1].localeCompare(b[1]))
+                .map(([contentTypeId, name]) => (
+                  <DropdownMenuCheckboxItem
+                    key={contentTypeId}
+                    checked={excludedContentTypes.includes(contentTypeId)}
+                    onCheckedChange={(checked) => toggleExcluded(contentTypeId, checked === true)}
+                    onSelect={(event) => event.preventDefault()}
+                  >
+                    {name}
+                  </DropdownMenuCheckboxItem>
+                ))
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Content Type</TableHead>
+            {ORPHAN_AGE_BUCKETS.map(bucket => (
+              <TableHead key={bucket.label} className="text-right">{bucket.label}</TableHead>
+            ))}
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.byContentType.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={ORPHAN_AGE_BUCKETS.length + 2} className="h-24 text-center">
+                Every published entry is linked from another entry.
+              </TableCell>
+            </TableRow>
+          ) : (
+            [
+              ...report.byContentType,
+              { id: '', name: 'All content types', counts: report.byAge, total: report.total },
+            ].map(({ id, name, counts, total }) => (
+              <TableRow key={id || 'all'} className={id ? undefined : "font-medium"}>
+                <TableCell>{name}</TableCell>
+                {counts.map((count, ageBucket) => (
+                  <TableCell key={ORPHAN_AGE_BUCKETS[ageBucket].label} className="text-right">
+                    <button
+                      className="hover:underline disabled:text-muted-foreground disabled:no-underline"
+                      disabled={count === 0}
+                      onClick={() => selectList({ contentTypeId: id || undefined, ageBucket })}
+                    >
+                      {count}
+                    </button>
+                  </TableCell>
+                ))}
+                <TableCell className="text-right">
+                  <button className="hover:underline" onClick={() => selectList({ contentTypeId: id || undefined })}>
+                    {total}
+                  </button>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      <div className="mt-6 mb-2 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base font-semibold">
+          {[
+            listSelection.contentTypeId ? contentTypeNames.get(listSelection.contentTypeId) : 'All orphaned entries',
+            listSelection.ageBucket !== undefined ? ORPHAN_AGE_BUCKETS[listSelection.ageBucket].label : null,
+          ].filter(Boolean).join(', ')} ({listedEntries.length})
+        </h3>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">{selectedEntries.length} selected</span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={selectedEntries.length === 0}
+            onClick={() => navigator.clipboard.writeText(selectedEntries.map(orphan => orphan.id).join('\n'))}
+          >
+            <Copy className="h-4 w-4" /> Copy IDs
+          </Button>
+          <Button variant="outline" size="sm" disabled={selectedEntries.length === 0} onClick={() => downloadCsv(selectedEntries)}>
+            <Download className="h-4 w-4" /> Download CSV
+          </Button>
+          <Button variant="ghost" size="sm" disabled={selectedEntries.length === 0} onClick={() => setSelectedIds(new Set())}>
+            Clear
+          </Button>
+        </div>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                checked={areAllListedSelected}
+                onCheckedChange={(checked) => toggleListed(checked === true)}
+                aria-label="Select all listed entries"
+              />
+            </TableHead>
+            <TableHead>Title</TableHead>
+            <TableHead>Content Type</TableHead>
+            <TableHead>First Published</TableHead>
+            <TableHead>Last Updated</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {listedEntries.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="h-24 text-center">No orphaned entries.</TableCell>
+            </TableRow>
+          ) : (
+            listedEntries.slice(0, visibleCount).map(orphan => (
+              <TableRow key={orphan.id}>
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.has(orphan.id)}
+                    onCheckedChange={(checked) => toggleEntry(orphan.id, checked === true)}
+                    aria-label={`Select ${orphan.title}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <button className="font-medium text-left hover:underline" onClick={() => onOpenEntry(orphan.id)}>
+                    {orphan.title}
+                  </button>
+                </TableCell>
+                <TableCell>{orphan.contentTypeName}</TableCell>
+                <TableCell>{new Date(orphan.firstPublishedAt).toLocaleDateString()}</TableCell>
+                <TableCell>{new Date(orphan.updatedAt).toLocaleDateString()}</TableCell>
+              </TableRow>
+            ))
+          )}
+          {listedEntries.length > visibleCount && (
+            <TableRow>
+              <TableCell colSpan={5}>
+                <div
+                  className="flex items-center justify-center w-full gap-2 text-muted-foreground hover:text-foreground cursor-pointer py-2"
+                  onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                >
+                  Show More <ChevronDown className="h-4 w-4" />
+                </div>
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react"
+import { EntryProps } from "contentful-management"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ContentTable } from "@/components/content-table"
+import { toContentItem } from "@/components/ContentEntryTabs"
+import { MyContent, MyTasks } from "../utils/personal-view"
+import { EntryStage } from "../utils/workflow-stages"
+import { ATTRIBUTION_MODE_LABELS, Attribution, DEFAULT_ATTRIBUTION } from "../utils/attribution"
+
+interface PersonalEntryListProps {
+  title: string
+  description: string
+  entries: EntryProps[]
+  showStage?: boolean
+  userCache: Record<string, string>
+  onResolveUser: (userId: string) => Promise<string>
+  onOpenEntry: (entryId: string) => void
+  entryStages?: Record<string, EntryStage>
+  attribution?: Attribution
+}
+
+function PersonalEntryList({
+  title,
+  description,
+  entries,
+  showStage = false,
+  userCache,
+  onResolveUser,
+  onOpenEntry,
+  entryStages,
+  attribution = DEFAULT_ATTRIBUTION,
+}: PersonalEntryListProps) {
+  const [rows, setRows] = useState<Awaited<ReturnType<typeof toContentItem>>[]>([])
+
+  useEffect(() => {
+    let isCurrent = true
+    Promise.all(entries.map(entry => toContentItem(entry, userCache, onResolveUser, { attribution, entryStages }))).then(items => {
+      if (isCurrent) setRows(items)
+    })
+    return () => {
+      isCurrent = false
+    }
+  }, [entries, userCache, onResolveUser, attribution, entryStages])
+
+  return (
+    <ContentTable
+      title={`${title} (${entries.length})`}
+      description={description}
+      data={rows}
+      showStage={showStage || Boolean(entryStages)}
+      authorLabel={ATTRIBUTION_MODE_LABELS[attribution.mode]}
+      onEntryClick={onOpenEntry}
+      hideActions={true}
+    />
+  )
+}
+
+interface PersonalDashboardProps {
+  view: 'content' | 'tasks'
+  myContent: MyContent | null
+  myTasks: MyTasks | null
+  // Entries checked so far while My tasks loads
+  myTasksProgress?: { checkedCount: number; limitedCount: number } | null
+  isLoading: boolean
+  error?: string | null
+  userCache: Record<string, string>
+  onResolveUser: (userId: string) => Promise<string>
+  onOpenEntry: (entryId: string) => void
+  // Workflow stage by entry ID, shown in the Status column of every list
+  entryStages?: Record<string, EntryStage>
+  // Who the author column credits each entry to; defaults to sys.createdBy
+  attribution?: Attribution
+}
+
+// The current user's entries or assigned tasks, in place of the space-wide dashboard
+export default function PersonalDashboard({
+  view,
+  myContent,
+  myTasks,
+  myTasksProgress,
+  isLoading,
+  error,
+  userCache,
+  onResolveUser,
+  onOpenEntry,
+  entryStages,
+  attribution,
+}: PersonalDashboardProps) {
+  const [taskTitles, setTaskTitles] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (!myTasks) return
+    let isCurrent = true
+    Promise.all(myTasks.tasks.map(({ entry }) => toContentItem(entry, userCache, onResolveUser))).then(items => {
+      if (isCurrent) setTaskTitles(Object.fromEntries(items.map(item => [item.id, item.title])))
+    })
+    return () => {
+      isCurrent = false
+    }
+  }, [myTasks, userCache, onResolveUser])
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>
+  }
+
+  if (view === 'tasks') {
+    const progressText = isLoading && myTasksProgress
+      ? `Checked ${myTasksProgress.checkedCount} of ${myTasksProgress.limitedCount} entries for your open tasks...`
+      : null
+    if (!myTasks) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          {isLoading ? progressText || 'Looking for your open tasks...' : 'No task data yet.'}
+        </p>
+      )
+    }
+    const { tasks, checkedCount, totalCount } = myTasks
+    return (
+      <div className={isLoading ? "w-full rounded-xl bg-white p-6 shadow-sm opacity-50" : "w-full rounded-xl bg-white p-6 shadow-sm"}>
+        <h2 className="text-lg font-semibold mb-1">My tasks ({tasks.length})</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          {progressText || (checkedCount < totalCount
+            ? `Open tasks assigned to you on the ${checkedCount} most recently updated of ${totalCount} entries, due soonest first`
+            : 'Open tasks assigned to you, due soonest first')}
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Task</TableHead>
+              <TableHead>Entry</TableHead>
+              <TableHead>Due</TableHead>
+              <TableHead>Assigned</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tasks.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="h-24 text-center">You have no open tasks.</TableCell>
+              </TableRow>
+            ) : (
+              tasks.map(({ task, entry }) => (
+                <TableRow key={task.sys.id}>
+                  <TableCell className="whitespace-pre-wrap">{task.body}</TableCell>
+                  <TableCell>
+                    <button className="font-medium text-left hover:underline" onClick={() => onOpenEntry(entry.sys.id)}>
+                      {taskTitles[entry.sys.id] || entry.sys.id}
+                    </button>
+                  </TableCell>
+                  <TableCell>{task.dueDate ? new Date(task.dueDate).toLocaleDateString() : '—'}</TableCell>
+                  <TableCell>{new Date(task.sys.createdAt).toLocaleDateString()}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    )
+  }
+
+  if (!myContent) {
+    return <p className="text-sm text-muted-foreground">{isLoading ? 'Loading your content...' : 'No content data yet.'}</p>
+  }
+
+  const listProps = { userCache, onResolveUser, onOpenEntry, entryStages, attribution }
+  return (
+    <div className={isLoading ? "opacity-50" : undefined}>
+      <Tabs defaultValue="recent">
+        <TabsList>
+          <TabsTrigger value="recent">Recent</TabsTrigger>
+          <TabsTrigger value="drafts">Drafts</TabsTrigger>
+          <TabsTrigger value="update">Needs Update</TabsTrigger>
+          <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
+        </TabsList>
+        <TabsContent value="recent" className="space-y-4">
+          <PersonalEntryList
+            title="My Content"
+            description="Entries you created or last updated, most recently updated first"
+            entries={myContent.recent}
+            showStage={true}
+            {...listProps}
+          />
+        </TabsContent>
+        <TabsContent value="drafts" className="space-y-4">
+          <PersonalEntryList
+            title="My Drafts"
+            description="Your entries that have never been published"
+            entries={myContent.drafts}
+            {...listProps}
+          />
+        </TabsContent>
+        <TabsContent value="update" className="space-y-4">
+          <PersonalEntryList
+            title="My Content Needing Updates"
+            description="Your published entries past their review period"
+            entries={myContent.needsUpdate}
+            {...listProps}
+          />
+        </TabsContent>
+        <TabsContent value="scheduled" className="space-y-4">
+          <PersonalEntryList
+            title="My Scheduled Content"
+            description="Upcoming publications you scheduled or of entries you own"
+            entries={myContent.scheduled}
+            showStage={true}
+            {...listProps}
+          />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { Tag } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+
+interface TagFilterProps {
+  // Tag ID -> display name
+  tagNames: Record<string, string>
+  selectedTags: string[]
+  onChange: (tags: string[]) => void
+}
+
+// Narrows the whole dashboard to entries with any of the picked tags
+export default function TagFilter({ tagNames, selectedTags, onChange }: TagFilterProps) {
+  const tagIds = Object.keys(tagNames).sort((a, b) => tagNames[a].localeCompare(tagNames[b]))
+  const label = selectedTags.length === 0
+    ? 'All tags'
+    : selectedTags.length === 1
+      ? tagNames[selectedTags[0]] || selectedTags[0]
+      : `${selectedTags.length} tags`
+
+  const toggleTag = (tagId: string, checked: boolean) => {
+    onChange(checked ? [...selectedTags, tagId] : selectedTags.filter(id => id !== tagId))
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Tag className="h-4 w-4" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+        <DropdownMenuLabel>Filter by tags</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {tagIds.length === 0 ? (
+          <DropdownMenuItem disabled>No tags in this environment</DropdownMenuItem>
+        ) : (
+          tagIds.map(tagId => (
+            <DropdownMenuCheckboxItem
+              key={tagId}
+              checked={selectedTags.includes(tagId)}
+              onCheckedChange={(checked) => toggleTag(tagId, checked === true)}
+              // Keep the menu open to pick several tags
+              onSelect={(event) => event.preventDefault()}
+            >
+              {tagNames[tagId]}
+            </DropdownMenuCheckboxItem>
+          ))
+        )}
+        {selectedTags.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => onChange([])}>Clear tags</DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
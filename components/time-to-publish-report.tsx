@@ -0,0 +1,100 @@
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { TimeToPublishBreakdown, TimeToPublishReport as TimeToPublishReportData } from "../utils/aggregation"
+
+interface TimeToPublishReportProps {
+  report: TimeToPublishReportData
+  // Window of first publications the report covers
+  timeToPublishDays: number
+  // Who entries are credited to in the per person breakdown
+  authorLabel?: string
+}
+
+const formatDays = (days: number) => `${days.toFixed(1)} days`
+
+const BreakdownTable = ({ rows, label }: { rows: TimeToPublishBreakdown[]; label: string }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{label}</TableHead>
+        <TableHead className="text-right">Entries</TableHead>
+        <TableHead className="text-right">Median</TableHead>
+        <TableHead className="text-right">Mean</TableHead>
+        <TableHead className="text-right">p75</TableHead>
+        <TableHead className="text-right">p90</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rows.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={6} className="h-24 text-center">
+            No entries were first published in this period.
+          </TableCell>
+        </TableRow>
+      ) : (
+        rows.map(({ name, stats }) => (
+          <TableRow key={name}>
+            <TableCell>{name}</TableCell>
+            <TableCell className="text-right">{stats.count}</TableCell>
+            <TableCell className="text-right">{formatDays(stats.median)}</TableCell>
+            <TableCell className="text-right">{formatDays(stats.mean)}</TableCell>
+            <TableCell className="text-right">{formatDays(stats.p75)}</TableCell>
+            <TableCell className="text-right">{formatDays(stats.p90)}</TableCell>
+          </TableRow>
+        ))
+      )}
+    </TableBody>
+  </Table>
+)
+
+// Distribution of days from creation to first publication, overall and per group
+export default function TimeToPublishReport({ report, timeToPublishDays, authorLabel = 'Creator' }: TimeToPublishReportProps) {
+  const { overall, histogram, byContentType, byCreator } = report
+  const summary = [
+    { label: 'Median', value: formatDays(overall.median) },
+    { label: 'Mean', value: formatDays(overall.mean) },
+    { label: '75th percentile', value: formatDays(overall.p75) },
+    { label: '90th percentile', value: formatDays(overall.p90) },
+    { label: 'Entries', value: overall.count.toString() },
+  ]
+
+  return (
+    <div className="w-full rounded-xl bg-white p-6 shadow-sm">
+      <p className="mb-4 text-sm text-muted-foreground">
+        Entries first published in the last {timeToPublishDays} days
+      </p>
+      <div className="mb-6 grid grid-cols-2 gap-4 sm:grid-cols-5">
+        {summary.map(({ label, value }) => (
+          <div key={label}>
+            <div className="text-sm text-muted-foreground">{label}</div>
+            <div className="text-2xl font-semibold">{value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="mb-6 h-[240px]" role="img" aria-label="Histogram of days from creation to first publication">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={histogram} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+            <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+            <YAxis tick={{ fontSize: 12 }} allowDecimals={false} />
+            <Tooltip formatter={(value: number) => [`${value} entries`, 'Published']} />
+            <Bar dataKey="count" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <Tabs defaultValue="by-type" className="w-full">
+        <TabsList className="bg-muted h-10">
+          <TabsTrigger value="by-type">By Content Type</TabsTrigger>
+          <TabsTrigger value="by-creator">By {authorLabel}</TabsTrigger>
+        </TabsList>
+        <TabsContent value="by-type" className="mt-4">
+          <BreakdownTable rows={byContentType} label="Content Type" />
+        </TabsContent>
+        <TabsContent value="by-creator" className="mt-4">
+          <BreakdownTable rows={byCreator} label={authorLabel} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
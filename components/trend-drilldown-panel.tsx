@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react"
+import { EntryProps } from "contentful-management"
+import { ChevronDown, X } from "lucide-react"
+import { ContentTable } from "@/components/content-table"
+import { toContentItem } from "@/components/ContentEntryTabs"
+import { ACTIVITY_SERIES, formatBucketLabel, LIFECYCLE_SERIES, TrendBucketSelection } from "../utils/aggregation"
+import { EntryStage } from "../utils/workflow-stages"
+import { ATTRIBUTION_MODE_LABELS, Attribution, DEFAULT_ATTRIBUTION } from "../utils/attribution"
+
+interface TrendDrillDownPanelProps {
+  selection: TrendBucketSelection
+  // Entries loaded so far, in display order
+  entries: EntryProps[]
+  // Number of entries in the bucket, loaded or not
+  total: number
+  isLoading: boolean
+  error?: string | null
+  userCache: Record<string, string>
+  onResolveUser: (userId: string) => Promise<string>
+  onOpenEntry: (entryId: string) => void
+  onShowMore: () => void
+  onClose: () => void
+  // Workflow stage by entry ID; adds the Status column when given
+  entryStages?: Record<string, EntryStage>
+  // Who the author column credits each entry to; defaults to sys.createdBy
+  attribution?: Attribution
+}
+
+// Entries behind a clicked point of a trend chart
+export default function TrendDrillDownPanel({
+  selection,
+  entries,
+  total,
+  isLoading,
+  error,
+  userCache,
+  onResolveUser,
+  onOpenEntry,
+  onShowMore,
+  onClose,
+  entryStages,
+  attribution = DEFAULT_ATTRIBUTION,
+}: TrendDrillDownPanelProps) {
+  const [rows, setRows] = useState<Awaited<ReturnType<typeof toContentItem>>[]>([])
+  // Activity and lifecycle series each count a different event; the others count first publications
+  const isEventSeries = selection.dimension === 'activity' || selection.dimension === 'lifecycle'
+  const dateField = selection.series === ACTIVITY_SERIES.republished
+    ? 'publishedAt'
+    : selection.series === LIFECYCLE_SERIES.archived
+      ? 'archivedAt'
+      : selection.series === LIFECYCLE_SERIES.unpublished
+        ? 'updatedAt'
+        : 'firstPublishedAt'
+
+  useEffect(() => {
+    let isCurrent = true
+    Promise.all(entries.map(entry => toContentItem(entry, userCache, onResolveUser, { attribution, entryStages }))).then(items => {
+      if (!isCurrent) return
+      // Show the publication the bucket is based on
+      setRows(items.map((item, index) => {
+        const sys = entries[index].sys as EntryProps['sys'] & { firstPublishedAt?: string }
+        return { ...item, date: sys[dateField] || item.date }
+      }))
+    })
+    return () => {
+      isCurrent = false
+    }
+  }, [entries, userCache, onResolveUser, dateField, attribution, entryStages])
+
+  const bucketLabel = `${selection.granularity === 'day' ? 'on' : 'in'} ${formatBucketLabel(selection.date, selection.granularity)}`
+  const title = isEventSeries
+    ? `${selection.series || (selection.dimension === 'activity' ? 'Published or republished' : 'Published or taken down')} ${bucketLabel}`
+    : selection.series
+      ? `${selection.series}: first published ${bucketLabel}`
+      : `First published ${bucketLabel}`
+  const description = error
+    ? error
+    : isLoading && entries.length === 0
+      ? 'Loading entries...'
+      : `${total} ${total === 1 ? 'entry' : 'entries'}`
+
+  const data = rows.length < total && !error
+    ? [
+        ...rows,
+        {
+          id: 'show-more',
+          title: (
+            <div
+              className="flex items-center justify-center w-full gap-2 text-muted-foreground hover:text-foreground cursor-pointer py-2"
+              onClick={() => !isLoading && onShowMore()}
+            >
+              {isLoading ? 'Loading...' : <>Show More <ChevronDown className="h-4 w-4" /></>}
+            </div>
+          ),
+          author: '',
+          status: '',
+          contentType: '',
+          date: '',
+          isShowMoreRow: true
+        }
+      ]
+    : rows
+
+  return (
+    <div className="relative">
+      <button
+        onClick={onClose}
+        className="absolute right-3 top-3 z-10 p-1 rounded-md text-gray-500 hover:bg-gray-100"
+        aria-label="Close entry list"
+      >
+        <X className="h-4 w-4" />
+      </button>
+      <ContentTable
+        title={title}
+        description={description}
+        data={data}
+        onEntryClick={onOpenEntry}
+        hideActions={true}
+        showStage={Boolean(entryStages)}
+        authorLabel={ATTRIBUTION_MODE_LABELS[attribution.mode]}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { StageReport } from "../utils/workflow-stages"
+
+interface WorkflowStageReportProps {
+  report: StageReport | null
+  isLoading: boolean
+  error?: string | null
+}
+
+const formatDays = (days: number) => `${days.toFixed(1)} days`
+
+// How many entries sit in each editorial stage and for how long
+export default function WorkflowStageReport({ report, isLoading, error }: WorkflowStageReportProps) {
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>
+  }
+  if (!report) {
+    return <p className="text-sm text-muted-foreground">{isLoading ? 'Loading workflow stages...' : 'No stage data yet.'}</p>
+  }
+
+  const chartData = report.stages.map(({ name, stats }) => ({ name, count: stats.count }))
+
+  return (
+    <div className={isLoading ? "w-full rounded-xl bg-white p-6 shadow-sm opacity-50" : "w-full rounded-xl bg-white p-6 shadow-sm"}>
+      <p className="mb-4 text-sm text-muted-foreground">
+        {report.usesWorkflows
+          ? 'Entries by their current workflow step; entries outside a workflow use their status field where one is configured'
+          : 'Entries by the value of their status field, as set for each content type in the app configuration'}
+      </p>
+      {report.stages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No entries have a stage. Start Workflows in this space, or pick a status field per content type in the app configuration.
+        </p>
+      ) : (
+        <>
+          <div className="mb-6 h-[240px]" role="img" aria-label="Entries in each stage">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+                <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} allowDecimals={false} />
+                <Tooltip formatter={(value: number) => [`${value} entries`, 'In stage']} />
+                <Bar dataKey="count" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stage</TableHead>
+                <TableHead className="text-right">Entries</TableHead>
+                <TableHead className="text-right">Mean Time in Stage</TableHead>
+                <TableHead className="text-right">Median</TableHead>
+                <TableHead className="text-right">90th Percentile</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.stages.map(({ name, stats }) => (
+                <TableRow key={name}>
+                  <TableCell>{name}</TableCell>
+                  <TableCell className="text-right">{stats.count}</TableCell>
+                  <TableCell className="text-right">{formatDays(stats.mean)}</TableCell>
+                  <TableCell className="text-right">{formatDays(stats.median)}</TableCell>
+                  <TableCell className="text-right">{formatDays(stats.p90)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Time in stage counts from the last workflow change, or for status fields from the entry&apos;s last update.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,930 @@
+import { EntryProps } from 'contentful-management';
+import { Attribution, DEFAULT_ATTRIBUTION, getEntryAuthor } from './attribution';
+import { calculatePercentageChange } from './calculations';
+import { createDashboardFilter, DashboardFilter, matchesDashboardFilter } from './dashboard-filter';
+import { isNeedsUpdate, NeedsUpdateRules } from './needs-update';
+import {
+  getBrowserTimeZone,
+  getZonedDate,
+  getZonedDaysAgo,
+  normalizeZonedDate,
+  parseDateKey,
+  toDateKey
+} from './timezone';
+
+export type TimeRange =
+  | '30days'
+  | '90days'
+  | 'lastQuarter'
+  | '6months'
+  | 'yearToDate'
+  | 'year'
+  | 'all'
+  | 'custom';
+
+// Inclusive range of `YYYY-MM-DD` day keys in the reporting timezone
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export type ComparisonMode = 'none' | 'previousPeriod' | 'previousYear';
+
+export interface TrendRangeSelection {
+  timeRange: TimeRange;
+  // Only used when timeRange is 'custom'
+  customRange?: DateRange;
+  granularity?: Granularity;
+  compareTo?: ComparisonMode;
+}
+
+export interface ComparisonSummary {
+  current: number;
+  previous: number;
+  percentChange: number;
+}
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter';
+
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month', 'quarter'];
+
+// Time ranges that make sense for each granularity, shortest first
+export const GRANULARITY_TIME_RANGES: Record<Granularity, TimeRange[]> = {
+  day: ['30days', '90days', 'lastQuarter', 'custom'],
+  week: ['30days', '90days', 'lastQuarter', '6months', 'yearToDate', 'year', 'custom'],
+  month: ['lastQuarter', '6months', 'yearToDate', 'year', 'all', 'custom'],
+  quarter: ['yearToDate', 'year', 'all', 'custom']
+};
+
+export interface TrendPoint {
+  date: string;
+  count: number;
+  percentChange?: number;
+}
+
+export interface SeriesPoint {
+  date: string;
+  [series: string]: string | number;
+}
+
+export interface SeriesTrend {
+  data: SeriesPoint[];
+  series: string[];
+}
+
+export interface PublishingTrends {
+  overall: TrendPoint[];
+  byContentType: SeriesTrend;
+  byCreator: SeriesTrend;
+  // An entry with several tags counts towards each of them
+  byTag: SeriesTrend;
+  // First publications next to republications of already published entries
+  activity: SeriesTrend;
+  // Entries going live and being taken down again, see LIFECYCLE_SERIES
+  lifecycle: SeriesTrend;
+  // Published entries at the end of each bucket
+  totalPublished: TrendPoint[];
+}
+
+export type TrendDimension = 'contentType' | 'creator' | 'tag' | 'activity' | 'lifecycle';
+
+export const ACTIVITY_SERIES = {
+  firstPublished: 'First published',
+  republished: 'Republished'
+};
+
+export const LIFECYCLE_SERIES = {
+  // First publications, including entries taken down since
+  published: 'Published',
+  unpublished: 'Unpublished',
+  archived: 'Archived',
+  // Published minus unpublished or archived after being published
+  net: 'Net published'
+};
+
+// One bucket of a trend, e.g. the articles first published in June 2025
+export interface TrendBucketSelection {
+  granularity: Granularity;
+  // Bucket key
+  date: string;
+  // Series to narrow the bucket to; without it the bucket covers every series
+  dimension?: TrendDimension;
+  series?: string;
+}
+
+// Which statistic the time to publish KPI card shows
+export type TimeToPublishStatistic = 'mean' | 'median';
+
+// Days from creation to first publication
+export interface TimeToPublishStats {
+  count: number;
+  mean: number;
+  median: number;
+  p75: number;
+  p90: number;
+}
+
+export interface TimeToPublishBreakdown {
+  name: string;
+  stats: TimeToPublishStats;
+}
+
+export interface TimeToPublishBin {
+  label: string;
+  minDays: number;
+  // Exclusive; null for the open-ended last bin
+  maxDays: number | null;
+  count: number;
+}
+
+export interface TimeToPublishReport {
+  overall: TimeToPublishStats;
+  histogram: TimeToPublishBin[];
+  byContentType: TimeToPublishBreakdown[];
+  byCreator: TimeToPublishBreakdown[];
+}
+
+export interface DraftAgeBucket {
+  label: string;
+  minDays: number;
+  // Exclusive; null for the open-ended last bucket
+  maxDays: number | null;
+}
+
+export const DRAFT_AGE_BUCKETS: DraftAgeBucket[] = [
+  { label: '< 7 days', minDays: 0, maxDays: 7 },
+  { label: '7-30 days', minDays: 7, maxDays: 30 },
+  { label: '30-90 days', minDays: 30, maxDays: 90 },
+  { label: '90+ days', minDays: 90, maxDays: null }
+];
+
+export interface DraftBacklogBreakdown {
+  // Content type, user or owner ID the row stands for
+  id: string;
+  name: string;
+  // Drafts per age bucket, in DRAFT_AGE_BUCKETS order
+  counts: number[];
+  total: number;
+}
+
+// Entries that were never published, by how long ago they were created
+export interface DraftBacklogReport {
+  total: number;
+  byAge: number[];
+  byContentType: DraftBacklogBreakdown[];
+  byCreator: DraftBacklogBreakdown[];
+  // Open drafts at the end of each of the past 12 months
+  trend: TrendPoint[];
+}
+
+export interface DashboardKpis {
+  totalPublished: number;
+  percentChange: number;
+  previousMonthPublished: number;
+  recentlyPublishedCount: number;
+  needsUpdateCount: number;
+  averageTimeToPublish: number;
+  medianTimeToPublish: number;
+  pendingChangesCount: number;
+  // Published entries at the end of the previous month
+  previousMonthTotalPublished: number;
+  archivedCount: number;
+  // Entries that were published once and are now neither published nor archived
+  unpublishedCount: number;
+  // Mean days from first publication to archiving
+  averageLifespan: number;
+}
+
+export interface DashboardMetrics {
+  trends: Record<Granularity, PublishingTrends>;
+  kpis: DashboardKpis;
+  timeToPublish: TimeToPublishReport;
+  draftBacklog: DraftBacklogReport;
+}
+
+export interface AggregationOptions {
+  now?: Date;
+  // IANA timezone all buckets and cutoffs are computed in
+  timeZone?: string;
+  // Entries outside the filter are left out of every metric
+  filter?: DashboardFilter;
+  // Content type ID -> display name
+  contentTypeNames?: Record<string, string>;
+  // User ID -> display name
+  userNames?: Record<string, string>;
+  // Who entries are credited to in the creator breakdowns; defaults to sys.createdBy
+  attribution?: Attribution;
+  // Tag ID -> display name
+  tagNames?: Record<string, string>;
+  recentlyPublishedDays?: number;
+  needsUpdateMonths?: number;
+  // Per content type thresholds; date fields only apply to entries loaded with fields
+  needsUpdateRules?: NeedsUpdateRules;
+  timeToPublishDays?: number;
+  // Day key daily and weekly trends must reach back to, e.g. the start of a custom range
+  trendsStart?: string;
+}
+
+type AggregatedEntry = EntryProps & {
+  sys: EntryProps['sys'] & {
+    firstPublishedAt?: string;
+    archivedAt?: string;
+  };
+};
+
+interface BucketCounts {
+  overall: Map<string, number>;
+  byContentType: Map<string, Map<string, number>>;
+  byCreator: Map<string, Map<string, number>>;
+  byTag: Map<string, Map<string, number>>;
+  activity: Map<string, Map<string, number>>;
+  lifecycle: Map<string, Map<string, number>>;
+  // Change in published entries before the first bucket, the starting point of totalPublished
+  netBeforeHistory: number;
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Histogram bin edges in days; the last bin is open-ended
+const TIME_TO_PUBLISH_BIN_EDGES = [0, 1, 3, 7, 14, 30, 90];
+
+const shiftDateKey = (key: string, { days = 0, months = 0 }: { days?: number; months?: number }) => {
+  const { year, month, day } = parseDateKey(key);
+  return toDateKey(normalizeZonedDate({ year, month: month + months, day: day + days }));
+};
+
+/**
+ * Key of the bucket a day falls in: the day itself, the Monday starting its
+ * week, or the first day of its month or quarter.
+ */
+export const getBucketKey = (dayKey: string, granularity: Granularity): string => {
+  const { year, month, day } = parseDateKey(dayKey);
+  switch (granularity) {
+    case 'day':
+      return dayKey;
+    case 'week': {
+      const daysSinceMonday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+      return shiftDateKey(dayKey, { days: -daysSinceMonday });
+    }
+    case 'quarter':
+      return toDateKey({ year, month: Math.floor((month - 1) / 3) * 3 + 1, day: 1 });
+    default:
+      return toDateKey({ year, month, day: 1 });
+  }
+};
+
+const shiftBucketKey = (key: string, granularity: Granularity, offset: number) => {
+  switch (granularity) {
+    case 'day':
+      return shiftDateKey(key, { days: offset });
+    case 'week':
+      return shiftDateKey(key, { days: offset * 7 });
+    case 'quarter':
+      return shiftDateKey(key, { months: offset * 3 });
+    default:
+      return shiftDateKey(key, { months: offset });
+  }
+};
+
+/**
+ * First and last day of a time range relative to today. A null start means
+ * the range reaches back to the first publication.
+ */
+export const getTimeRangeBounds = (
+  todayKey: string,
+  timeRange: TimeRange,
+  customRange?: DateRange
+): { start: string | null; end: string } => {
+  switch (timeRange) {
+    case '30days':
+      return { start: shiftDateKey(todayKey, { days: -30 }), end: todayKey };
+    case '90days':
+      return { start: shiftDateKey(todayKey, { days: -90 }), end: todayKey };
+    case 'lastQuarter': {
+      const currentQuarterKey = getBucketKey(todayKey, 'quarter');
+      return {
+        start: shiftBucketKey(currentQuarterKey, 'quarter', -1),
+        end: shiftDateKey(currentQuarterKey, { days: -1 })
+      };
+    }
+    case '6months':
+      return { start: shiftDateKey(todayKey, { months: -6 }), end: todayKey };
+    case 'yearToDate':
+      return { start: `${todayKey.slice(0, 4)}-01-01`, end: todayKey };
+    case 'year':
+      return { start: shiftDateKey(todayKey, { months: -12 }), end: todayKey };
+    case 'custom':
+      return customRange ? { start: customRange.start, end: customRange.end } : { start: null, end: todayKey };
+    default:
+      return { start: null, end: todayKey };
+  }
+};
+
+// Daily and weekly series only need to reach back as far as their earliest preset time range
+const getHistoryStartKey = (todayKey: string, granularity: Granularity, trendsStart?: string): string | null => {
+  const startKeys = GRANULARITY_TIME_RANGES[granularity]
+    .filter(timeRange => timeRange !== 'custom')
+    .map(timeRange => getTimeRangeBounds(todayKey, timeRange).start);
+  if (startKeys.some(startKey => startKey === null)) {
+    return null;
+  }
+  const startKey = (startKeys as string[]).concat(trendsStart ? [trendsStart] : []).sort()[0];
+  return getBucketKey(startKey, granularity);
+};
+
+const createBucketCounts = (): BucketCounts => ({
+  overall: new Map(),
+  byContentType: new Map(),
+  byCreator: new Map(),
+  byTag: new Map(),
+  activity: new Map(),
+  lifecycle: new Map(),
+  netBeforeHistory: 0
+});
+
+const increment = (counts: Map<string, number>, key: string, amount = 1) => {
+  counts.set(key, (counts.get(key) || 0) + amount);
+};
+
+const appendTo = (values: Map<string, number[]>, key: string, value: number) => {
+  if (!values.has(key)) values.set(key, []);
+  values.get(key)!.push(value);
+};
+
+const incrementSeries = (counts: Map<string, Map<string, number>>, key: string, series: string, amount = 1) => {
+  if (!counts.has(key)) counts.set(key, new Map());
+  increment(counts.get(key)!, series, amount);
+};
+
+// Every bucket key from startKey through endKey
+export const getBucketKeys = (startKey: string, endKey: string, granularity: Granularity): string[] => {
+  const keys: string[] = [];
+  for (let key = startKey; key <= endKey; key = shiftBucketKey(key, granularity, 1)) {
+    keys.push(key);
+  }
+  return keys;
+};
+
+const withPercentChange = (points: TrendPoint[]): TrendPoint[] =>
+  points.map((point, index) => ({
+    ...point,
+    percentChange: index === 0 ? 0 : calculatePercentageChange(point.count, points[index - 1].count)
+  }));
+
+// Day a published entry counts towards in the trends: its first publication
+const getPublicationDayKey = (sys: AggregatedEntry['sys'], timeZone: string) =>
+  toDateKey(getZonedDate(new Date(sys.firstPublishedAt || sys.publishedAt!), timeZone));
+
+/**
+ * Whether the entry's latest publication came after its first one. The index
+ * only keeps the latest publishedAt, so earlier republications are not seen.
+ */
+export const isRepublished = (entry: EntryProps): boolean => {
+  const { sys } = entry as AggregatedEntry;
+  return Boolean(sys.publishedAt && sys.firstPublishedAt && sys.publishedAt > sys.firstPublishedAt);
+};
+
+const isUnpublished = (sys: AggregatedEntry['sys']) => Boolean(sys.firstPublishedAt && !sys.publishedAt && !sys.archivedAt);
+
+/**
+ * When a once published entry was taken down, or null while it is still live.
+ * The CMA keeps no unpublish timestamp, so the last update stands in for it.
+ */
+const getRemovedAt = (sys: AggregatedEntry['sys']) =>
+  sys.firstPublishedAt && !sys.publishedAt ? sys.archivedAt || sys.updatedAt : null;
+
+const toDayKey = (timestamp: string, timeZone: string) => toDateKey(getZonedDate(new Date(timestamp), timeZone));
+
+// Publishing bumps the version once more, so a version further ahead means unpublished edits
+export const hasPendingChanges = (entry: EntryProps): boolean => {
+  const { version, publishedVersion } = entry.sys;
+  return Boolean(publishedVersion) && version > publishedVersion! + 1;
+};
+
+const getContentTypeName = (sys: AggregatedEntry['sys'], contentTypeNames: Record<string, string>) => {
+  const contentTypeId = sys.contentType?.sys?.id || 'unknown';
+  return contentTypeNames[contentTypeId] || contentTypeId;
+};
+
+const getTagNames = (entry: EntryProps, tagNames: Record<string, string>) =>
+  (entry.metadata?.tags || []).map(tag => tagNames[tag.sys.id] || tag.sys.id);
+
+const getCreator = (entry: EntryProps, userNames: Record<string, string>, attribution: Attribution) => {
+  const author = getEntryAuthor(entry, attribution);
+  if (!author) return null;
+  return { id: author.id, name: author.type === 'owner' ? author.name : userNames[author.id] || author.id };
+};
+
+// Linear interpolation between the closest ranks of an ascending list
+const getPercentile = (sortedValues: number[], percentile: number) => {
+  if (sortedValues.length === 0) return 0;
+  const rank = (percentile / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+};
+
+export const getTimeToPublishStats = (days: number[]): TimeToPublishStats => {
+  const sorted = [...days].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: sorted.length ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0,
+    median: getPercentile(sorted, 50),
+    p75: getPercentile(sorted, 75),
+    p90: getPercentile(sorted, 90)
+  };
+};
+
+const getTimeToPublishHistogram = (days: number[]): TimeToPublishBin[] =>
+  TIME_TO_PUBLISH_BIN_EDGES.map((minDays, index) => {
+    const maxDays = index + 1 < TIME_TO_PUBLISH_BIN_EDGES.length ? TIME_TO_PUBLISH_BIN_EDGES[index + 1] : null;
+    return {
+      label: maxDays === null ? `${minDays}+ days` : minDays === 0 ? `< ${maxDays} day` : `${minDays}-${maxDays} days`,
+      minDays,
+      maxDays,
+      count: days.filter(value => value >= minDays && (maxDays === null || value < maxDays)).length
+    };
+  });
+
+// Slowest group first, so the bottlenecks lead the table
+const toTimeToPublishBreakdown = (daysByName: Map<string, number[]>): TimeToPublishBreakdown[] =>
+  Array.from(daysByName.entries())
+    .map(([name, days]) => ({ name, stats: getTimeToPublishStats(days) }))
+    .sort((a, b) => b.stats.median - a.stats.median);
+
+export const createEmptyTimeToPublishReport = (): TimeToPublishReport => ({
+  overall: getTimeToPublishStats([]),
+  histogram: getTimeToPublishHistogram([]),
+  byContentType: [],
+  byCreator: []
+});
+
+const getDraftAgeBucketIndex = (days: number) =>
+  DRAFT_AGE_BUCKETS.findIndex(({ minDays, maxDays }) => days >= minDays && (maxDays === null || days < maxDays));
+
+export const isDraft = (entry: EntryProps): boolean => {
+  const { sys } = entry as AggregatedEntry;
+  return !sys.firstPublishedAt && !sys.publishedAt && !sys.archivedAt;
+};
+
+// Biggest backlog first
+const toDraftBacklogBreakdown = (rows: Map<string, DraftBacklogBreakdown>): DraftBacklogBreakdown[] =>
+  Array.from(rows.values()).sort((a, b) => b.total - a.total);
+
+const addDraftToBreakdown = (rows: Map<string, DraftBacklogBreakdown>, id: string, name: string, bucketIndex: number) => {
+  if (!rows.has(id)) rows.set(id, { id, name, counts: DRAFT_AGE_BUCKETS.map(() => 0), total: 0 });
+  const row = rows.get(id)!;
+  row.counts[bucketIndex]++;
+  row.total++;
+};
+
+export const createEmptyDraftBacklogReport = (): DraftBacklogReport => ({
+  total: 0,
+  byAge: DRAFT_AGE_BUCKETS.map(() => 0),
+  byContentType: [],
+  byCreator: [],
+  trend: []
+});
+
+const toSeriesTrend = (bucketKeys: string[], counts: Map<string, Map<string, number>>, series: string[]): SeriesTrend => ({
+  data: bucketKeys.map(date => ({
+    date,
+    ...Object.fromEntries(series.map(name => [name, counts.get(date)?.get(name) || 0]))
+  })),
+  series
+});
+
+/**
+ * Derive every dashboard metric from one pass over the entry list: the overall
+ * publishing trend, the per-content-type, per-creator and per-tag trends at
+ * each granularity, the KPI counts, the time to publish distribution and the
+ * backlog of never published drafts. Monthly and quarterly trends span from
+ * the first publication to now, so changing the visible time range is only a
+ * re-slice.
+ */
+export const aggregateDashboardMetrics = (
+  entries: EntryProps[],
+  options: AggregationOptions = {}
+): DashboardMetrics => {
+  const {
+    now = new Date(),
+    timeZone = getBrowserTimeZone(),
+    filter = createDashboardFilter(),
+    contentTypeNames = {},
+    userNames = {},
+    attribution = DEFAULT_ATTRIBUTION,
+    tagNames = {},
+    recentlyPublishedDays = 7,
+    needsUpdateMonths = 6,
+    needsUpdateRules,
+    timeToPublishDays = 30,
+    trendsStart
+  } = options;
+
+  const todayKey = toDateKey(getZonedDate(now, timeZone));
+  const currentMonthKey = getBucketKey(todayKey, 'month');
+  const previousMonthKey = shiftBucketKey(currentMonthKey, 'month', -1);
+  const historyStartKeys = {} as Record<Granularity, string | null>;
+  GRANULARITIES.forEach(granularity => {
+    historyStartKeys[granularity] = getHistoryStartKey(todayKey, granularity, trendsStart);
+  });
+  const recentlyPublishedCutoff = getZonedDaysAgo(now, recentlyPublishedDays, timeZone).getTime();
+  const timeToPublishCutoff = getZonedDaysAgo(now, timeToPublishDays, timeZone).getTime();
+
+  const counts = {} as Record<Granularity, BucketCounts>;
+  GRANULARITIES.forEach(granularity => {
+    counts[granularity] = createBucketCounts();
+  });
+  const contentTypesSeen = new Set<string>();
+  const creatorsSeen = new Set<string>();
+  const tagsSeen = new Set<string>();
+  let earliestDayKey: string | null = null;
+  let totalPublished = 0;
+  let recentlyPublishedCount = 0;
+  let needsUpdateCount = 0;
+  let pendingChangesCount = 0;
+  let archivedCount = 0;
+  let unpublishedCount = 0;
+  const lifespans: number[] = [];
+  const timeToPublishDaysList: number[] = [];
+  const timeToPublishByContentType = new Map<string, number[]>();
+  const timeToPublishByCreator = new Map<string, number[]>();
+  const draftBacklog = createEmptyDraftBacklogReport();
+  const draftsByContentType = new Map<string, DraftBacklogBreakdown>();
+  const draftsByCreator = new Map<string, DraftBacklogBreakdown>();
+  // The backlog trend counts each draft from the day it was created until it was published or archived
+  const draftBacklogMonthKeys = getBucketKeys(
+    getBucketKey(shiftDateKey(todayKey, { months: -11 }), 'month'),
+    currentMonthKey,
+    'month'
+  );
+  const draftBacklogMonthEnds = draftBacklogMonthKeys.map(key =>
+    key === currentMonthKey ? todayKey : shiftDateKey(shiftBucketKey(key, 'month', 1), { days: -1 })
+  );
+  const draftBacklogTrend = draftBacklogMonthKeys.map(() => 0);
+
+  for (const entry of entries as AggregatedEntry[]) {
+    if (!matchesDashboardFilter(entry, filter)) continue;
+
+    const { sys } = entry;
+
+    if (sys.createdAt) {
+      const createdDayKey = toDateKey(getZonedDate(new Date(sys.createdAt), timeZone));
+      const draftEnd = sys.firstPublishedAt || sys.publishedAt || sys.archivedAt;
+      const draftEndDayKey = draftEnd ? toDateKey(getZonedDate(new Date(draftEnd), timeZone)) : null;
+      draftBacklogMonthEnds.forEach((monthEndKey, index) => {
+        if (createdDayKey <= monthEndKey && (!draftEndDayKey || draftEndDayKey > monthEndKey)) {
+          draftBacklogTrend[index]++;
+        }
+      });
+    }
+
+    if (isDraft(entry)) {
+      const bucketIndex = getDraftAgeBucketIndex(Math.max(0, (now.getTime() - new Date(sys.createdAt).getTime()) / DAY_IN_MS));
+      draftBacklog.total++;
+      draftBacklog.byAge[bucketIndex]++;
+      const contentTypeId = sys.contentType?.sys?.id || 'unknown';
+      addDraftToBreakdown(draftsByContentType, contentTypeId, getContentTypeName(sys, contentTypeNames), bucketIndex);
+      const creator = getCreator(entry, userNames, attribution);
+      if (creator) addDraftToBreakdown(draftsByCreator, creator.id, creator.name, bucketIndex);
+      continue;
+    }
+
+    if (sys.firstPublishedAt && sys.createdAt) {
+      const firstPublishedTime = new Date(sys.firstPublishedAt).getTime();
+      if (firstPublishedTime >= timeToPublishCutoff) {
+        const days = (firstPublishedTime - new Date(sys.createdAt).getTime()) / DAY_IN_MS;
+        timeToPublishDaysList.push(days);
+        appendTo(timeToPublishByContentType, getContentTypeName(sys, contentTypeNames), days);
+        const creator = getCreator(entry, userNames, attribution);
+        if (creator) appendTo(timeToPublishByCreator, creator.name, days);
+      }
+    }
+
+    // Day, series and change in published entries of each lifecycle event
+    const lifecycleEvents: Array<[string, string, number]> = [];
+    if (sys.firstPublishedAt || sys.publishedAt) {
+      lifecycleEvents.push([getPublicationDayKey(sys, timeZone), LIFECYCLE_SERIES.published, 1]);
+    }
+    if (sys.archivedAt) {
+      archivedCount++;
+      lifecycleEvents.push([toDayKey(sys.archivedAt, timeZone), LIFECYCLE_SERIES.archived, sys.firstPublishedAt ? -1 : 0]);
+      if (sys.firstPublishedAt) {
+        lifespans.push((new Date(sys.archivedAt).getTime() - new Date(sys.firstPublishedAt).getTime()) / DAY_IN_MS);
+      }
+    }
+    if (isUnpublished(sys)) {
+      unpublishedCount++;
+      lifecycleEvents.push([toDayKey(getRemovedAt(sys)!, timeZone), LIFECYCLE_SERIES.unpublished, -1]);
+    }
+    lifecycleEvents.forEach(([eventDayKey, series, netChange]) => {
+      if (!earliestDayKey || eventDayKey < earliestDayKey) {
+        earliestDayKey = eventDayKey;
+      }
+      GRANULARITIES.forEach(granularity => {
+        const bucketKey = getBucketKey(eventDayKey, granularity);
+        const historyStartKey = historyStartKeys[granularity];
+        const bucketCounts = counts[granularity];
+        if (historyStartKey && bucketKey < historyStartKey) {
+          bucketCounts.netBeforeHistory += netChange;
+          return;
+        }
+        incrementSeries(bucketCounts.lifecycle, bucketKey, series);
+        if (netChange) incrementSeries(bucketCounts.lifecycle, bucketKey, LIFECYCLE_SERIES.net, netChange);
+      });
+    });
+
+    if (!sys.publishedAt) continue;
+
+    totalPublished++;
+    const publishedTime = new Date(sys.publishedAt).getTime();
+    if (publishedTime >= recentlyPublishedCutoff) recentlyPublishedCount++;
+    // Matches the Needs Update list: published entries past the review period of their content type
+    if (isNeedsUpdate(entry, { now, timeZone, needsUpdateMonths, needsUpdateRules })) needsUpdateCount++;
+    if (hasPendingChanges(entry)) pendingChangesCount++;
+
+    const dayKey = getPublicationDayKey(sys, timeZone);
+
+    const contentTypeName = getContentTypeName(sys, contentTypeNames);
+    contentTypesSeen.add(contentTypeName);
+    const creatorName = getCreator(entry, userNames, attribution)?.name;
+    if (creatorName) creatorsSeen.add(creatorName);
+    const entryTagNames = getTagNames(entry, tagNames);
+    entryTagNames.forEach(tagName => tagsSeen.add(tagName));
+
+    GRANULARITIES.forEach(granularity => {
+      const bucketKey = getBucketKey(dayKey, granularity);
+      const historyStartKey = historyStartKeys[granularity];
+      if (historyStartKey && bucketKey < historyStartKey) return;
+
+      const bucketCounts = counts[granularity];
+      increment(bucketCounts.overall, bucketKey);
+      incrementSeries(bucketCounts.byContentType, bucketKey, contentTypeName);
+      if (creatorName) incrementSeries(bucketCounts.byCreator, bucketKey, creatorName);
+      entryTagNames.forEach(tagName => incrementSeries(bucketCounts.byTag, bucketKey, tagName));
+      incrementSeries(bucketCounts.activity, bucketKey, ACTIVITY_SERIES.firstPublished);
+    });
+
+    if (isRepublished(entry)) {
+      const republishedDayKey = toDateKey(getZonedDate(new Date(sys.publishedAt), timeZone));
+      GRANULARITIES.forEach(granularity => {
+        const bucketKey = getBucketKey(republishedDayKey, granularity);
+        const historyStartKey = historyStartKeys[granularity];
+        if (historyStartKey && bucketKey < historyStartKey) return;
+        incrementSeries(counts[granularity].activity, bucketKey, ACTIVITY_SERIES.republished);
+      });
+    }
+  }
+
+  // Without any publications show the past 12 months
+  const seriesStartKey = earliestDayKey || shiftDateKey(todayKey, { months: -12 });
+
+  const trends = {} as Record<Granularity, PublishingTrends>;
+  GRANULARITIES.forEach(granularity => {
+    const startKey = historyStartKeys[granularity] || getBucketKey(seriesStartKey, granularity);
+    const bucketKeys = getBucketKeys(startKey, getBucketKey(todayKey, granularity), granularity);
+    const bucketCounts = counts[granularity];
+
+    trends[granularity] = {
+      overall: withPercentChange(bucketKeys.map(date => ({ date, count: bucketCounts.overall.get(date) || 0 }))),
+      byContentType: toSeriesTrend(bucketKeys, bucketCounts.byContentType, Array.from(contentTypesSeen)),
+      byCreator: toSeriesTrend(bucketKeys, bucketCounts.byCreator, Array.from(creatorsSeen)),
+      byTag: toSeriesTrend(bucketKeys, bucketCounts.byTag, Array.from(tagsSeen)),
+      activity: toSeriesTrend(bucketKeys, bucketCounts.activity, [ACTIVITY_SERIES.firstPublished, ACTIVITY_SERIES.republished]),
+      lifecycle: toSeriesTrend(bucketKeys, bucketCounts.lifecycle, Object.values(LIFECYCLE_SERIES)),
+      totalPublished: []
+    };
+
+    let runningTotal = bucketCounts.netBeforeHistory;
+    trends[granularity].totalPublished = withPercentChange(bucketKeys.map(date => {
+      runningTotal += bucketCounts.lifecycle.get(date)?.get(LIFECYCLE_SERIES.net) || 0;
+      return { date, count: runningTotal };
+    }));
+  });
+
+  const timeToPublish: TimeToPublishReport = {
+    overall: getTimeToPublishStats(timeToPublishDaysList),
+    histogram: getTimeToPublishHistogram(timeToPublishDaysList),
+    byContentType: toTimeToPublishBreakdown(timeToPublishByContentType),
+    byCreator: toTimeToPublishBreakdown(timeToPublishByCreator)
+  };
+
+  draftBacklog.byContentType = toDraftBacklogBreakdown(draftsByContentType);
+  draftBacklog.byCreator = toDraftBacklogBreakdown(draftsByCreator);
+  draftBacklog.trend = withPercentChange(
+    draftBacklogMonthKeys.map((date, index) => ({ date, count: draftBacklogTrend[index] }))
+  );
+
+  const thisMonthPublished = counts.month.overall.get(currentMonthKey) || 0;
+  const previousMonthPublished = counts.month.overall.get(previousMonthKey) || 0;
+  const previousMonthTotal = trends.month.totalPublished.find(point => point.date === previousMonthKey);
+
+  return {
+    trends,
+    kpis: {
+      totalPublished,
+      percentChange: calculatePercentageChange(thisMonthPublished, previousMonthPublished),
+      previousMonthPublished,
+      recentlyPublishedCount,
+      needsUpdateCount,
+      pendingChangesCount,
+      averageTimeToPublish: timeToPublish.overall.mean,
+      medianTimeToPublish: timeToPublish.overall.median,
+      previousMonthTotalPublished: previousMonthTotal ? previousMonthTotal.count : 0,
+      archivedCount,
+      unpublishedCount,
+      averageLifespan: lifespans.length ? lifespans.reduce((sum, days) => sum + days, 0) / lifespans.length : 0
+    },
+    timeToPublish,
+    draftBacklog
+  };
+};
+
+/**
+ * The entries counted in one bucket of a trend, newest publication first.
+ * Takes the same options as the aggregation so series names resolve alike.
+ */
+export const findEntriesInBucket = (
+  entries: EntryProps[],
+  { granularity, date, dimension, series }: TrendBucketSelection,
+  options: AggregationOptions = {}
+): EntryProps[] => {
+  const {
+    timeZone = getBrowserTimeZone(),
+    filter = createDashboardFilter(),
+    contentTypeNames = {},
+    userNames = {},
+    attribution = DEFAULT_ATTRIBUTION,
+    tagNames = {}
+  } = options;
+
+  const isInBucket = (timestamp?: string | null) =>
+    Boolean(timestamp) && getBucketKey(toDayKey(timestamp!, timeZone), granularity) === date;
+
+  return (entries as AggregatedEntry[])
+    .filter(entry => {
+      const { sys } = entry;
+      if (!matchesDashboardFilter(entry, filter)) return false;
+      if (dimension === 'lifecycle') {
+        const isPublishedInBucket = isInBucket(sys.firstPublishedAt || sys.publishedAt);
+        if (series === LIFECYCLE_SERIES.published) return isPublishedInBucket;
+        if (series === LIFECYCLE_SERIES.archived) return isInBucket(sys.archivedAt);
+        if (series === LIFECYCLE_SERIES.unpublished) return isUnpublished(sys) && isInBucket(sys.updatedAt);
+        if (series === LIFECYCLE_SERIES.net) return isPublishedInBucket || isInBucket(getRemovedAt(sys));
+        return isPublishedInBucket || isInBucket(sys.archivedAt) || isInBucket(getRemovedAt(sys));
+      }
+      if (!sys.publishedAt) return false;
+      const isFirstPublishedInBucket = getBucketKey(getPublicationDayKey(sys, timeZone), granularity) === date;
+      if (dimension === 'activity') {
+        const isRepublishedInBucket = isRepublished(entry) &&
+          getBucketKey(toDateKey(getZonedDate(new Date(sys.publishedAt), timeZone)), granularity) === date;
+        if (series === ACTIVITY_SERIES.firstPublished) return isFirstPublishedInBucket;
+        if (series === ACTIVITY_SERIES.republished) return isRepublishedInBucket;
+        return isFirstPublishedInBucket || isRepublishedInBucket;
+      }
+      if (!isFirstPublishedInBucket) return false;
+      if (series === undefined) return true;
+      switch (dimension) {
+        case 'creator':
+          return getCreator(entry, userNames, attribution)?.name === series;
+        case 'tag':
+          return getTagNames(entry, tagNames).includes(series);
+        default:
+          return getContentTypeName(sys, contentTypeNames) === series;
+      }
+    })
+    .sort((a, b) =>
+      (b.sys.firstPublishedAt || b.sys.publishedAt || b.sys.updatedAt)
+        .localeCompare(a.sys.firstPublishedAt || a.sys.publishedAt || a.sys.updatedAt)
+    );
+};
+
+// Trim an all-time series to the buckets overlapping the selected time range
+export const sliceByTimeRange = <T extends { date: string }>(
+  data: T[],
+  timeRange: TimeRange,
+  granularity: Granularity = 'month',
+  now: Date = new Date(),
+  timeZone: string = getBrowserTimeZone(),
+  customRange?: DateRange
+): T[] => {
+  const { start, end } = getTimeRangeBounds(toDateKey(getZonedDate(now, timeZone)), timeRange, customRange);
+  const startKey = start ? getBucketKey(start, granularity) : null;
+  return data.filter(item => (!startKey || item.date >= startKey) && item.date <= end);
+};
+
+// Axis and tooltip label for a bucket key
+export const formatBucketLabel = (key: string, granularity: Granularity = 'month'): string => {
+  const { year, month, day } = parseDateKey(key);
+  const date = new Date(year, month - 1, day);
+  switch (granularity) {
+    case 'day':
+      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    case 'week':
+      return `Wk of ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+    case 'quarter':
+      return `Q${Math.floor((month - 1) / 3) + 1} ${year}`;
+    default:
+      return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  }
+};
+
+export const createEmptyTrends = (): Record<Granularity, PublishingTrends> => {
+  const trends = {} as Record<Granularity, PublishingTrends>;
+  GRANULARITIES.forEach(granularity => {
+    trends[granularity] = {
+      overall: [],
+      byContentType: { data: [], series: [] },
+      byCreator: { data: [], series: [] },
+      byTag: { data: [], series: [] },
+      activity: { data: [], series: [] },
+      lifecycle: { data: [], series: [] },
+      totalPublished: []
+    };
+  });
+  return trends;
+};
+
+/**
+ * Key of the bucket a bucket is compared against: the bucket `periodLength`
+ * buckets earlier for the previous period, or the same bucket a year earlier.
+ */
+export const getComparisonKey = (
+  key: string,
+  granularity: Granularity,
+  mode: Exclude<ComparisonMode, 'none'>,
+  periodLength: number
+): string => {
+  if (mode === 'previousPeriod') {
+    return shiftBucketKey(key, granularity, -periodLength);
+  }
+  switch (granularity) {
+    case 'day':
+      return shiftDateKey(key, { months: -12 });
+    case 'week':
+      return shiftBucketKey(key, granularity, -52);
+    default:
+      return getBucketKey(shiftDateKey(key, { months: -12 }), granularity);
+  }
+};
+
+// Comparing "all time" against anything has no meaning
+export const canCompareTimeRange = (timeRange: TimeRange) => timeRange !== 'all';
+
+/**
+ * Attach `<series>_previous` values from the comparison period to each point
+ * of a sliced series. Buckets before the first publication count as zero.
+ */
+export const addComparisonValues = <T extends { date: string }>(
+  allData: T[],
+  slicedData: T[],
+  series: string[],
+  mode: ComparisonMode,
+  granularity: Granularity
+): Array<T & Record<string, unknown>> => {
+  if (mode === 'none' || slicedData.length === 0) {
+    return slicedData;
+  }
+  const pointsByKey = new Map(allData.map(point => [point.date, point as Record<string, unknown>]));
+  return slicedData.map(point => {
+    const comparisonPoint = pointsByKey.get(getComparisonKey(point.date, granularity, mode, slicedData.length));
+    return {
+      ...point,
+      ...Object.fromEntries(series.map(name => [`${name}_previous`, Number(comparisonPoint?.[name]) || 0]))
+    };
+  });
+};
+
+// Totals of the current and comparison values over a sliced series
+export const summarizeComparison = (data: Array<Record<string, unknown>>, series: string[]): ComparisonSummary => {
+  const sum = (suffix: string) =>
+    data.reduce((total, point) => total + series.reduce((subtotal, name) => subtotal + (Number(point[`${name}${suffix}`]) || 0), 0), 0);
+  const current = sum('');
+  const previous = sum('_previous');
+  return { current, previous, percentChange: calculatePercentageChange(current, previous) };
+};
+
+/**
+ * Earliest day the daily or weekly trends must cover for a range selection,
+ * including its comparison period, when that is further back than they are
+ * aggregated by default. The trends then have to be recomputed.
+ */
+export const getTrendsStartForRange = (
+  { timeRange, customRange, granularity = 'month', compareTo = 'none' }: TrendRangeSelection,
+  now: Date = new Date(),
+  timeZone: string = getBrowserTimeZone()
+): string | undefined => {
+  const todayKey = toDateKey(getZonedDate(now, timeZone));
+  const defaultStartKey = getHistoryStartKey(todayKey, granularity);
+  const { start, end } = getTimeRangeBounds(todayKey, timeRange, customRange);
+  if (!defaultStartKey || !start) {
+    return undefined;
+  }
+
+  let neededStartKey = getBucketKey(start, granularity);
+  if (compareTo !== 'none') {
+    const periodLength = getBucketKeys(neededStartKey, getBucketKey(end, granularity), granularity).length;
+    neededStartKey = getComparisonKey(neededStartKey, granularity, compareTo, periodLength);
+  }
+  return neededStartKey < defaultStartKey ? neededStartKey : undefined;
+};
@@ -0,0 +1,230 @@
+import { AssetProps, LocaleProps } from 'contentful-management';
+import { getBucketKey, getBucketKeys, SeriesTrend } from './aggregation';
+import { fetchAllPages } from './contentful';
+import { DashboardDataSource } from './data-source';
+import { getBrowserTimeZone, getZonedDate, toDateKey } from './timezone';
+
+export const ASSET_SERIES = {
+  uploaded: 'Uploaded',
+  published: 'Published'
+};
+
+export interface AssetFileTypeCount {
+  label: string;
+  count: number;
+  bytes: number;
+}
+
+export interface AssetSizeBin {
+  label: string;
+  minBytes: number;
+  // Exclusive; null for the open-ended last bin
+  maxBytes: number | null;
+  count: number;
+}
+
+// Assets without a title or description (alt text) in one locale
+export interface AssetLocaleGaps {
+  locale: string;
+  name: string;
+  missingTitle: number;
+  missingDescription: number;
+}
+
+// What the asset lists show for one asset
+export interface AssetSummary {
+  id: string;
+  title: string;
+  fileType: string;
+  size: number | null;
+  createdAt: string;
+  isPublished: boolean;
+  // Locales the title or description is missing in
+  missingTextLocales: string[];
+}
+
+export interface AssetMetrics {
+  total: number;
+  publishedCount: number;
+  // Monthly uploads and first publications since the first upload
+  trend: SeriesTrend;
+  byFileType: AssetFileTypeCount[];
+  bySize: AssetSizeBin[];
+  missingText: AssetLocaleGaps[];
+  missingTextAssets: AssetSummary[];
+  // Assets no entry links to
+  unreferenced: AssetSummary[];
+}
+
+export interface AssetAggregationOptions {
+  now?: Date;
+  timeZone?: string;
+  locales?: LocaleProps[];
+  // Assets linked from any entry field
+  referencedAssetIds?: Set<string>;
+}
+
+type AggregatedAsset = AssetProps & {
+  sys: AssetProps['sys'] & {
+    firstPublishedAt?: string;
+    archivedAt?: string;
+  };
+};
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+// Size bin edges in bytes; the last bin is open-ended
+const ASSET_SIZE_BIN_EDGES: Array<[number, string]> = [
+  [0, '< 100 KB'],
+  [100 * KB, '100 KB - 1 MB'],
+  [MB, '1-5 MB'],
+  [5 * MB, '5-20 MB'],
+  [20 * MB, '20+ MB']
+];
+
+const FILE_TYPE_PATTERNS: Array<[RegExp, string]> = [
+  [/^image\//, 'Image'],
+  [/^video\//, 'Video'],
+  [/^audio\//, 'Audio'],
+  [/^application\/pdf$/, 'PDF'],
+  [/^text\/|msword|officedocument|opendocument|spreadsheet|presentation/, 'Document']
+];
+
+export const getFileTypeLabel = (contentType?: string): string => {
+  const match = contentType ? FILE_TYPE_PATTERNS.find(([pattern]) => pattern.test(contentType)) : undefined;
+  return match ? match[1] : 'Other';
+};
+
+const hasText = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+
+// The file in the default locale, or in the first locale that has one
+const getAssetFile = (asset: AssetProps, defaultLocale: string) => {
+  const files = asset.fields.file || {};
+  return files[defaultLocale] || files[Object.keys(files)[0]];
+};
+
+const toAssetSummary = (asset: AggregatedAsset, defaultLocale: string, missingTextLocales: string[]): AssetSummary => {
+  const file = getAssetFile(asset, defaultLocale);
+  return {
+    id: asset.sys.id,
+    title: asset.fields.title?.[defaultLocale] || file?.fileName || 'Untitled',
+    fileType: getFileTypeLabel(file?.contentType),
+    size: file?.details?.size ?? null,
+    createdAt: asset.sys.createdAt,
+    isPublished: Boolean(asset.sys.publishedAt),
+    missingTextLocales
+  };
+};
+
+/**
+ * Asset counterpart of the entry metrics: uploads and publications per month,
+ * the file type and size mix, title and description gaps per locale, and
+ * assets nothing links to. Archived assets only count towards the trend.
+ */
+export const aggregateAssetMetrics = (assets: AssetProps[], options: AssetAggregationOptions = {}): AssetMetrics => {
+  const { now = new Date(), timeZone = getBrowserTimeZone(), locales = [], referencedAssetIds = new Set<string>() } = options;
+  const defaultLocale = (locales.find(locale => locale.default) || locales[0])?.code || 'en-US';
+  const localeCodes = locales.length ? locales.map(locale => locale.code) : [defaultLocale];
+  const toMonthKey = (timestamp: string) => getBucketKey(toDateKey(getZonedDate(new Date(timestamp), timeZone)), 'month');
+
+  const counts = new Map<string, Map<string, number>>();
+  const incrementMonth = (timestamp: string, series: string) => {
+    const key = toMonthKey(timestamp);
+    if (!counts.has(key)) counts.set(key, new Map());
+    counts.get(key)!.set(series, (counts.get(key)!.get(series) || 0) + 1);
+  };
+  const fileTypes = new Map<string, AssetFileTypeCount>();
+  const bySize: AssetSizeBin[] = ASSET_SIZE_BIN_EDGES.map(([minBytes, label], index) => ({
+    label,
+    minBytes,
+    maxBytes: index + 1 < ASSET_SIZE_BIN_EDGES.length ? ASSET_SIZE_BIN_EDGES[index + 1][0] : null,
+    count: 0
+  }));
+  const missingText: AssetLocaleGaps[] = localeCodes.map(code => ({
+    locale: code,
+    name: locales.find(locale => locale.code === code)?.name || code,
+    missingTitle: 0,
+    missingDescription: 0
+  }));
+  const missingTextAssets: AssetSummary[] = [];
+  const unreferenced: AssetSummary[] = [];
+  let earliestMonthKey: string | null = null;
+  let total = 0;
+  let publishedCount = 0;
+
+  for (const asset of assets as AggregatedAsset[]) {
+    const { sys } = asset;
+    incrementMonth(sys.createdAt, ASSET_SERIES.uploaded);
+    const uploadMonthKey = toMonthKey(sys.createdAt);
+    if (!earliestMonthKey || uploadMonthKey < earliestMonthKey) earliestMonthKey = uploadMonthKey;
+    if (sys.firstPublishedAt || sys.publishedAt) incrementMonth(sys.firstPublishedAt || sys.publishedAt!, ASSET_SERIES.published);
+
+    if (sys.archivedAt) continue;
+
+    total++;
+    if (sys.publishedAt) publishedCount++;
+
+    const file = getAssetFile(asset, defaultLocale);
+    const fileType = getFileTypeLabel(file?.contentType);
+    const size = file?.details?.size ?? 0;
+    if (!fileTypes.has(fileType)) fileTypes.set(fileType, { label: fileType, count: 0, bytes: 0 });
+    fileTypes.get(fileType)!.count++;
+    fileTypes.get(fileType)!.bytes += size;
+    if (file) {
+      bySize.find(bin => size >= bin.minBytes && (bin.maxBytes === null || size < bin.maxBytes))!.count++;
+    }
+
+    const missingTextLocales: string[] = [];
+    missingText.forEach(gaps => {
+      const isTitleMissing = !hasText(asset.fields.title?.[gaps.locale]);
+      const isDescriptionMissing = !hasText(asset.fields.description?.[gaps.locale]);
+      if (isTitleMissing) gaps.missingTitle++;
+      if (isDescriptionMissing) gaps.missingDescription++;
+      if (isTitleMissing || isDescriptionMissing) missingTextLocales.push(gaps.locale);
+    });
+
+    const summary = toAssetSummary(asset, defaultLocale, missingTextLocales);
+    if (missingTextLocales.length) missingTextAssets.push(summary);
+    if (!referencedAssetIds.has(sys.id)) unreferenced.push(summary);
+  }
+
+  const currentMonthKey = getBucketKey(toDateKey(getZonedDate(now, timeZone)), 'month');
+  const bucketKeys = getBucketKeys(earliestMonthKey || currentMonthKey, currentMonthKey, 'month');
+  const series = [ASSET_SERIES.uploaded, ASSET_SERIES.published];
+  // Oldest first, the likeliest candidates for clean-up
+  const byAge = (a: AssetSummary, b: AssetSummary) => a.createdAt.localeCompare(b.createdAt);
+
+  return {
+    total,
+    publishedCount,
+    trend: {
+      data: bucketKeys.map(date => ({
+        date,
+        ...Object.fromEntries(series.map(name => [name, counts.get(date)?.get(name) || 0]))
+      })),
+      series
+    },
+    byFileType: Array.from(fileTypes.values()).sort((a, b) => b.count - a.count),
+    bySize,
+    missingText,
+    missingTextAssets: missingTextAssets.sort(byAge),
+    unreferenced: unreferenced.sort(byAge)
+  };
+};
+
+/**
+ * Load the assets and locales the asset metrics need. The referenced asset IDs
+ * come from the link scan the orphaned entry report shares.
+ */
+export const fetchAssetMetrics = async (
+  dataSource: DashboardDataSource,
+  options: Pick<AssetAggregationOptions, 'now' | 'timeZone' | 'referencedAssetIds'> = {}
+): Promise<AssetMetrics> => {
+  const [assets, locales] = await Promise.all([
+    fetchAllPages<AssetProps>((skip, limit) => dataSource.getAssets({ skip, limit })),
+    dataSource.getLocales()
+  ]);
+
+  return aggregateAssetMetrics(assets, { ...options, locales: locales.items });
+};
@@ -0,0 +1,148 @@
+import { ContentTypeProps, EntryProps } from 'contentful-management';
+import { fetchAllPages } from './contentful';
+import { DashboardDataSource, DataSourceQuery } from './data-source';
+import { getEntryTitle } from './references';
+
+// Which user, or which owner named in a field, an entry is credited to in the creator breakdowns
+export type AttributionMode = 'createdBy' | 'publishedBy' | 'updatedBy' | 'ownerField';
+
+export const ATTRIBUTION_MODES: AttributionMode[] = ['createdBy', 'publishedBy', 'updatedBy', 'ownerField'];
+
+// Column and breakdown label for each mode
+export const ATTRIBUTION_MODE_LABELS: Record<AttributionMode, string> = {
+  createdBy: 'Creator',
+  publishedBy: 'Last Publisher',
+  updatedBy: 'Last Editor',
+  ownerField: 'Owner'
+};
+
+// Content type ID -> ID of the text or reference field naming the entry's owner
+export type OwnerFields = Record<string, string>;
+
+// Owner read from an owner field: the referenced entry, or the text itself
+export interface EntryOwner {
+  id: string;
+  name: string;
+}
+
+export interface Attribution {
+  mode: AttributionMode;
+  ownerFields?: OwnerFields;
+  // Entry ID -> owner, as loaded by fetchEntryOwners
+  owners?: Record<string, EntryOwner>;
+}
+
+export type EntryAuthor = { type: 'user'; id: string } | ({ type: 'owner' } & EntryOwner);
+
+export const DEFAULT_ATTRIBUTION: Attribution = { mode: 'createdBy' };
+
+const ENTRY_BATCH_SIZE = 100;
+
+interface LinkValue {
+  sys: { type: 'Link'; linkType: string; id: string };
+}
+
+const isEntryLink = (value: unknown): value is LinkValue =>
+  (value as LinkValue | null)?.sys?.type === 'Link' && (value as LinkValue).sys.linkType === 'Entry';
+
+const usesOwnerField = (entry: EntryProps, { mode, ownerFields = {} }: Attribution) =>
+  mode === 'ownerField' && Boolean(ownerFields[entry.sys.contentType?.sys.id]);
+
+/**
+ * Who an entry is credited to. Entries that were never published, and entries
+ * of content types without an owner field, fall back to their creator; entries
+ * with an empty owner field are credited to nobody.
+ */
+export const getEntryAuthor = (entry: EntryProps, attribution: Attribution = DEFAULT_ATTRIBUTION): EntryAuthor | null => {
+  const { sys } = entry;
+  if (usesOwnerField(entry, attribution)) {
+    const owner = attribution.owners?.[sys.id];
+    return owner ? { type: 'owner', ...owner } : null;
+  }
+  const link = (attribution.mode === 'publishedBy' || attribution.mode === 'updatedBy') && sys[attribution.mode]
+    ? sys[attribution.mode]
+    : sys.createdBy;
+  return link?.sys?.id ? { type: 'user', id: link.sys.id } : null;
+};
+
+/**
+ * CMA conditions for the drafts credited to an author. Drafts have no
+ * publisher, so the last publisher mode matches their creator.
+ */
+export const getDraftAuthorQuery = (authorId: string, attribution: Attribution = DEFAULT_ATTRIBUTION): DataSourceQuery => {
+  if (attribution.mode === 'updatedBy') {
+    return { 'sys.updatedBy.sys.id[in]': authorId };
+  }
+  if (attribution.mode === 'ownerField') {
+    const owners = attribution.owners || {};
+    const ownedIds = Object.keys(owners).filter(entryId => owners[entryId].id === authorId);
+    if (ownedIds.length) {
+      return { 'sys.id[in]': ownedIds.join(',') };
+    }
+    const ownerTypeIds = Object.keys(attribution.ownerFields || {});
+    return {
+      'sys.createdBy.sys.id[in]': authorId,
+      'sys.contentType.sys.id[nin]': ownerTypeIds.length ? ownerTypeIds.join(',') : undefined
+    };
+  }
+  return { 'sys.createdBy.sys.id[in]': authorId };
+};
+
+// The owner field value in the default locale, or in the first locale that has one
+const readOwnerValue = (entry: EntryProps, fieldId: string, locale: string): unknown => {
+  const values = entry.fields?.[fieldId];
+  const value = values?.[locale] ?? (values ? Object.values(values)[0] : undefined);
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Owner of every entry of the content types with an owner field. Text fields
+ * name the owner directly; referenced entries, such as author profiles, are
+ * named by their display field.
+ */
+export const fetchEntryOwners = async (
+  dataSource: DashboardDataSource,
+  ownerFields: OwnerFields
+): Promise<Record<string, EntryOwner>> => {
+  const contentTypeIds = Object.keys(ownerFields);
+  if (!contentTypeIds.length) return {};
+
+  const [contentTypesResponse, localesResponse, entries] = await Promise.all([
+    dataSource.getContentTypes(),
+    dataSource.getLocales(),
+    fetchAllPages<EntryProps>((skip, limit) => dataSource.getEntries({
+      'sys.contentType.sys.id[in]': contentTypeIds.join(','),
+      select: 'sys.id,sys.contentType,fields',
+      skip,
+      limit
+    }), 200)
+  ]);
+  const locale = localesResponse.items.find(item => item.default)?.code || 'en-US';
+  const ownerValues = entries.map(entry => [entry.sys.id, readOwnerValue(entry, ownerFields[entry.sys.contentType.sys.id], locale)] as const);
+
+  const referencedIds = Array.from(new Set(ownerValues.flatMap(([, value]) => (isEntryLink(value) ? [value.sys.id] : []))));
+  const batches = [];
+  for (let i = 0; i < referencedIds.length; i += ENTRY_BATCH_SIZE) {
+    const batchIds = referencedIds.slice(i, i + ENTRY_BATCH_SIZE);
+    batches.push(dataSource.getEntries({ 'sys.id[in]': batchIds.join(','), limit: ENTRY_BATCH_SIZE }));
+  }
+  const contentTypes = new Map<string, ContentTypeProps>(contentTypesResponse.items.map(contentType => [contentType.sys.id, contentType]));
+  const referencedNames = new Map(
+    (await Promise.all(batches))
+      .flatMap(result => result.items)
+      .map(entry => [entry.sys.id, getEntryTitle(entry, contentTypes.get(entry.sys.contentType.sys.id), locale)])
+  );
+
+  return Object.fromEntries(
+    ownerValues.flatMap(([entryId, value]): Array<[string, EntryOwner]> => {
+      if (typeof value === 'string' && value.trim()) {
+        return [[entryId, { id: value.trim(), name: value.trim() }]];
+      }
+      if (isEntryLink(value)) {
+        // Owners that can no longer be loaded keep their entry ID as a name
+        return [[entryId, { id: value.sys.id, name: referencedNames.get(value.sys.id) || value.sys.id }]];
+      }
+      return [];
+    })
+  );
+};
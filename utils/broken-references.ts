@@ -0,0 +1,131 @@
+import { ContentTypeProps, EntryProps } from 'contentful-management';
+import { DashboardDataSource } from './data-source';
+import { DashboardFilter, matchesDashboardFilter } from './dashboard-filter';
+import { LinkScan, ScannedEntry } from './link-scan';
+import { getEntryTitle } from './references';
+
+// Why a linked entry would not resolve on the delivery side
+export type BrokenReferenceState = 'unpublished' | 'archived' | 'deleted';
+
+export interface BrokenReference {
+  sourceId: string;
+  sourceTitle: string;
+  contentTypeName: string;
+  fieldName: string;
+  locale: string;
+  targetId: string;
+  // Null when the target no longer exists
+  targetTitle: string | null;
+  targetState: BrokenReferenceState;
+}
+
+export interface BrokenReferenceOptions {
+  contentTypes: ContentTypeProps[];
+  // Locale the entry titles are read in
+  defaultLocale?: string;
+}
+
+// Targets are looked up in batches of this many IDs
+const TARGET_BATCH_SIZE = 100;
+
+// Link and Array-of-Link fields that point at entries
+export const getEntryLinkFieldIds = (contentType: ContentTypeProps): string[] =>
+  contentType.fields
+    .filter(field =>
+      (field.type === 'Link' && field.linkType === 'Entry') ||
+      (field.type === 'Array' && field.items?.type === 'Link' && field.items.linkType === 'Entry')
+    )
+    .map(field => field.id);
+
+export const getReferenceTargetState = (target?: EntryProps): BrokenReferenceState | null => {
+  if (!target) return 'deleted';
+  if (target.sys.archivedAt) return 'archived';
+  if (!target.sys.publishedAt) return 'unpublished';
+  return null;
+};
+
+/**
+ * Links from the Link and Array-of-Link fields of published entries to entries
+ * that are unpublished, archived or missing from `targets`. Sources come from
+ * the link scan, which keeps the field and locale of every link; rich text
+ * embeds are not reported.
+ */
+export const findBrokenReferences = (
+  sources: ScannedEntry[],
+  targets: EntryProps[],
+  options: BrokenReferenceOptions
+): BrokenReference[] => {
+  const { contentTypes, defaultLocale = 'en-US' } = options;
+  const contentTypesById = new Map(contentTypes.map(contentType => [contentType.sys.id, contentType]));
+  const targetsById = new Map(targets.map(target => [target.sys.id, target]));
+  const brokenReferences: BrokenReference[] = [];
+
+  sources.forEach(({ entry: source, title, entryLinks }) => {
+    if (!source.sys.publishedAt || source.sys.archivedAt) return;
+
+    const contentType = contentTypesById.get(source.sys.contentType.sys.id);
+    if (!contentType) return;
+    const linkFieldIds = new Set(getEntryLinkFieldIds(contentType));
+
+    entryLinks.forEach(link => {
+      if (!linkFieldIds.has(link.field)) return;
+
+      const target = targetsById.get(link.id);
+      const targetState = getReferenceTargetState(target);
+      if (!targetState) return;
+
+      brokenReferences.push({
+        sourceId: source.sys.id,
+        sourceTitle: title,
+        contentTypeName: contentType.name,
+        fieldName: contentType.fields.find(field => field.id === link.field)?.name || link.field,
+        locale: link.locale,
+        targetId: link.id,
+        targetTitle: target
+          ? getEntryTitle(target, contentTypesById.get(target.sys.contentType.sys.id), defaultLocale)
+          : null,
+        targetState
+      });
+    });
+  });
+
+  return brokenReferences;
+};
+
+/**
+ * Check the published entries of the link scan that fall in the filter and
+ * have entry link fields. Only the entries they link to are read, so their
+ * current state is reported even when the scan is a little older.
+ */
+export const fetchBrokenReferences = async (
+  dataSource: DashboardDataSource,
+  scan: LinkScan,
+  filter: DashboardFilter
+): Promise<BrokenReference[]> => {
+  const [contentTypesResponse, localesResponse] = await Promise.all([
+    dataSource.getContentTypes(),
+    dataSource.getLocales()
+  ]);
+  const contentTypes = contentTypesResponse.items;
+  const defaultLocale = localesResponse.items.find(locale => locale.default)?.code;
+  const linkFieldIdsByType = new Map(contentTypes.map(contentType =>
+    [contentType.sys.id, new Set(getEntryLinkFieldIds(contentType))]
+  ));
+  const getFieldLinks = ({ entry, entryLinks }: ScannedEntry) =>
+    entryLinks.filter(link => linkFieldIdsByType.get(entry.sys.contentType.sys.id)?.has(link.field));
+
+  const sources = scan.entries.filter(source =>
+    source.entry.sys.publishedAt && matchesDashboardFilter(source.entry, filter) && getFieldLinks(source).length > 0
+  );
+  if (sources.length === 0) return [];
+
+  const idArray = Array.from(new Set(sources.flatMap(source => getFieldLinks(source).map(link => link.id))));
+  const batches = [];
+  for (let i = 0; i < idArray.length; i += TARGET_BATCH_SIZE) {
+    const batchIds = idArray.slice(i, i + TARGET_BATCH_SIZE);
+    batches.push(dataSource.getEntries({ 'sys.id[in]': batchIds.join(','), limit: TARGET_BATCH_SIZE }));
+  }
+  const targets = (await Promise.all(batches)).flatMap(result => result.items);
+
+  return findBrokenReferences(sources, targets, { contentTypes, defaultLocale });
+};
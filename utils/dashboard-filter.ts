@@ -0,0 +1,44 @@
+import { EntryProps } from 'contentful-management';
+import { DataSourceQuery } from './data-source';
+
+/**
+ * The population of entries every KPI card and chart describes. Each list
+ * narrows the population when non-empty; an empty list means "no restriction".
+ */
+export interface DashboardFilter {
+  contentTypes: string[];
+  tags: string[];
+  creators: string[];
+}
+
+export const createDashboardFilter = (filter: Partial<DashboardFilter> = {}): DashboardFilter => ({
+  contentTypes: filter.contentTypes || [],
+  tags: filter.tags || [],
+  creators: filter.creators || []
+});
+
+export const isDashboardFilterEmpty = (filter: DashboardFilter): boolean =>
+  !filter.contentTypes.length && !filter.tags.length && !filter.creators.length;
+
+// Client-side counterpart of toEntryQuery, used when aggregating indexed entries
+export const matchesDashboardFilter = (entry: EntryProps, filter: DashboardFilter): boolean => {
+  const { sys, metadata } = entry;
+
+  if (filter.contentTypes.length && !filter.contentTypes.includes(sys.contentType?.sys?.id)) {
+    return false;
+  }
+  if (filter.tags.length && !metadata?.tags?.some(tag => filter.tags.includes(tag.sys.id))) {
+    return false;
+  }
+  if (filter.creators.length && !filter.creators.includes(sys.createdBy?.sys?.id || '')) {
+    return false;
+  }
+  return true;
+};
+
+// CMA query parameters that restrict an entry query to the filter's population
+export const toEntryQuery = (filter: DashboardFilter): DataSourceQuery => ({
+  'sys.contentType.sys.id[in]': filter.contentTypes.length ? filter.contentTypes.join(',') : undefined,
+  'metadata.tags.sys.id[in]': filter.tags.length ? filter.tags.join(',') : undefined,
+  'sys.createdBy.sys.id[in]': filter.creators.length ? filter.creators.join(',') : undefined
+});
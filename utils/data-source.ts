@@ -0,0 +1,152 @@
+import { CMAClient } from '@contentful/app-sdk';
+import {
+  AssetProps,
+  CollectionProp,
+  CommentProps,
+  ContentTypeProps,
+  CreateTaskProps,
+  CursorPaginatedCollectionProp,
+  EntryProps,
+  LocaleProps,
+  ReleaseProps,
+  ScheduledActionProps,
+  TagProps,
+  TaskProps,
+  UserProps,
+  WorkflowDefinitionProps,
+  WorkflowProps,
+  WorkflowQueryOptions
+} from 'contentful-management';
+
+export type DataSourceQuery = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Everything the dashboard reads from one space environment, including
+ * Workflows where the space has them, plus the two things it writes: review
+ * comments and assigned tasks. The utils modules and the Home location only
+ * talk to this interface, so the backing store can be the CMA or a seeded fake.
+ */
+export interface DashboardDataSource {
+  getEntries(query?: DataSourceQuery): Promise<CollectionProp<EntryProps>>;
+  getAssets(query?: DataSourceQuery): Promise<CollectionProp<AssetProps>>;
+  getLocales(): Promise<CollectionProp<LocaleProps>>;
+  getContentTypes(): Promise<CollectionProp<ContentTypeProps>>;
+  getUsers(): Promise<CollectionProp<UserProps>>;
+  getTags(): Promise<CollectionProp<TagProps>>;
+  getScheduledActions(query?: DataSourceQuery): Promise<CursorPaginatedCollectionProp<ScheduledActionProps>>;
+  getRelease(releaseId: string): Promise<ReleaseProps>;
+  getComments(entryId: string): Promise<CollectionProp<CommentProps>>;
+  createComment(entryId: string, body: string): Promise<CommentProps>;
+  getTasks(entryId: string): Promise<CollectionProp<TaskProps>>;
+  createTask(entryId: string, task: CreateTaskProps): Promise<TaskProps>;
+  getWorkflowDefinitions(): Promise<CollectionProp<WorkflowDefinitionProps>>;
+  getWorkflows(query?: DataSourceQuery): Promise<CollectionProp<WorkflowProps>>;
+}
+
+// Data source backed by the Content Management API of the current space/environment
+export const createCmaDataSource = (
+  cma: CMAClient,
+  spaceId: string,
+  environmentId: string
+): DashboardDataSource => ({
+  getEntries: (query = {}) =>
+    cma.entry.getMany({
+      spaceId,
+      environmentId,
+      query
+    }),
+
+  getAssets: (query = {}) =>
+    cma.asset.getMany({
+      spaceId,
+      environmentId,
+      query
+    }),
+
+  getLocales: () =>
+    cma.locale.getMany({
+      spaceId,
+      environmentId
+    }),
+
+  getContentTypes: () =>
+    cma.contentType.getMany({
+      spaceId,
+      environmentId
+    }),
+
+  getUsers: () =>
+    cma.user.getManyForSpace({
+      spaceId
+    }),
+
+  getTags: () =>
+    cma.tag.getMany({
+      spaceId,
+      environmentId,
+      query: { limit: 1000 }
+    }),
+
+  getScheduledActions: (query = {}) =>
+    cma.scheduledActions.getMany({
+      spaceId,
+      query: {
+        'environment.sys.id': environmentId,
+        ...query
+      }
+    }),
+
+  getRelease: (releaseId: string) =>
+    cma.release.get({
+      spaceId,
+      environmentId,
+      releaseId
+    }),
+
+  getComments: (entryId: string) =>
+    cma.comment.getMany({
+      spaceId,
+      environmentId,
+      entryId
+    }),
+
+  createComment: (entryId: string, body: string) =>
+    cma.comment.create(
+      {
+        spaceId,
+        environmentId,
+        entryId
+      },
+      { body }
+    ),
+
+  getTasks: (entryId: string) =>
+    cma.task.getMany({
+      spaceId,
+      environmentId,
+      entryId
+    }),
+
+  createTask: (entryId: string, task: CreateTaskProps) =>
+    cma.task.create(
+      {
+        spaceId,
+        environmentId,
+        entryId
+      },
+      task
+    ),
+
+  getWorkflowDefinitions: () =>
+    cma.workflowDefinition.getMany({
+      spaceId,
+      environmentId
+    }),
+
+  getWorkflows: (query = {}) =>
+    cma.workflow.getMany({
+      spaceId,
+      environmentId,
+      query: query as WorkflowQueryOptions
+    })
+});
@@ -0,0 +1,259 @@
+import { EntryProps } from 'contentful-management';
+import { DashboardDataSource } from './data-source';
+import { fetchAllPages } from './contentful';
+import { isRequestCancelled } from './request-scheduler';
+
+// Bump when the shape of stored entries changes so old indexes get rebuilt
+const ENTRY_INDEX_VERSION = 1;
+const DASHBOARD_DB_NAME = 'contentDashboard';
+// Bump when a store is added; the upgrade creates the stores an older database lacks
+const DASHBOARD_DB_VERSION = 2;
+const ENTRY_INDEX_STORE_NAME = 'entryIndex';
+export const LINK_SCAN_STORE_NAME = 'linkScan';
+const ENTRY_INDEX_STORAGE_PREFIX = 'contentDashboard_entryIndex_';
+// How often to re-list all entry IDs to catch deletions the delta query cannot see
+const DELETION_SWEEP_INTERVAL = 24 * 60 * 60 * 1000;
+
+export interface EntryIndex {
+  version: number;
+  spaceId: string;
+  environmentId: string;
+  // Highest sys.updatedAt seen so far; the next sync only asks for entries at or after it
+  lastSyncedAt: string | null;
+  lastSweepAt: number | null;
+  entries: Record<string, EntryProps>;
+}
+
+export interface EntryIndexStore {
+  load(key: string): Promise<EntryIndex | null>;
+  save(key: string, index: EntryIndex): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export const getEntryIndexKey = (spaceId: string, environmentId: string) => `${spaceId}:${environmentId}`;
+
+const pickLink = (link?: { sys: { id: string } }) => (link ? { sys: { id: link.sys.id } } : undefined);
+
+// Keep only the sys metadata and tags the metrics need; fields are never indexed
+export const compactEntry = (entry: EntryProps): EntryProps => {
+  const sys = entry.sys as EntryProps['sys'] & { firstPublishedAt?: string; archivedBy?: { sys: { id: string } } };
+
+  return {
+    sys: {
+      id: sys.id,
+      type: sys.type,
+      contentType: pickLink(sys.contentType),
+      createdAt: sys.createdAt,
+      updatedAt: sys.updatedAt,
+      publishedAt: sys.publishedAt,
+      firstPublishedAt: sys.firstPublishedAt,
+      archivedAt: sys.archivedAt,
+      createdBy: pickLink(sys.createdBy),
+      updatedBy: pickLink(sys.updatedBy),
+      publishedBy: pickLink(sys.publishedBy),
+      archivedBy: pickLink(sys.archivedBy),
+      version: sys.version,
+      publishedVersion: sys.publishedVersion,
+      archivedVersion: sys.archivedVersion
+    },
+    fields: {},
+    metadata: entry.metadata?.tags?.length
+      ? { tags: entry.metadata.tags.map(tag => ({ sys: { type: 'Link', linkType: 'Tag', id: tag.sys.id } })) }
+      : undefined
+  } as EntryProps;
+};
+
+const createEmptyIndex = (spaceId: string, environmentId: string): EntryIndex => ({
+  version: ENTRY_INDEX_VERSION,
+  spaceId,
+  environmentId,
+  lastSyncedAt: null,
+  lastSweepAt: null,
+  entries: {}
+});
+
+// Store backed by localStorage; large spaces may exceed its quota, in which case saving is skipped
+export const createLocalStorageEntryIndexStore = (): EntryIndexStore => ({
+  load: async (key) => {
+    try {
+      const stored = localStorage.getItem(`${ENTRY_INDEX_STORAGE_PREFIX}${key}`);
+      return stored ? (JSON.parse(stored) as EntryIndex) : null;
+    } catch (error) {
+      console.warn('Failed to load entry index from localStorage:', error);
+      return null;
+    }
+  },
+  save: async (key, index) => {
+    try {
+      localStorage.setItem(`${ENTRY_INDEX_STORAGE_PREFIX}${key}`, JSON.stringify(index));
+    } catch (error) {
+      console.warn('Failed to save entry index to localStorage:', error);
+    }
+  },
+  remove: async (key) => {
+    try {
+      localStorage.removeItem(`${ENTRY_INDEX_STORAGE_PREFIX}${key}`);
+    } catch (error) {
+      console.warn('Failed to remove entry index from localStorage:', error);
+    }
+  }
+});
+
+const openDashboardDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DASHBOARD_DB_NAME, DASHBOARD_DB_VERSION);
+    request.onupgradeneeded = () => {
+      [ENTRY_INDEX_STORE_NAME, LINK_SCAN_STORE_NAME].forEach(storeName => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// One request against a store of the dashboard's IndexedDB database
+export const runDashboardTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDashboardDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Store backed by IndexedDB, which has room for spaces with tens of thousands of entries
+export const createIndexedDbEntryIndexStore = (): EntryIndexStore => ({
+  load: async (key) => {
+    try {
+      return (await runDashboardTransaction<EntryIndex | undefined>(ENTRY_INDEX_STORE_NAME, 'readonly', store => store.get(key))) ?? null;
+    } catch (error) {
+      console.warn('Failed to load entry index from IndexedDB:', error);
+      return null;
+    }
+  },
+  save: async (key, index) => {
+    try {
+      await runDashboardTransaction(ENTRY_INDEX_STORE_NAME, 'readwrite', store => store.put(index, key));
+    } catch (error) {
+      console.warn('Failed to save entry index to IndexedDB:', error);
+    }
+  },
+  remove: async (key) => {
+    try {
+      await runDashboardTransaction(ENTRY_INDEX_STORE_NAME, 'readwrite', store => store.delete(key));
+    } catch (error) {
+      console.warn('Failed to remove entry index from IndexedDB:', error);
+    }
+  }
+});
+
+export const createDefaultEntryIndexStore = (): EntryIndexStore =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbEntryIndexStore() : createLocalStorageEntryIndexStore();
+
+const getLatestUpdatedAt = (entries: EntryProps[], current: string | null) =>
+  entries.reduce<string | null>(
+    (latest, entry) => (!latest || entry.sys.updatedAt > latest ? entry.sys.updatedAt : latest),
+    current
+  );
+
+// One sync of the index stored under key
+const runEntryIndexSync = async (
+  dataSource: DashboardDataSource,
+  key: string,
+  spaceId: string,
+  environmentId: string,
+  options: { store?: EntryIndexStore; now?: number }
+): Promise<EntryProps[]> => {
+  const { store = createDefaultEntryIndexStore(), now = Date.now() } = options;
+
+  const storedIndex = await store.load(key);
+  const index = storedIndex && storedIndex.version === ENTRY_INDEX_VERSION
+    ? storedIndex
+    : createEmptyIndex(spaceId, environmentId);
+
+  const changedEntries = await fetchAllPages<EntryProps>((skip, limit) =>
+    dataSource.getEntries({
+      'sys.updatedAt[gte]': index.lastSyncedAt ?? undefined,
+      // The index keeps no fields, so they are not downloaded
+      select: 'sys,metadata',
+      order: 'sys.updatedAt',
+      skip,
+      limit
+    })
+  );
+
+  changedEntries.forEach(entry => {
+    index.entries[entry.sys.id] = compactEntry(entry);
+  });
+  index.lastSyncedAt = getLatestUpdatedAt(changedEntries, index.lastSyncedAt);
+
+  if (storedIndex && changedEntries.length < Object.keys(index.entries).length) {
+    const { total } = await dataSource.getEntries({ limit: 1 });
+    const sweepIsDue = !index.lastSweepAt || now - index.lastSweepAt > DELETION_SWEEP_INTERVAL;
+
+    if (total !== Object.keys(index.entries).length || sweepIsDue) {
+      const existingIds = new Set(
+        (await fetchAllPages<EntryProps>((skip, limit) =>
+          dataSource.getEntries({ select: 'sys.id', order: 'sys.createdAt', skip, limit })
+        )).map(entry => entry.sys.id)
+      );
+      Object.keys(index.entries).forEach(id => {
+        if (!existingIds.has(id)) {
+          delete index.entries[id];
+        }
+      });
+      index.lastSweepAt = now;
+    }
+  } else {
+    // A full listing just happened, so nothing can be missing
+    index.lastSweepAt = now;
+  }
+
+  await store.save(key, index);
+  return Object.values(index.entries);
+};
+
+// Syncs still running, by index key, so callers that overlap share one
+const runningSyncs = new Map<string, Promise<EntryProps[]>>();
+
+/**
+ * Bring the persisted entry index for a space environment up to date and return
+ * its entries. The first call lists every entry; later calls only fetch entries
+ * whose sys.updatedAt moved since the last sync, which also picks up unpublished
+ * and archived entries. Deleted entries are dropped by an ID sweep that runs when
+ * the entry total disagrees with the index or the last sweep is a day old.
+ * Calls made while a sync of the same space environment is running wait for it.
+ */
+export const syncEntryIndex = async (
+  dataSource: DashboardDataSource,
+  spaceId: string,
+  environmentId: string,
+  options: { store?: EntryIndexStore; now?: number } = {}
+): Promise<EntryProps[]> => {
+  const key = getEntryIndexKey(spaceId, environmentId);
+  const runningSync = runningSyncs.get(key);
+  if (runningSync) {
+    try {
+      return await runningSync;
+    } catch (error) {
+      // The caller that started the sync cancelled it; this caller still needs the entries
+      if (!isRequestCancelled(error)) throw error;
+      return syncEntryIndex(dataSource, spaceId, environmentId, options);
+    }
+  }
+
+  const sync = runEntryIndexSync(dataSource, key, spaceId, environmentId, options)
+    .finally(() => runningSyncs.delete(key));
+  runningSyncs.set(key, sync);
+  return sync;
+};
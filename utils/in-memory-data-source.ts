@@ -0,0 +1,289 @@
+import {
+  AssetProps,
+  CollectionProp,
+  CommentProps,
+  ContentTypeProps,
+  CreateTaskProps,
+  CursorPaginatedCollectionProp,
+  EntryProps,
+  LocaleProps,
+  ReleaseProps,
+  ScheduledActionProps,
+  TagProps,
+  TaskProps,
+  UserProps,
+  WorkflowDefinitionProps,
+  WorkflowProps
+} from 'contentful-management';
+import { DashboardDataSource, DataSourceQuery } from './data-source';
+
+export interface InMemorySpaceSeed {
+  entries?: EntryProps[];
+  assets?: AssetProps[];
+  locales?: LocaleProps[];
+  contentTypes?: ContentTypeProps[];
+  users?: UserProps[];
+  tags?: TagProps[];
+  releases?: ReleaseProps[];
+  scheduledActions?: ScheduledActionProps[];
+  // Entry comments; new ones are appended
+  comments?: CommentProps[];
+  // Entry tasks; new ones are appended
+  tasks?: TaskProps[];
+  workflowDefinitions?: WorkflowDefinitionProps[];
+  workflows?: WorkflowProps[];
+  // Author of comments and tasks created through the data source
+  currentUserId?: string;
+}
+
+// Same default page size the CMA applies when no limit is given
+const DEFAULT_LIMIT = 100;
+
+// Query keys that control paging/ordering rather than filtering
+const RESERVED_QUERY_KEYS = new Set(['skip', 'limit', 'order', 'select', 'include']);
+
+// Collect every value found at a dotted path, descending into arrays along the way
+const getValuesAtPath = (item: unknown, path: string[]): unknown[] => {
+  if (path.length === 0) {
+    return Array.isArray(item) ? item : [item];
+  }
+  if (Array.isArray(item)) {
+    return item.flatMap(element => getValuesAtPath(element, path));
+  }
+  if (item === null || typeof item !== 'object') {
+    return [];
+  }
+  const [head, ...rest] = path;
+  return getValuesAtPath((item as Record<string, unknown>)[head], rest);
+};
+
+// CMA shorthand for a query key that the path form also covers
+const QUERY_KEY_ALIASES: Record<string, string> = {
+  content_type: 'sys.contentType.sys.id'
+};
+
+// Values a query key refers to; entry field values are keyed by locale, and a field matches in any locale
+const getQueryValues = (item: unknown, path: string[]): unknown[] => {
+  const values = getValuesAtPath(item, path);
+  if (path[0] !== 'fields' || path.length !== 2) {
+    return values;
+  }
+  return values.flatMap(value =>
+    value && typeof value === 'object' && !Array.isArray(value) ? Object.values(value).flat() : [value]
+  );
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  const aString = String(a);
+  const bString = String(b);
+  const aTime = Date.parse(aString);
+  const bTime = Date.parse(bString);
+  if (!isNaN(aTime) && !isNaN(bTime) && isNaN(Number(aString)) && isNaN(Number(bString))) {
+    return aTime - bTime;
+  }
+  return aString.localeCompare(bString);
+};
+
+const matchesCondition = (item: unknown, key: string, expected: string | number | boolean): boolean => {
+  const operatorMatch = key.match(/^(.*)\[(exists|gte|gt|lte|lt|in|nin|ne|match)\]$/);
+  const field = operatorMatch ? operatorMatch[1] : key;
+  const path = (QUERY_KEY_ALIASES[field] || field).split('.');
+  const operator = operatorMatch ? operatorMatch[2] : 'eq';
+  const values = getQueryValues(item, path).filter(value => value !== undefined && value !== null);
+
+  switch (operator) {
+    case 'exists': {
+      const shouldExist = expected === true || expected === 'true';
+      return shouldExist ? values.length > 0 : values.length === 0;
+    }
+    case 'gte':
+      return values.some(value => compareValues(value, expected) >= 0);
+    case 'gt':
+      return values.some(value => compareValues(value, expected) > 0);
+    case 'lte':
+      return values.some(value => compareValues(value, expected) <= 0);
+    case 'lt':
+      return values.some(value => compareValues(value, expected) < 0);
+    case 'in': {
+      const options = String(expected).split(',');
+      return values.some(value => options.includes(String(value)));
+    }
+    case 'nin': {
+      const options = String(expected).split(',');
+      return !values.some(value => options.includes(String(value)));
+    }
+    case 'ne':
+      return !values.some(value => String(value) === String(expected));
+    case 'match':
+      return values.some(value => String(value).toLowerCase().includes(String(expected).toLowerCase()));
+    default:
+      return values.some(value => String(value) === String(expected));
+  }
+};
+
+// Full-text search: any string inside the item's fields contains the term
+const matchesFullText = (item: unknown, term: string | number | boolean): boolean => {
+  const needle = String(term).toLowerCase();
+  const containsTerm = (value: unknown): boolean => {
+    if (typeof value === 'string') return value.toLowerCase().includes(needle);
+    if (value && typeof value === 'object') return Object.values(value).some(containsTerm);
+    return false;
+  };
+  return containsTerm((item as { fields?: unknown }).fields);
+};
+
+// Evaluate the subset of CMA search parameters the dashboard relies on against a list of items
+export const applyQuery = <T>(items: T[], query: DataSourceQuery = {}): { items: T[]; total: number; skip: number; limit: number } => {
+  const filtered = items.filter(item =>
+    Object.entries(query).every(([key, value]) =>
+      RESERVED_QUERY_KEYS.has(key) ||
+      value === undefined ||
+      (key === 'query' ? matchesFullText(item, value) : matchesCondition(item, key, value))
+    )
+  );
+
+  if (query.order) {
+    const orderFields = String(query.order).split(',').map(field => ({
+      path: field.replace(/^-/, '').split('.'),
+      direction: field.startsWith('-') ? -1 : 1
+    }));
+    filtered.sort((a, b) => {
+      for (const { path, direction } of orderFields) {
+        const [aValue] = getQueryValues(a, path);
+        const [bValue] = getQueryValues(b, path);
+        if (aValue === bValue) continue;
+        // Items missing the order field sort last, as they do in the CMA
+        if (aValue === undefined || aValue === null) return 1;
+        if (bValue === undefined || bValue === null) return -1;
+        const result = compareValues(aValue, bValue);
+        if (result !== 0) return result * direction;
+      }
+      return 0;
+    });
+  }
+
+  const skip = Number(query.skip ?? 0);
+  const limit = Number(query.limit ?? DEFAULT_LIMIT);
+
+  return {
+    items: filtered.slice(skip, skip + limit),
+    total: filtered.length,
+    skip,
+    limit
+  };
+};
+
+const toCollection = <T>(page: { items: T[]; total: number; skip: number; limit: number }): CollectionProp<T> => ({
+  sys: { type: 'Array' },
+  ...page
+});
+
+/**
+ * Data source that serves a fixed, seeded space from memory. It understands the
+ * same query parameters the dashboard sends to the CMA, which makes it suitable
+ * for exercising metric calculations offline.
+ */
+export const createInMemoryDataSource = (seed: InMemorySpaceSeed = {}): DashboardDataSource => {
+  const entries = seed.entries ?? [];
+  const assets = seed.assets ?? [];
+  const locales = seed.locales ?? [];
+  const contentTypes = seed.contentTypes ?? [];
+  const users = seed.users ?? [];
+  const tags = seed.tags ?? [];
+  const releases = seed.releases ?? [];
+  const scheduledActions = seed.scheduledActions ?? [];
+  const comments = seed.comments ?? [];
+  const tasks = seed.tasks ?? [];
+  const workflowDefinitions = seed.workflowDefinitions ?? [];
+  const workflows = seed.workflows ?? [];
+  const currentUserId = seed.currentUserId ?? 'user-1';
+
+  return {
+    getEntries: async (query = {}) => toCollection(applyQuery(entries, query)),
+
+    getAssets: async (query = {}) => toCollection(applyQuery(assets, query)),
+
+    getLocales: async () => toCollection(applyQuery(locales, { limit: locales.length })),
+
+    getContentTypes: async () => toCollection(applyQuery(contentTypes, { limit: contentTypes.length })),
+
+    getUsers: async () => toCollection(applyQuery(users, { limit: users.length })),
+
+    getTags: async () => toCollection(applyQuery(tags, { limit: tags.length })),
+
+    getScheduledActions: async (query = {}): Promise<CursorPaginatedCollectionProp<ScheduledActionProps>> => {
+      const { items, limit } = applyQuery(scheduledActions, query);
+      return { sys: { type: 'Array' }, items, limit, pages: {} };
+    },
+
+    getRelease: async (releaseId: string) => {
+      const release = releases.find(item => item.sys.id === releaseId);
+      if (!release) {
+        throw new Error(`Release ${releaseId} not found`);
+      }
+      return release;
+    },
+
+    getComments: async (entryId: string) => {
+      const entryComments = comments.filter(comment => comment.sys.parentEntity.sys.id === entryId);
+      return toCollection({ items: entryComments, total: entryComments.length, skip: 0, limit: entryComments.length });
+    },
+
+    createComment: async (entryId: string, body: string) => {
+      const now = new Date().toISOString();
+      const user = { sys: { type: 'Link', linkType: 'User', id: currentUserId } } as const;
+      const comment = {
+        sys: {
+          id: `comment-${comments.length + 1}`,
+          type: 'Comment',
+          version: 1,
+          createdAt: now,
+          createdBy: user,
+          updatedAt: now,
+          updatedBy: user,
+          parentEntity: { sys: { type: 'Link', linkType: 'Entry', id: entryId } },
+          parent: null
+        },
+        body,
+        status: 'active'
+      } as CommentProps;
+      comments.push(comment);
+      return comment;
+    },
+
+    getTasks: async (entryId: string) => {
+      const entryTasks = tasks.filter(task => task.sys.parentEntity.sys.id === entryId);
+      return toCollection({ items: entryTasks, total: entryTasks.length, skip: 0, limit: entryTasks.length });
+    },
+
+    createTask: async (entryId: string, task: CreateTaskProps) => {
+      const now = new Date().toISOString();
+      const user = { sys: { type: 'Link', linkType: 'User', id: currentUserId } } as const;
+      const created = {
+        ...task,
+        sys: {
+          id: `task-${tasks.length + 1}`,
+          type: 'Task',
+          version: 1,
+          createdAt: now,
+          createdBy: user,
+          updatedAt: now,
+          updatedBy: user,
+          space: { sys: { type: 'Link', linkType: 'Space', id: 'space' } },
+          environment: { sys: { type: 'Link', linkType: 'Environment', id: 'master' } },
+          parentEntity: { sys: { type: 'Link', linkType: 'Entry', id: entryId } }
+        }
+      } as TaskProps;
+      tasks.push(created);
+      return created;
+    },
+
+    getWorkflowDefinitions: async () =>
+      toCollection({ items: workflowDefinitions, total: workflowDefinitions.length, skip: 0, limit: workflowDefinitions.length }),
+
+    getWorkflows: async (query = {}) => toCollection(applyQuery(workflows, query))
+  };
+};
@@ -0,0 +1,274 @@
+import { EntryProps } from 'contentful-management';
+import { DRAFT_AGE_BUCKETS, hasPendingChanges } from './aggregation';
+import { Attribution, getDraftAuthorQuery } from './attribution';
+import { fetchAllPages } from './contentful';
+import { DashboardDataSource, DataSourceQuery } from './data-source';
+import { createDashboardFilter, DashboardFilter, toEntryQuery } from './dashboard-filter';
+import { NeedsUpdateRules } from './needs-update';
+import { ReviewCache, withoutCurrentReviews } from './reviews';
+import { getBrowserTimeZone, getZonedDaysAgo, getZonedMonthsAgo } from './timezone';
+
+// The KPI cards on Home, each of which opens the list of entries behind its number
+export type KpiListKind =
+  | 'totalPublished'
+  | 'averageTimeToPublish'
+  | 'scheduled'
+  | 'recentlyPublished'
+  | 'needsUpdate'
+  | 'pendingChanges';
+
+export interface KpiListOptions {
+  now?: Date;
+  timeZone?: string;
+  filter?: DashboardFilter;
+  recentlyPublishedDays?: number;
+  needsUpdateMonths?: number;
+  needsUpdateRules?: NeedsUpdateRules;
+  timeToPublishDays?: number;
+  // Entries scheduled for publishing, directly or through a release
+  scheduledEntryIds?: string[];
+  // Who drafts are credited to when a draft list is narrowed to a creator
+  attribution?: Attribution;
+  // Latest reviews read so far, so paging and searching the Needs Update list reads no comments again
+  reviewCache?: ReviewCache;
+}
+
+export interface KpiListPage {
+  items: EntryProps[];
+  total: number;
+}
+
+// A cell of the draft backlog report; leaving a part out lists drafts across all of it
+export interface DraftListSelection {
+  // Index into DRAFT_AGE_BUCKETS
+  ageBucket?: number;
+  contentTypeId?: string;
+  creatorId?: string;
+}
+
+interface ListPageOptions {
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export const getDaysToPublish = (entry: EntryProps): number | null => {
+  const sys = entry.sys as EntryProps['sys'] & { firstPublishedAt?: string };
+  if (!sys.firstPublishedAt || !sys.createdAt) {
+    return null;
+  }
+  return (new Date(sys.firstPublishedAt).getTime() - new Date(sys.createdAt).getTime()) / DAY_IN_MS;
+};
+
+/**
+ * CMA query for the entries behind a KPI card. Uses the same filter and
+ * cutoffs as the aggregation that produced the number on the card.
+ */
+export const getKpiListQuery = (kind: KpiListKind, options: KpiListOptions = {}): DataSourceQuery => {
+  const {
+    now = new Date(),
+    timeZone = getBrowserTimeZone(),
+    filter = createDashboardFilter(),
+    recentlyPublishedDays = 7,
+    needsUpdateMonths = 6,
+    needsUpdateRules = {},
+    timeToPublishDays = 30,
+    scheduledEntryIds = []
+  } = options;
+  const filterQuery = toEntryQuery(filter);
+
+  switch (kind) {
+    case 'averageTimeToPublish':
+      return {
+        ...filterQuery,
+        'sys.firstPublishedAt[gte]': getZonedDaysAgo(now, timeToPublishDays, timeZone).toISOString(),
+        order: '-sys.firstPublishedAt'
+      };
+    case 'scheduled':
+      return {
+        ...filterQuery,
+        'sys.id[in]': scheduledEntryIds.join(','),
+        order: '-sys.updatedAt'
+      };
+    case 'recentlyPublished':
+      return {
+        ...filterQuery,
+        'sys.publishedAt[gte]': getZonedDaysAgo(now, recentlyPublishedDays, timeZone).toISOString(),
+        order: '-sys.publishedAt'
+      };
+    case 'pendingChanges':
+      return {
+        ...filterQuery,
+        'sys.publishedAt[exists]': true,
+        order: '-sys.updatedAt'
+      };
+    case 'needsUpdate': {
+      // Types with a rule of their own are left to getNeedsUpdateQueries
+      const ruleTypeIds = Object.keys(needsUpdateRules);
+      return {
+        ...filterQuery,
+        'sys.contentType.sys.id[nin]': ruleTypeIds.length ? ruleTypeIds.join(',') : undefined,
+        'sys.publishedAt[exists]': true,
+        'sys.updatedAt[lte]': getZonedMonthsAgo(now, needsUpdateMonths, timeZone).toISOString(),
+        order: 'sys.updatedAt'
+      };
+    }
+    default:
+      return {
+        ...filterQuery,
+        'sys.publishedAt[exists]': true,
+        order: '-sys.publishedAt'
+      };
+  }
+};
+
+/**
+ * CMA queries that together list the entries needing an update, each oldest
+ * first: one for the types on the global threshold and one per type with a
+ * rule. A type reviewed by a date field is queried by that field and, for
+ * entries that leave it empty, by sys.updatedAt, so the CMA does the filtering
+ * and counting of every part.
+ */
+export const getNeedsUpdateQueries = (options: KpiListOptions = {}): DataSourceQuery[] => {
+  const { now = new Date(), timeZone = getBrowserTimeZone(), filter = createDashboardFilter(), needsUpdateRules = {} } = options;
+  const baseQuery: DataSourceQuery = { ...toEntryQuery(filter), 'sys.publishedAt[exists]': true };
+  const isTracked = (contentTypeId: string) => !filter.contentTypes.length || filter.contentTypes.includes(contentTypeId);
+  const hasGlobalTypes = !filter.contentTypes.length || filter.contentTypes.some(contentTypeId => !needsUpdateRules[contentTypeId]);
+  const queries = hasGlobalTypes ? [getKpiListQuery('needsUpdate', options)] : [];
+
+  Object.entries(needsUpdateRules).forEach(([contentTypeId, { months, dateField }]) => {
+    if (months === null || !isTracked(contentTypeId)) return;
+    const cutoff = getZonedMonthsAgo(now, months, timeZone).toISOString();
+    const typeQuery = { ...baseQuery, content_type: contentTypeId };
+    if (dateField) {
+      queries.push(
+        { ...typeQuery, [`fields.${dateField}[lte]`]: cutoff, order: `fields.${dateField}` },
+        { ...typeQuery, [`fields.${dateField}[exists]`]: false, 'sys.updatedAt[lte]': cutoff, order: 'sys.updatedAt' }
+      );
+    } else {
+      queries.push({ ...typeQuery, 'sys.updatedAt[lte]': cutoff, order: 'sys.updatedAt' });
+    }
+  });
+
+  return queries;
+};
+
+// A page across several queries listed one after another; each query is read once, for its total and its part of the page
+const fetchConcatenatedPage = async (
+  dataSource: DashboardDataSource,
+  queries: DataSourceQuery[],
+  skip: number,
+  limit: number
+): Promise<KpiListPage> => {
+  const items: EntryProps[] = [];
+  let total = 0;
+  for (const query of queries) {
+    const wanted = limit - items.length;
+    const response = await dataSource.getEntries({ ...query, skip: Math.max(0, skip - total), limit: Math.max(wanted, 1) });
+    items.push(...response.items.slice(0, wanted));
+    total += response.total;
+  }
+  return { items, total };
+};
+
+// Lists the CMA cannot filter or order as needed; they are fetched in full and narrowed here
+const LOCAL_LISTS: Partial<Record<KpiListKind, (entries: EntryProps[]) => EntryProps[]>> = {
+  // Slowest to publish first
+  averageTimeToPublish: entries =>
+    entries.sort((a, b) => (getDaysToPublish(b) ?? 0) - (getDaysToPublish(a) ?? 0)),
+  pendingChanges: entries => entries.filter(hasPendingChanges)
+};
+
+/**
+ * One page of a KPI list, optionally narrowed by a full-text search. Lists in
+ * LOCAL_LISTS are fetched completely and then paged locally.
+ */
+export const fetchKpiListPage = async (
+  dataSource: DashboardDataSource,
+  kind: KpiListKind,
+  options: KpiListOptions,
+  { search = '', page = 0, pageSize = 25 }: ListPageOptions = {}
+): Promise<KpiListPage> => {
+  if (kind === 'scheduled' && !options.scheduledEntryIds?.length) {
+    return { items: [], total: 0 };
+  }
+
+  const query: DataSourceQuery = {
+    ...getKpiListQuery(kind, options),
+    query: search.trim() || undefined
+  };
+
+  if (kind === 'needsUpdate') {
+    const queries = getNeedsUpdateQueries(options).map(partQuery => ({ ...partQuery, query: query.query }));
+    return fetchConcatenatedPage(dataSource, queries, page * pageSize, pageSize);
+  }
+
+  const narrowLocally = LOCAL_LISTS[kind];
+  if (narrowLocally) {
+    const entries = narrowLocally(await fetchAllPages<EntryProps>((skip, limit) =>
+      dataSource.getEntries({ ...query, skip, limit })
+    ));
+    return { items: entries.slice(page * pageSize, (page + 1) * pageSize), total: entries.length };
+  }
+
+  const { items, total } = await dataSource.getEntries({ ...query, skip: page * pageSize, limit: pageSize });
+  return { items, total };
+};
+
+/**
+ * Drop entries marked reviewed from a page of the Needs Update list; they count
+ * as fresh until their next review is due. Only the page's own entries have
+ * their comments read, so the total drops by what this page loses.
+ */
+export const withoutReviewedItems = async (
+  dataSource: DashboardDataSource,
+  { items, total }: KpiListPage,
+  options: KpiListOptions
+): Promise<KpiListPage> => {
+  const remaining = await withoutCurrentReviews(dataSource, items, {
+    now: options.now || new Date(),
+    timeZone: options.timeZone || getBrowserTimeZone(),
+    cache: options.reviewCache
+  });
+  return { items: remaining, total: Math.max(0, total - (items.length - remaining.length)) };
+};
+
+/**
+ * CMA query for never published drafts, oldest first. Age buckets use the
+ * same cutoffs as the draft backlog report.
+ */
+export const getDraftListQuery = (
+  { ageBucket, contentTypeId, creatorId }: DraftListSelection,
+  { now = new Date(), filter = createDashboardFilter(), attribution }: Pick<KpiListOptions, 'now' | 'filter' | 'attribution'> = {}
+): DataSourceQuery => {
+  const bucket = ageBucket === undefined ? undefined : DRAFT_AGE_BUCKETS[ageBucket];
+  const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_IN_MS).toISOString();
+  const query: DataSourceQuery = {
+    ...toEntryQuery(filter),
+    'sys.firstPublishedAt[exists]': false,
+    'sys.publishedAt[exists]': false,
+    'sys.archivedAt[exists]': false,
+    'sys.createdAt[lte]': bucket ? daysAgo(bucket.minDays) : undefined,
+    'sys.createdAt[gt]': bucket && bucket.maxDays !== null ? daysAgo(bucket.maxDays) : undefined,
+    order: 'sys.createdAt'
+  };
+  if (contentTypeId) query['sys.contentType.sys.id[in]'] = contentTypeId;
+  return creatorId ? { ...query, ...getDraftAuthorQuery(creatorId, attribution) } : query;
+};
+
+export const fetchDraftListPage = async (
+  dataSource: DashboardDataSource,
+  selection: DraftListSelection,
+  options: Pick<KpiListOptions, 'now' | 'filter' | 'attribution'>,
+  { search = '', page = 0, pageSize = 25 }: ListPageOptions = {}
+): Promise<KpiListPage> => {
+  const { items, total } = await dataSource.getEntries({
+    ...getDraftListQuery(selection, options),
+    query: search.trim() || undefined,
+    skip: page * pageSize,
+    limit: pageSize
+  });
+  return { items, total };
+};
@@ -0,0 +1,197 @@
+import { ContentTypeProps, EntryProps } from 'contentful-management';
+import { fetchAllPages } from './contentful';
+import { DashboardDataSource } from './data-source';
+import { compactEntry, getEntryIndexKey, LINK_SCAN_STORE_NAME, runDashboardTransaction } from './entry-index';
+import { EntryLink, getEntryLinks, getEntryTitle, LinkType } from './references';
+import { isRequestCancelled } from './request-scheduler';
+
+// Bump when the shape of stored scans changes so old scans are not reused
+const LINK_SCAN_VERSION = 2;
+const LINK_SCAN_STORAGE_PREFIX = 'contentDashboard_linkScan_';
+// A scan is reused for this long; links change far less often than the metrics
+export const LINK_SCAN_TTL = 60 * 60 * 1000;
+
+// An entry and everything its fields link to
+export interface ScannedEntry {
+  // Sys metadata and tags only, as kept by the entry index
+  entry: EntryProps;
+  title: string;
+  linkedEntryIds: string[];
+  linkedAssetIds: string[];
+  // Every link to an entry with the field and locale it sits in, for the broken reference report
+  entryLinks: EntryLink[];
+}
+
+export interface LinkScan {
+  version: number;
+  scannedAt: number;
+  // Content type ID -> name
+  contentTypeNames: Record<string, string>;
+  entries: ScannedEntry[];
+}
+
+// Reduce entries to their links, dropping the field values
+export const scanEntryLinks = (
+  entries: EntryProps[],
+  contentTypes: ContentTypeProps[] = [],
+  defaultLocale = 'en-US',
+  now = Date.now()
+): LinkScan => {
+  const contentTypesById = new Map(contentTypes.map(contentType => [contentType.sys.id, contentType]));
+
+  return {
+    version: LINK_SCAN_VERSION,
+    scannedAt: now,
+    contentTypeNames: Object.fromEntries(contentTypes.map(contentType => [contentType.sys.id, contentType.name])),
+    entries: entries.map(entry => {
+      const links = getEntryLinks(entry);
+      const idsOf = (linkType: LinkType) =>
+        Array.from(new Set(links.filter(link => link.linkType === linkType).map(link => link.id)));
+      return {
+        entry: compactEntry(entry),
+        title: getEntryTitle(entry, contentTypesById.get(entry.sys.contentType?.sys.id), defaultLocale),
+        linkedEntryIds: idsOf('Entry'),
+        linkedAssetIds: idsOf('Asset'),
+        entryLinks: links.filter(link => link.linkType === 'Entry')
+      };
+    })
+  };
+};
+
+/**
+ * Read the fields of every entry for links. Every entry has to be read, since
+ * a link from any content type keeps an entry or asset in use.
+ */
+export const fetchLinkScan = async (dataSource: DashboardDataSource, now = Date.now()): Promise<LinkScan> => {
+  const [contentTypesResponse, localesResponse, entries] = await Promise.all([
+    dataSource.getContentTypes(),
+    dataSource.getLocales(),
+    fetchAllPages<EntryProps>((skip, limit) => dataSource.getEntries({ order: 'sys.createdAt', skip, limit }), 200)
+  ]);
+
+  return scanEntryLinks(
+    entries,
+    contentTypesResponse.items,
+    localesResponse.items.find(locale => locale.default)?.code,
+    now
+  );
+};
+
+// IDs of everything the scanned entries link to with the given link type
+export const getLinkedIds = (scan: LinkScan, linkType: LinkType): Set<string> =>
+  new Set(scan.entries.flatMap(({ linkedEntryIds, linkedAssetIds }) => (linkType === 'Entry' ? linkedEntryIds : linkedAssetIds)));
+
+export interface LinkScanStore {
+  load(key: string): Promise<LinkScan | null>;
+  save(key: string, scan: LinkScan): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// Store backed by localStorage; large spaces may exceed its quota, in which case saving is skipped
+export const createLocalStorageLinkScanStore = (): LinkScanStore => ({
+  load: async (key) => {
+    try {
+      const stored = localStorage.getItem(`${LINK_SCAN_STORAGE_PREFIX}${key}`);
+      return stored ? (JSON.parse(stored) as LinkScan) : null;
+    } catch (error) {
+      console.warn('Failed to load link scan from localStorage:', error);
+      return null;
+    }
+  },
+  save: async (key, scan) => {
+    try {
+      localStorage.setItem(`${LINK_SCAN_STORAGE_PREFIX}${key}`, JSON.stringify(scan));
+    } catch (error) {
+      console.warn('Failed to save link scan to localStorage:', error);
+    }
+  },
+  remove: async (key) => {
+    try {
+      localStorage.removeItem(`${LINK_SCAN_STORAGE_PREFIX}${key}`);
+    } catch (error) {
+      console.warn('Failed to remove link scan from localStorage:', error);
+    }
+  }
+});
+
+// Store backed by IndexedDB, next to the entry index, with room for the links of large spaces
+export const createIndexedDbLinkScanStore = (): LinkScanStore => ({
+  load: async (key) => {
+    try {
+      return (await runDashboardTransaction<LinkScan | undefined>(LINK_SCAN_STORE_NAME, 'readonly', store => store.get(key))) ?? null;
+    } catch (error) {
+      console.warn('Failed to load link scan from IndexedDB:', error);
+      return null;
+    }
+  },
+  save: async (key, scan) => {
+    try {
+      await runDashboardTransaction(LINK_SCAN_STORE_NAME, 'readwrite', store => store.put(scan, key));
+    } catch (error) {
+      console.warn('Failed to save link scan to IndexedDB:', error);
+    }
+  },
+  remove: async (key) => {
+    try {
+      await runDashboardTransaction(LINK_SCAN_STORE_NAME, 'readwrite', store => store.delete(key));
+    } catch (error) {
+      console.warn('Failed to remove link scan from IndexedDB:', error);
+    }
+  }
+});
+
+export const createDefaultLinkScanStore = (): LinkScanStore =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbLinkScanStore() : createLocalStorageLinkScanStore();
+
+// Removals still running, by space environment, so a scan loaded right after a clear never reads the old one
+const runningClears = new Map<string, Promise<void>>();
+
+export const clearLinkScan = (spaceId: string, environmentId: string, store = createDefaultLinkScanStore()) => {
+  const key = getEntryIndexKey(spaceId, environmentId);
+  const clear = store.remove(key).finally(() => {
+    if (runningClears.get(key) === clear) runningClears.delete(key);
+  });
+  runningClears.set(key, clear);
+  return clear;
+};
+
+// Scans still running, by space environment, so the reports that need one share it
+const runningScans = new Map<string, Promise<LinkScan>>();
+
+/**
+ * The link scan of a space environment, shared by the orphaned entry, asset
+ * and broken reference reports. A scan younger than LINK_SCAN_TTL is reused, and calls made while a
+ * scan is running wait for it. clearLinkScan makes the next call scan again.
+ */
+export const loadLinkScan = async (
+  dataSource: DashboardDataSource,
+  spaceId: string,
+  environmentId: string,
+  options: { store?: LinkScanStore; now?: number } = {}
+): Promise<LinkScan> => {
+  const { store = createDefaultLinkScanStore(), now = Date.now() } = options;
+  const key = getEntryIndexKey(spaceId, environmentId);
+  const runningScan = runningScans.get(key);
+  if (runningScan) {
+    try {
+      return await runningScan;
+    } catch (error) {
+      // The caller that started the scan cancelled it; this caller still needs the links
+      if (!isRequestCancelled(error)) throw error;
+      return loadLinkScan(dataSource, spaceId, environmentId, options);
+    }
+  }
+
+  const scan = (async () => {
+    await runningClears.get(key);
+    const storedScan = await store.load(key);
+    if (storedScan && storedScan.version === LINK_SCAN_VERSION && now - storedScan.scannedAt < LINK_SCAN_TTL) {
+      return storedScan;
+    }
+    const result = await fetchLinkScan(dataSource, now);
+    await store.save(key, result);
+    return result;
+  })().finally(() => runningScans.delete(key));
+  runningScans.set(key, scan);
+  return scan;
+};
@@ -0,0 +1,51 @@
+import { EntryProps } from 'contentful-management';
+import { getZonedMonthsAgo } from './timezone';
+
+// How often entries of one content type need a review
+export interface NeedsUpdateRule {
+  // Months after which an entry needs an update; null when it never goes stale
+  months: number | null;
+  // Date field read instead of sys.updatedAt, e.g. reviewDate or lastVerified
+  dateField?: string;
+}
+
+// Content type ID -> rule; types without a rule use the global threshold and sys.updatedAt
+export type NeedsUpdateRules = Record<string, NeedsUpdateRule>;
+
+export interface NeedsUpdateOptions {
+  now: Date;
+  timeZone: string;
+  needsUpdateMonths: number;
+  needsUpdateRules?: NeedsUpdateRules;
+}
+
+export const getNeedsUpdateRule = (
+  contentTypeId: string | undefined,
+  { needsUpdateMonths, needsUpdateRules = {} }: Pick<NeedsUpdateOptions, 'needsUpdateMonths' | 'needsUpdateRules'>
+): NeedsUpdateRule => (contentTypeId && needsUpdateRules[contentTypeId]) || { months: needsUpdateMonths };
+
+/**
+ * The date an entry's staleness is measured from: the rule's date field in the
+ * first locale that has it, or sys.updatedAt when the field is empty or not
+ * loaded, as in the entry index.
+ */
+export const getNeedsUpdateDate = (entry: EntryProps, rule: NeedsUpdateRule): string => {
+  const values = rule.dateField ? entry.fields?.[rule.dateField] : undefined;
+  const date = values ? Object.values(values).find(value => typeof value === 'string' && value !== '') : undefined;
+  return (date as string | undefined) || entry.sys.updatedAt;
+};
+
+export const isNeedsUpdate = (entry: EntryProps, options: NeedsUpdateOptions): boolean => {
+  const rule = getNeedsUpdateRule(entry.sys.contentType?.sys?.id, options);
+  if (rule.months === null) return false;
+  const cutoff = getZonedMonthsAgo(options.now, rule.months, options.timeZone).getTime();
+  return new Date(getNeedsUpdateDate(entry, rule)).getTime() <= cutoff;
+};
+
+const formatMonths = (months: number) => `${months} ${months === 1 ? 'month' : 'months'}`;
+
+// Short description of the thresholds for the Needs Update card and tab
+export const describeNeedsUpdateThreshold = (needsUpdateMonths: number, needsUpdateRules: NeedsUpdateRules = {}) =>
+  Object.keys(needsUpdateRules).length
+    ? `Past the review period of its content type (default ${formatMonths(needsUpdateMonths)})`
+    : `Not updated in more than ${formatMonths(needsUpdateMonths)}`;
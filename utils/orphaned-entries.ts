@@ -0,0 +1,107 @@
+import { EntryProps } from 'contentful-management';
+import { DraftAgeBucket, DraftBacklogBreakdown } from './aggregation';
+import { DashboardFilter, matchesDashboardFilter } from './dashboard-filter';
+import { LinkScan } from './link-scan';
+
+// How long an orphaned entry has been live, counted from its first publication
+export const ORPHAN_AGE_BUCKETS: DraftAgeBucket[] = [
+  { label: '< 30 days', minDays: 0, maxDays: 30 },
+  { label: '1-6 months', minDays: 30, maxDays: 180 },
+  { label: '6-12 months', minDays: 180, maxDays: 365 },
+  { label: '1+ year', minDays: 365, maxDays: null }
+];
+
+export interface OrphanedEntry {
+  id: string;
+  title: string;
+  contentTypeId: string;
+  contentTypeName: string;
+  firstPublishedAt: string;
+  updatedAt: string;
+  // Index into ORPHAN_AGE_BUCKETS
+  ageBucket: number;
+}
+
+export interface OrphanedEntryReport {
+  total: number;
+  byAge: number[];
+  // Rows hold counts per ORPHAN_AGE_BUCKETS entry, biggest first
+  byContentType: DraftBacklogBreakdown[];
+  entries: OrphanedEntry[];
+}
+
+export interface OrphanedEntryOptions {
+  filter?: DashboardFilter;
+  now?: Date;
+}
+
+type OrphanCandidate = EntryProps & {
+  sys: EntryProps['sys'] & { firstPublishedAt?: string; archivedAt?: string };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getOrphanAgeBucket = (days: number) =>
+  ORPHAN_AGE_BUCKETS.findIndex(({ minDays, maxDays }) => days >= minDays && (maxDays === null || days < maxDays));
+
+/**
+ * Published entries in the filter's population that no other entry links to.
+ * Links from archived entries do not count, and neither does an entry linking
+ * to itself. Rich text embeds count as links.
+ */
+export const findOrphanedEntries = (scan: LinkScan, options: OrphanedEntryOptions = {}): OrphanedEntry[] => {
+  const { filter, now = new Date() } = options;
+  const linkedIds = new Set<string>();
+  scan.entries.forEach(({ entry, linkedEntryIds }) => {
+    if ((entry as OrphanCandidate).sys.archivedAt) return;
+    linkedEntryIds.forEach(id => {
+      if (id !== entry.sys.id) linkedIds.add(id);
+    });
+  });
+
+  return scan.entries
+    .filter(({ entry }) => entry.sys.publishedAt && !linkedIds.has(entry.sys.id))
+    .filter(({ entry }) => !filter || matchesDashboardFilter(entry, filter))
+    .map(({ entry, title }) => {
+      const { sys } = entry as OrphanCandidate;
+      const contentTypeId = sys.contentType.sys.id;
+      const firstPublishedAt = sys.firstPublishedAt || sys.publishedAt!;
+      return {
+        id: sys.id,
+        title,
+        contentTypeId,
+        contentTypeName: scan.contentTypeNames[contentTypeId] || contentTypeId,
+        firstPublishedAt,
+        updatedAt: sys.updatedAt,
+        ageBucket: getOrphanAgeBucket(Math.max(0, (now.getTime() - new Date(firstPublishedAt).getTime()) / DAY_MS))
+      };
+    })
+    // Longest-lived orphans first, the likeliest candidates for clean-up
+    .sort((a, b) => a.firstPublishedAt.localeCompare(b.firstPublishedAt));
+};
+
+// Group orphans by content type and age, leaving out root content types
+export const summarizeOrphanedEntries = (
+  orphans: OrphanedEntry[],
+  excludedContentTypes: string[] = []
+): OrphanedEntryReport => {
+  const entries = orphans.filter(orphan => !excludedContentTypes.includes(orphan.contentTypeId));
+  const byAge = ORPHAN_AGE_BUCKETS.map(() => 0);
+  const rows = new Map<string, DraftBacklogBreakdown>();
+
+  entries.forEach(({ contentTypeId, contentTypeName, ageBucket }) => {
+    byAge[ageBucket]++;
+    if (!rows.has(contentTypeId)) {
+      rows.set(contentTypeId, { id: contentTypeId, name: contentTypeName, counts: ORPHAN_AGE_BUCKETS.map(() => 0), total: 0 });
+    }
+    rows.get(contentTypeId)!.counts[ageBucket]++;
+    rows.get(contentTypeId)!.total++;
+  });
+
+  return {
+    total: entries.length,
+    byAge,
+    byContentType: Array.from(rows.values()).sort((a, b) => b.total - a.total || a.name.localeCompare(b.name)),
+    entries
+  };
+};
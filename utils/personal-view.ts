@@ -0,0 +1,166 @@
+import { EntryProps, ScheduledActionProps, TaskProps } from 'contentful-management';
+import { DashboardDataSource } from './data-source';
+import { DashboardFilter, matchesDashboardFilter } from './dashboard-filter';
+import { isNeedsUpdate, NeedsUpdateOptions } from './needs-update';
+import { ReviewCache, withoutCurrentReviews } from './reviews';
+import { fetchOpenTasks } from './tasks';
+
+// Whole-space dashboard, or one of the views scoped to the current user
+export type PersonalView = 'space' | 'content' | 'tasks';
+
+export const PERSONAL_VIEW_LABELS: Record<PersonalView, string> = {
+  space: 'Everyone',
+  content: 'My content',
+  tasks: 'My tasks'
+};
+
+// Entries the user created or last updated, split the way the space-wide tabs are
+export interface MyContent {
+  // Most recently updated first
+  recent: EntryProps[];
+  drafts: EntryProps[];
+  needsUpdate: EntryProps[];
+  // Entries the user owns or scheduled, soonest first
+  scheduled: EntryProps[];
+}
+
+export interface AssignedTask {
+  task: TaskProps;
+  entry: EntryProps;
+}
+
+export interface MyTasks {
+  // Due soonest first
+  tasks: AssignedTask[];
+  // Entries whose tasks were read, out of the entries in the filter
+  checkedCount: number;
+  totalCount: number;
+}
+
+export interface MyTasksOptions {
+  // Most entries whose tasks are read; defaults to MY_TASKS_ENTRY_LIMIT
+  limit?: number;
+  // Called after each batch with the entries checked so far and the entries to check
+  onProgress?: (checkedCount: number, limitedCount: number) => void;
+}
+
+export interface MyContentOptions extends NeedsUpdateOptions {
+  filter: DashboardFilter;
+  // Shared with the space-wide Needs Update list, so both leave out the same reviewed entries
+  reviewCache?: ReviewCache;
+}
+
+const ENTRY_BATCH_SIZE = 100;
+// Tasks can only be listed per entry, so My tasks stops after this many entries
+export const MY_TASKS_ENTRY_LIMIT = 500;
+// Entries whose tasks are read between progress updates
+const TASK_SCAN_BATCH_SIZE = 50;
+// Sorts after every due date
+const NO_DUE_DATE = '9999-12-31';
+
+export const isOwnEntry = (entry: EntryProps, userId: string) =>
+  entry.sys.createdBy?.sys.id === userId || entry.sys.updatedBy?.sys.id === userId;
+
+const isArchived = (entry: EntryProps) => Boolean((entry.sys as EntryProps['sys'] & { archivedAt?: string }).archivedAt);
+
+// Full entries, with fields, for IDs taken from the entry index
+const fetchEntriesById = async (dataSource: DashboardDataSource, entryIds: string[]): Promise<EntryProps[]> => {
+  const batches = [];
+  for (let i = 0; i < entryIds.length; i += ENTRY_BATCH_SIZE) {
+    const batchIds = entryIds.slice(i, i + ENTRY_BATCH_SIZE);
+    batches.push(dataSource.getEntries({ 'sys.id[in]': batchIds.join(','), limit: ENTRY_BATCH_SIZE }));
+  }
+  return (await Promise.all(batches)).flatMap(result => result.items);
+};
+
+// Upcoming publish actions on entries
+const getScheduledPublications = (actions: ScheduledActionProps[], now: Date) =>
+  actions.filter(action =>
+    action.sys.status === 'scheduled' &&
+    action.action === 'publish' &&
+    action.entity.sys.linkType === 'Entry' &&
+    new Date(action.scheduledFor.datetime) > now
+  );
+
+/**
+ * Split the user's entries into the personal lists. Ownership is read from the
+ * entry index; the entries themselves are loaded in full, so per type review
+ * date fields apply. Entries marked reviewed are left out of Needs Update.
+ */
+export const fetchMyContent = async (
+  dataSource: DashboardDataSource,
+  indexedEntries: EntryProps[],
+  userId: string,
+  options: MyContentOptions
+): Promise<MyContent> => {
+  const ownIds = indexedEntries
+    .filter(entry => isOwnEntry(entry, userId) && !isArchived(entry) && matchesDashboardFilter(entry, options.filter))
+    .map(entry => entry.sys.id);
+  const scheduledActions = await dataSource.getScheduledActions({
+    'sys.status[in]': 'scheduled',
+    'order': 'scheduledFor.datetime',
+    'limit': 500
+  });
+  const publications = getScheduledPublications(scheduledActions.items, options.now).filter(action =>
+    action.sys.createdBy?.sys.id === userId || ownIds.includes(action.entity.sys.id)
+  );
+  const scheduledIds = Array.from(new Set(publications.map(action => action.entity.sys.id)));
+  const entries = await fetchEntriesById(dataSource, Array.from(new Set([...ownIds, ...scheduledIds])));
+  const entriesById = new Map(entries.map(entry => [entry.sys.id, entry]));
+  const ownEntries = ownIds.map(id => entriesById.get(id)).filter((entry): entry is EntryProps => Boolean(entry));
+  const needsUpdate = await withoutCurrentReviews(
+    dataSource,
+    ownEntries.filter(entry => entry.sys.publishedAt && isNeedsUpdate(entry, options)),
+    { now: options.now, timeZone: options.timeZone, cache: options.reviewCache }
+  );
+
+  return {
+    recent: [...ownEntries].sort((a, b) => b.sys.updatedAt.localeCompare(a.sys.updatedAt)),
+    drafts: ownEntries.filter(entry => !entry.sys.publishedAt),
+    needsUpdate,
+    scheduled: scheduledIds
+      .map(id => entriesById.get(id))
+      .filter((entry): entry is EntryProps => Boolean(entry) && matchesDashboardFilter(entry!, options.filter))
+  };
+};
+
+/**
+ * Open tasks assigned to the user on entries in the filter. Tasks can only be
+ * listed per entry, so this reads the tasks of the most recently updated
+ * entries that are not archived, up to the limit, reporting progress per batch.
+ */
+export const fetchMyTasks = async (
+  dataSource: DashboardDataSource,
+  indexedEntries: EntryProps[],
+  userId: string,
+  filter: DashboardFilter,
+  options: MyTasksOptions = {}
+): Promise<MyTasks> => {
+  const { limit = MY_TASKS_ENTRY_LIMIT, onProgress } = options;
+  const candidates = indexedEntries
+    .filter(entry => !isArchived(entry) && matchesDashboardFilter(entry, filter))
+    .sort((a, b) => b.sys.updatedAt.localeCompare(a.sys.updatedAt));
+  const entryIds = candidates.slice(0, limit).map(entry => entry.sys.id);
+
+  const assigned: TaskProps[] = [];
+  for (let i = 0; i < entryIds.length; i += TASK_SCAN_BATCH_SIZE) {
+    const openTasks = await fetchOpenTasks(dataSource, entryIds.slice(i, i + TASK_SCAN_BATCH_SIZE));
+    assigned.push(...Object.values(openTasks).flat().filter(task => task.assignedTo.sys.id === userId));
+    onProgress?.(Math.min(i + TASK_SCAN_BATCH_SIZE, entryIds.length), entryIds.length);
+  }
+  const entries = await fetchEntriesById(
+    dataSource,
+    Array.from(new Set(assigned.map(task => task.sys.parentEntity.sys.id)))
+  );
+  const entriesById = new Map(entries.map(entry => [entry.sys.id, entry]));
+
+  return {
+    tasks: assigned
+      .filter(task => entriesById.has(task.sys.parentEntity.sys.id))
+      .map(task => ({ task, entry: entriesById.get(task.sys.parentEntity.sys.id)! }))
+      // Tasks due soonest first, then those without a due date
+      .sort((a, b) => (a.task.dueDate || NO_DUE_DATE).localeCompare(b.task.dueDate || NO_DUE_DATE)),
+    checkedCount: entryIds.length,
+    totalCount: candidates.length
+  };
+};
@@ -0,0 +1,54 @@
+import { ContentTypeProps, EntryProps } from 'contentful-management';
+
+export type LinkType = 'Entry' | 'Asset';
+
+// One link from a field of an entry to another entry or to an asset
+export interface EntryLink {
+  linkType: LinkType;
+  id: string;
+  field: string;
+  locale: string;
+}
+
+interface LinkObject {
+  sys: { type: 'Link'; linkType: string; id: string };
+}
+
+const isLinkObject = (value: unknown): value is LinkObject => {
+  const sys = (value as LinkObject | null)?.sys;
+  return Boolean(sys && sys.type === 'Link' && typeof sys.id === 'string');
+};
+
+const collectLinks = (value: unknown, onLink: (link: LinkObject) => void) => {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectLinks(item, onLink));
+  } else if (isLinkObject(value)) {
+    onLink(value);
+  } else if (value && typeof value === 'object') {
+    // Rich text keeps embedded entries and assets in nested nodes
+    Object.keys(value).forEach(key => collectLinks((value as Record<string, unknown>)[key], onLink));
+  }
+};
+
+// Every entry and asset link in an entry's fields, in every locale
+export const getEntryLinks = (entry: EntryProps): EntryLink[] => {
+  const links: EntryLink[] = [];
+  Object.keys(entry.fields || {}).forEach(field => {
+    const values = entry.fields[field] || {};
+    Object.keys(values).forEach(locale => {
+      collectLinks(values[locale], ({ sys }) => {
+        if (sys.linkType === 'Entry' || sys.linkType === 'Asset') {
+          links.push({ linkType: sys.linkType, id: sys.id, field, locale });
+        }
+      });
+    });
+  });
+  return links;
+};
+
+// The entry's display field in the locale, or in the first locale that has it
+export const getEntryTitle = (entry: EntryProps, contentType: ContentTypeProps | undefined, locale: string): string => {
+  const values = contentType?.displayField ? entry.fields?.[contentType.displayField] : undefined;
+  const title = values?.[locale] ?? (values ? Object.values(values)[0] : undefined);
+  return typeof title === 'string' && title.trim() !== '' ? title : 'Untitled';
+};
@@ -0,0 +1,192 @@
+import { DashboardDataSource } from './data-source';
+
+export interface RequestSchedulerOptions {
+  // Maximum number of requests in flight at once
+  concurrency?: number;
+  // How many times a rate limited or failed request is retried before giving up
+  maxRetries?: number;
+  // First backoff delay in milliseconds; doubles with each retry
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface ScheduleOptions {
+  // Which failures the request is retried on; rate limits and server errors by default
+  isRetryable?: (error: unknown) => boolean;
+}
+
+export interface RequestScheduler {
+  schedule<T>(request: () => Promise<T>, signal?: AbortSignal, options?: ScheduleOptions): Promise<T>;
+}
+
+// Thrown for requests that were dropped because their AbortSignal fired
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export const isRequestCancelled = (error: unknown): boolean => error instanceof RequestCancelledError;
+
+// CMA errors carry their details as a JSON string in the message
+const parseErrorDetails = (error: any): { status?: number; headers?: Record<string, string> } => {
+  try {
+    return typeof error?.message === 'string' ? JSON.parse(error.message) : {};
+  } catch {
+    return {};
+  }
+};
+
+const getErrorStatus = (error: any): number | undefined =>
+  error?.status ?? error?.response?.status ?? parseErrorDetails(error).status;
+
+// A rate limited request was refused before it ran, so even a write is safe to send again
+export const isRateLimitedError = (error: any): boolean =>
+  error?.name === 'RateLimitExceeded' || getErrorStatus(error) === 429;
+
+const isRetryableError = (error: any): boolean => {
+  const status = getErrorStatus(error);
+  return isRateLimitedError(error) || (status !== undefined && status >= 500);
+};
+
+// Delay requested by the server, from Retry-After or Contentful's rate limit reset header
+export const getRetryAfterMs = (error: any): number | null => {
+  const headers = error?.response?.headers ?? error?.headers ?? parseErrorDetails(error).headers ?? {};
+  const value = headers['retry-after'] ?? headers['Retry-After'] ?? headers['x-contentful-ratelimit-reset'];
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Queue that caps how many requests run concurrently and retries rate limited
+ * (429) and server errors with exponential backoff, honoring Retry-After. A
+ * request can narrow which failures are retried through its ScheduleOptions.
+ * Requests whose signal is aborted are dropped from the queue and stop retrying.
+ */
+export const createRequestScheduler = ({
+  concurrency = 4,
+  maxRetries = 5,
+  baseDelayMs = 1000,
+  maxDelayMs = 30000
+}: RequestSchedulerOptions = {}): RequestScheduler => {
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= concurrency) return;
+    const start = queue.shift();
+    if (start) {
+      active++;
+      start();
+    }
+  };
+
+  const runWithRetry = async <T>(
+    request: () => Promise<T>,
+    signal?: AbortSignal,
+    isRetryable: (error: unknown) => boolean = isRetryableError
+  ): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) + Math.random() * 250;
+        await wait(getRetryAfterMs(error) ?? backoff, signal);
+      }
+    }
+  };
+
+  const schedule = <T>(request: () => Promise<T>, signal?: AbortSignal, options: ScheduleOptions = {}): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+      }
+
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        runWithRetry(request, signal, options.isRetryable)
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      };
+
+      // Drop the request from the queue if it is cancelled before it starts
+      const onAbort = () => {
+        const position = queue.indexOf(start);
+        if (position !== -1) {
+          queue.splice(position, 1);
+          reject(new RequestCancelledError());
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(start);
+      next();
+    });
+
+  return { schedule };
+};
+
+// Scheduler shared by every CMA call in the app so they draw from one concurrency budget
+export const requestScheduler = createRequestScheduler();
+
+// A write that failed with a server error may still have been applied, so writes are retried only when rate limited
+const WRITE_OPTIONS: ScheduleOptions = { isRetryable: isRateLimitedError };
+
+// Wrap a data source so each of its calls goes through the scheduler
+export const createScheduledDataSource = (
+  dataSource: DashboardDataSource,
+  scheduler: RequestScheduler = requestScheduler,
+  signal?: AbortSignal
+): DashboardDataSource => ({
+  getEntries: (query) => scheduler.schedule(() => dataSource.getEntries(query), signal),
+  getAssets: (query) => scheduler.schedule(() => dataSource.getAssets(query), signal),
+  getLocales: () => scheduler.schedule(() => dataSource.getLocales(), signal),
+  getContentTypes: () => scheduler.schedule(() => dataSource.getContentTypes(), signal),
+  getUsers: () => scheduler.schedule(() => dataSource.getUsers(), signal),
+  getTags: () => scheduler.schedule(() => dataSource.getTags(), signal),
+  getScheduledActions: (query) => scheduler.schedule(() => dataSource.getScheduledActions(query), signal),
+  getRelease: (releaseId) => scheduler.schedule(() => dataSource.getRelease(releaseId), signal),
+  getComments: (entryId) => scheduler.schedule(() => dataSource.getComments(entryId), signal),
+  createComment: (entryId, body) => scheduler.schedule(() => dataSource.createComment(entryId, body), signal, WRITE_OPTIONS),
+  getTasks: (entryId) => scheduler.schedule(() => dataSource.getTasks(entryId), signal),
+  createTask: (entryId, task) => scheduler.schedule(() => dataSource.createTask(entryId, task), signal, WRITE_OPTIONS),
+  getWorkflowDefinitions: () => scheduler.schedule(() => dataSource.getWorkflowDefinitions(), signal),
+  getWorkflows: (query) => scheduler.schedule(() => dataSource.getWorkflows(query), signal)
+});
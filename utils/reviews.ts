@@ -0,0 +1,131 @@
+import { CommentProps, EntryProps } from 'contentful-management';
+import { DashboardDataSource } from './data-source';
+import { getZonedDate, getZonedMonthsAgo, toDateKey } from './timezone';
+
+// Starts every comment the dashboard records a review in, so other comments are ignored
+export const REVIEW_COMMENT_MARKER = '[Content review]';
+
+const NEXT_REVIEW_PATTERN = /Next review due (\d{4}-\d{2}-\d{2})\./;
+const REVIEW_CACHE_STORAGE_PREFIX = 'contentDashboard_reviews_';
+// Cached reviews are read again after this long, to see reviews recorded in other browsers
+const REVIEW_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+// One "Mark reviewed" action, stored as a comment on the entry
+export interface EntryReview {
+  commentId: string;
+  entryId: string;
+  reviewerId: string;
+  reviewedAt: string;
+  // Day key the entry needs a review again
+  nextReviewDue: string;
+  note: string;
+}
+
+// Latest review of an entry as last read from its comments
+export interface CachedReview {
+  // The entry's sys.updatedAt when its comments were read; an edit since means they are read again
+  updatedAt: string;
+  checkedAt: number;
+  review: EntryReview | null;
+}
+
+// Entry ID -> latest review, shared by every Needs Update list of a space
+export type ReviewCache = Record<string, CachedReview>;
+
+export const loadReviewCache = (spaceId: string, environmentId: string): ReviewCache => {
+  try {
+    const stored = localStorage.getItem(`${REVIEW_CACHE_STORAGE_PREFIX}${spaceId}:${environmentId}`);
+    return stored ? (JSON.parse(stored) as ReviewCache) : {};
+  } catch (error) {
+    console.warn('Failed to load review cache:', error);
+    return {};
+  }
+};
+
+export const saveReviewCache = (spaceId: string, environmentId: string, cache: ReviewCache) => {
+  try {
+    localStorage.setItem(`${REVIEW_CACHE_STORAGE_PREFIX}${spaceId}:${environmentId}`, JSON.stringify(cache));
+  } catch (error) {
+    console.warn('Failed to save review cache:', error);
+  }
+};
+
+export const formatReviewComment = (nextReviewDue: string, note = '') =>
+  `${REVIEW_COMMENT_MARKER} Confirmed accurate. Next review due ${nextReviewDue}.${note.trim() ? `\n${note.trim()}` : ''}`;
+
+export const parseReviewComment = (comment: CommentProps): EntryReview | null => {
+  if (!comment.body.startsWith(REVIEW_COMMENT_MARKER)) return null;
+  const match = comment.body.match(NEXT_REVIEW_PATTERN);
+  if (!match) return null;
+
+  return {
+    commentId: comment.sys.id,
+    entryId: comment.sys.parentEntity.sys.id,
+    reviewerId: comment.sys.createdBy?.sys.id || 'Unknown',
+    reviewedAt: comment.sys.createdAt,
+    nextReviewDue: match[1],
+    note: comment.body.split('\n').slice(1).join('\n')
+  };
+};
+
+// Day key `months` after today, the default next review for a snooze of that length
+export const getNextReviewDue = (now: Date, months: number, timeZone: string) =>
+  toDateKey(getZonedDate(getZonedMonthsAgo(now, -months, timeZone), timeZone));
+
+export const isReviewCurrent = (review: EntryReview | undefined, now: Date, timeZone: string) =>
+  Boolean(review && review.nextReviewDue > toDateKey(getZonedDate(now, timeZone)));
+
+// Every review of an entry, newest first
+export const fetchEntryReviews = async (dataSource: DashboardDataSource, entryId: string): Promise<EntryReview[]> => {
+  const { items } = await dataSource.getComments(entryId);
+  return items
+    .map(parseReviewComment)
+    .filter((review): review is EntryReview => review !== null)
+    .sort((a, b) => b.reviewedAt.localeCompare(a.reviewedAt));
+};
+
+/**
+ * Drop entries whose latest review is not due again yet. Comments can only be
+ * listed per entry, so reviews are kept in the cache and read again only for
+ * entries edited since, or not checked within REVIEW_CACHE_TTL. An entry whose
+ * comments fail to load counts as not reviewed and is read again next time.
+ */
+export const withoutCurrentReviews = async (
+  dataSource: DashboardDataSource,
+  entries: EntryProps[],
+  { now, timeZone, cache = {} }: { now: Date; timeZone: string; cache?: ReviewCache }
+): Promise<EntryProps[]> => {
+  const unchecked = entries.filter(entry => {
+    const cached = cache[entry.sys.id];
+    return !cached || cached.updatedAt !== entry.sys.updatedAt || now.getTime() - cached.checkedAt > REVIEW_CACHE_TTL;
+  });
+  const results = await Promise.allSettled(
+    unchecked.map(entry => fetchEntryReviews(dataSource, entry.sys.id).then(reviews => {
+      cache[entry.sys.id] = { updatedAt: entry.sys.updatedAt, checkedAt: now.getTime(), review: reviews[0] || null };
+    }))
+  );
+  const failedEntryIds = new Set<string>();
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.warn(`Failed to read reviews of entry ${unchecked[index].sys.id}:`, result.reason);
+      failedEntryIds.add(unchecked[index].sys.id);
+    }
+  });
+  return entries.filter(entry =>
+    failedEntryIds.has(entry.sys.id) || !isReviewCurrent(cache[entry.sys.id]?.review || undefined, now, timeZone)
+  );
+};
+
+// Records the review as a comment and, when given a cache, as the entry's latest review
+export const markEntryReviewed = async (
+  dataSource: DashboardDataSource,
+  entry: EntryProps,
+  { nextReviewDue, note, cache }: { nextReviewDue: string; note?: string; cache?: ReviewCache }
+): Promise<EntryReview> => {
+  const comment = await dataSource.createComment(entry.sys.id, formatReviewComment(nextReviewDue, note));
+  const review = parseReviewComment(comment)!;
+  if (cache) {
+    cache[entry.sys.id] = { updatedAt: entry.sys.updatedAt, checkedAt: Date.now(), review };
+  }
+  return review;
+};
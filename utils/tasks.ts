@@ -0,0 +1,58 @@
+import { TaskProps } from 'contentful-management';
+import { DashboardDataSource } from './data-source';
+
+// What the editor fills in once for every selected entry
+export interface EntryTaskDraft {
+  assigneeId: string;
+  body: string;
+  // Day key, e.g. 2025-07-01
+  dueDate?: string;
+}
+
+// Tasks created, and entries no task could be created on, so a retry only covers those
+export interface EntryTaskResult {
+  created: TaskProps[];
+  failedEntryIds: string[];
+}
+
+/**
+ * Open tasks by entry ID, for the entries that have any. Tasks can only be
+ * listed per entry, so this costs one request per entry.
+ */
+export const fetchOpenTasks = async (
+  dataSource: DashboardDataSource,
+  entryIds: string[]
+): Promise<Record<string, TaskProps[]>> => {
+  const responses = await Promise.all(entryIds.map(entryId => dataSource.getTasks(entryId)));
+  return Object.fromEntries(
+    entryIds
+      .map((entryId, index) => [entryId, responses[index].items.filter(task => task.status === 'active')] as const)
+      .filter(([, tasks]) => tasks.length > 0)
+  );
+};
+
+// Create the same task on every entry; one failure does not stop the others
+export const createEntryTasks = async (
+  dataSource: DashboardDataSource,
+  entryIds: string[],
+  { assigneeId, body, dueDate }: EntryTaskDraft
+): Promise<EntryTaskResult> => {
+  const results = await Promise.allSettled(
+    entryIds.map(entryId =>
+      dataSource.createTask(entryId, {
+        body: body.trim(),
+        status: 'active',
+        assignedTo: { sys: { type: 'Link', linkType: 'User', id: assigneeId } },
+        ...(dueDate ? { dueDate } : {})
+      })
+    )
+  );
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') console.error(`Error creating task on entry ${entryIds[index]}:`, result.reason);
+  });
+
+  return {
+    created: results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : [])),
+    failedEntryIds: entryIds.filter((_, index) => results[index].status === 'rejected')
+  };
+};
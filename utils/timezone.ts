@@ -0,0 +1,124 @@
+// Reporting timezone helpers. Date keys are plain `YYYY-MM-DD` strings naming a
+// calendar day in the reporting timezone, so they sort and compare as strings.
+
+export interface ZonedDate {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+}
+
+const formatterCache: Record<string, Intl.DateTimeFormat> = {};
+
+const getFormatter = (timeZone: string) => {
+  if (!formatterCache[timeZone]) {
+    formatterCache[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+  }
+  return formatterCache[timeZone];
+};
+
+const getZonedDateTimeParts = (date: Date, timeZone: string): Record<string, number> =>
+  getFormatter(timeZone)
+    .formatToParts(date)
+    .reduce<Record<string, number>>((parts, part) => {
+      if (part.type !== 'literal') {
+        parts[part.type] = parseInt(part.value, 10);
+      }
+      return parts;
+    }, {});
+
+// Reporting timezone until an admin picks one, the same for every viewer
+export const DEFAULT_REPORTING_TIME_ZONE = 'UTC';
+
+// Timezone of the current browser, the default for helpers called without a timezone
+export const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getZonedDate = (date: Date, timeZone: string): ZonedDate => {
+  const { year, month, day } = getZonedDateTimeParts(date, timeZone);
+  return { year, month, day };
+};
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedDateTimeParts(date, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The instant midnight starts on the given calendar day in the timezone.
+ * Month and day may overflow (e.g. month 0 or day 32) and are normalized the
+ * same way Date.UTC normalizes them, which makes calendar arithmetic easy.
+ */
+export const startOfZonedDay = ({ year, month, day }: ZonedDate, timeZone: string): Date => {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  const guess = utcMidnight - getTimeZoneOffset(new Date(utcMidnight), timeZone);
+  // Re-check the offset at the guess in case a DST switch happened in between
+  return new Date(utcMidnight - getTimeZoneOffset(new Date(guess), timeZone));
+};
+
+export const normalizeZonedDate = ({ year, month, day }: ZonedDate): ZonedDate => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+export const toDateKey = ({ year, month, day }: ZonedDate): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+export const parseDateKey = (key: string): ZonedDate => {
+  const [year, month, day] = key.split('-').map(part => parseInt(part, 10));
+  return { year, month, day };
+};
+
+// Key of the first day of the month the instant falls in, in the timezone
+export const getZonedMonthKey = (date: Date, timeZone: string): string => {
+  const { year, month } = getZonedDate(date, timeZone);
+  return toDateKey({ year, month, day: 1 });
+};
+
+// Start of the calendar day `days` days before the current day in the timezone
+export const getZonedDaysAgo = (now: Date, days: number, timeZone: string): Date => {
+  const today = getZonedDate(now, timeZone);
+  return startOfZonedDay({ ...today, day: today.day - days }, timeZone);
+};
+
+// Start of the calendar day `months` months before the current day in the timezone
+export const getZonedMonthsAgo = (now: Date, months: number, timeZone: string): Date => {
+  const today = getZonedDate(now, timeZone);
+  return startOfZonedDay({ ...today, month: today.month - months }, timeZone);
+};
+
+// IANA timezones the browser knows about, for the reporting timezone picker
+export const getSupportedTimeZones = (): string[] => {
+  const pinned = Array.from(new Set([DEFAULT_REPORTING_TIME_ZONE, getBrowserTimeZone()]));
+  try {
+    const timeZones = Intl.supportedValuesOf('timeZone');
+    return [...pinned.filter(timeZone => !timeZones.includes(timeZone)), ...timeZones];
+  } catch {
+    return pinned;
+  }
+};
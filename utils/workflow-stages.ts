@@ -0,0 +1,168 @@
+import { ContentTypeProps, EntryProps, WorkflowDefinitionProps, WorkflowProps } from 'contentful-management';
+import { getTimeToPublishStats, TimeToPublishStats } from './aggregation';
+import { fetchAllPages } from './contentful';
+import { DashboardDataSource } from './data-source';
+import { DashboardFilter, matchesDashboardFilter, toEntryQuery } from './dashboard-filter';
+import { isRequestCancelled } from './request-scheduler';
+
+// Content type ID -> ID of the field holding the editorial status, for spaces without Workflows
+export type StageFields = Record<string, string>;
+
+export interface EntryStage {
+  name: string;
+  // When the entry entered the stage, as far as it can be told
+  since: string;
+  source: 'workflow' | 'field';
+}
+
+// Days the entries currently in a stage have spent there
+export interface StageSummary {
+  name: string;
+  stats: TimeToPublishStats;
+}
+
+export interface StageReport {
+  // In workflow step order, then status field order
+  stages: StageSummary[];
+  entryStages: Record<string, EntryStage>;
+  usesWorkflows: boolean;
+}
+
+export interface StageReportOptions {
+  filter: DashboardFilter;
+  stageFields?: StageFields;
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stage of every entry in a running workflow. A workflow's sys.updatedAt moves
+ * when it changes step, so it stands in for the time the step was entered.
+ */
+export const getWorkflowStages = (
+  workflows: WorkflowProps[],
+  definitions: WorkflowDefinitionProps[]
+): Record<string, EntryStage> => {
+  const stepNames = new Map(definitions.flatMap(definition => definition.steps.map(step => [step.id, step.name] as const)));
+  return Object.fromEntries(
+    workflows
+      .filter(workflow => workflow.stepId && stepNames.has(workflow.stepId) && !workflow.sys.completedAt && !workflow.sys.deletedAt)
+      .map(workflow => [
+        workflow.sys.entity.sys.id,
+        { name: stepNames.get(workflow.stepId!)!, since: workflow.sys.updatedAt, source: 'workflow' as const }
+      ])
+  );
+};
+
+/**
+ * Stage read from each entry's status field. The field keeps no history, so
+ * time in stage counts from the entry's last update.
+ */
+export const getFieldStages = (
+  entries: EntryProps[],
+  stageFields: StageFields,
+  defaultLocale = 'en-US'
+): Record<string, EntryStage> =>
+  Object.fromEntries(
+    entries.flatMap(entry => {
+      const fieldId = stageFields[entry.sys.contentType.sys.id];
+      const values = fieldId ? entry.fields?.[fieldId] : undefined;
+      const value = values?.[defaultLocale] ?? (values ? Object.values(values)[0] : undefined);
+      return typeof value === 'string' && value
+        ? [[entry.sys.id, { name: value, since: entry.sys.updatedAt, source: 'field' as const }]]
+        : [];
+    })
+  );
+
+// Workflow steps in definition order, then the allowed values of each status field
+export const getStageOrder = (
+  definitions: WorkflowDefinitionProps[],
+  contentTypes: ContentTypeProps[],
+  stageFields: StageFields = {}
+): string[] => {
+  const fieldValues = contentTypes.flatMap(contentType => {
+    const field = contentType.fields.find(item => item.id === stageFields[contentType.sys.id]);
+    return (field?.validations || []).flatMap(validation => (validation.in || []).map(String));
+  });
+  return Array.from(new Set([...definitions.flatMap(definition => definition.steps.map(step => step.name)), ...fieldValues]));
+};
+
+export const summarizeStages = (
+  entryStages: Record<string, EntryStage>,
+  stageOrder: string[] = [],
+  now: Date = new Date()
+): StageSummary[] => {
+  const daysByStage = new Map<string, number[]>();
+  Object.values(entryStages).forEach(({ name, since }) => {
+    if (!daysByStage.has(name)) daysByStage.set(name, []);
+    daysByStage.get(name)!.push(Math.max(0, (now.getTime() - new Date(since).getTime()) / DAY_MS));
+  });
+  // Stages outside the known order, such as free-text status values, come last
+  const rank = (name: string) => (stageOrder.includes(name) ? stageOrder.indexOf(name) : stageOrder.length);
+
+  return Array.from(daysByStage.entries())
+    .map(([name, days]) => ({ name, stats: getTimeToPublishStats(days) }))
+    .sort((a, b) => rank(a.name) - rank(b.name) || a.name.localeCompare(b.name));
+};
+
+// Spaces without the Workflows feature reject workflow requests; they fall back to status fields
+const fetchWorkflowData = async (dataSource: DashboardDataSource) => {
+  try {
+    const definitions = (await dataSource.getWorkflowDefinitions()).items;
+    const workflows = definitions.length
+      ? await fetchAllPages<WorkflowProps>((skip, limit) => dataSource.getWorkflows({ skip, limit }), 100)
+      : [];
+    return { definitions, workflows };
+  } catch (error) {
+    if (isRequestCancelled(error)) throw error;
+    console.warn('Workflows are not available, using status fields only:', error);
+    return { definitions: [], workflows: [] };
+  }
+};
+
+/**
+ * Stage of every entry in the filter that is not archived: its workflow step
+ * when it is in a running workflow, otherwise its status field if its content
+ * type has one. Entries with neither are left out.
+ */
+export const fetchStageReport = async (
+  dataSource: DashboardDataSource,
+  indexedEntries: EntryProps[],
+  { filter, stageFields = {}, now = new Date() }: StageReportOptions
+): Promise<StageReport> => {
+  const fieldTypeIds = Object.keys(stageFields);
+  const [{ definitions, workflows }, contentTypesResponse, localesResponse, fieldEntries] = await Promise.all([
+    fetchWorkflowData(dataSource),
+    dataSource.getContentTypes(),
+    dataSource.getLocales(),
+    fieldTypeIds.length
+      ? fetchAllPages<EntryProps>((skip, limit) => dataSource.getEntries({
+        ...toEntryQuery(filter),
+        'sys.contentType.sys.id[in]': fieldTypeIds.join(','),
+        'sys.archivedAt[exists]': false,
+        skip,
+        limit
+      }), 200)
+      : Promise.resolve([])
+  ]);
+
+  const inScope = new Set(
+    indexedEntries
+      .filter(entry => !(entry.sys as EntryProps['sys'] & { archivedAt?: string }).archivedAt)
+      .filter(entry => matchesDashboardFilter(entry, filter))
+      .map(entry => entry.sys.id)
+  );
+  const defaultLocale = localesResponse.items.find(locale => locale.default)?.code;
+  // A running workflow wins over the status field
+  const entryStages = Object.fromEntries(
+    Object.entries({ ...getFieldStages(fieldEntries, stageFields, defaultLocale), ...getWorkflowStages(workflows, definitions) })
+      .filter(([entryId]) => inScope.has(entryId))
+  );
+
+  return {
+    stages: summarizeStages(entryStages, getStageOrder(definitions, contentTypesResponse.items, stageFields), now),
+    entryStages,
+    usesWorkflows: definitions.length > 0
+  };
+};